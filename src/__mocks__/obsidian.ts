@@ -0,0 +1,52 @@
+import type { RequestUrlParam, RequestUrlResponse } from 'obsidian';
+
+/**
+ * Stand-in for the parts of the Obsidian API that the modules under test use.
+ * Tests run as a desktop app with an English interface.
+ */
+
+export const Platform = {
+  isDesktop: true,
+  isDesktopApp: true,
+  isMobile: false,
+  isMobileApp: false,
+  isIosApp: false,
+  isAndroidApp: false,
+};
+
+export function getLanguage(): string {
+  return 'en';
+}
+
+/**
+ * requestUrl on top of fetch, throwing for error statuses unless `throw: false` is passed
+ */
+export async function requestUrl(request: RequestUrlParam | string): Promise<RequestUrlResponse> {
+  const params = typeof request === 'string' ? { url: request } : request;
+  const response = await fetch(params.url, {
+    method: params.method,
+    headers: params.headers,
+    body: params.body,
+  });
+
+  const arrayBuffer = await response.arrayBuffer();
+  const text = new TextDecoder().decode(arrayBuffer);
+  const headers: Record<string, string> = {};
+  response.headers.forEach((value, key) => {
+    headers[key] = value;
+  });
+
+  if (params.throw !== false && response.status >= 400) {
+    throw new Error(`Request failed, status ${response.status}`);
+  }
+
+  return {
+    status: response.status,
+    headers,
+    arrayBuffer,
+    text,
+    get json() {
+      return JSON.parse(text);
+    },
+  };
+}
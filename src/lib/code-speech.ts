@@ -0,0 +1,113 @@
+import type { TrackedText } from './source-map';
+
+// Names spoken for common fence info strings
+const CODE_LANGUAGE_NAMES: Record<string, string> = {
+  js: 'JavaScript',
+  javascript: 'JavaScript',
+  jsx: 'JavaScript',
+  ts: 'TypeScript',
+  typescript: 'TypeScript',
+  tsx: 'TypeScript',
+  py: 'Python',
+  python: 'Python',
+  sh: 'shell',
+  bash: 'shell',
+  zsh: 'shell',
+  shell: 'shell',
+  powershell: 'PowerShell',
+  ps1: 'PowerShell',
+  json: 'JSON',
+  yaml: 'YAML',
+  yml: 'YAML',
+  toml: 'TOML',
+  xml: 'XML',
+  html: 'HTML',
+  css: 'CSS',
+  scss: 'SCSS',
+  sql: 'SQL',
+  md: 'Markdown',
+  markdown: 'Markdown',
+  rs: 'Rust',
+  rust: 'Rust',
+  go: 'Go',
+  java: 'Java',
+  kt: 'Kotlin',
+  kotlin: 'Kotlin',
+  swift: 'Swift',
+  c: 'C',
+  cpp: 'C plus plus',
+  'c++': 'C plus plus',
+  cs: 'C sharp',
+  csharp: 'C sharp',
+  rb: 'Ruby',
+  ruby: 'Ruby',
+  php: 'PHP',
+  lua: 'Lua',
+  r: 'R',
+  dataview: 'Dataview',
+  dataviewjs: 'Dataview JS',
+  mermaid: 'Mermaid',
+};
+
+// Words for symbols in code that is read aloud, longest first
+const CODE_SYMBOL_WORDS: Array<[string, string]> = [
+  ['===', 'strictly equals'],
+  ['!==', 'not strictly equal'],
+  ['=>', 'arrow'],
+  ['->', 'arrow'],
+  ['==', 'equals'],
+  ['!=', 'not equal'],
+  ['<=', 'less than or equal'],
+  ['>=', 'greater than or equal'],
+  ['&&', 'and'],
+  ['||', 'or'],
+  ['++', 'plus plus'],
+  ['+=', 'plus equals'],
+  ['-=', 'minus equals'],
+  ['=', 'equals'],
+  ['+', 'plus'],
+  ['*', 'times'],
+  ['/', 'slash'],
+  ['%', 'percent'],
+  ['<', 'less than'],
+  ['>', 'greater than'],
+  ['!', 'not'],
+  ['(', 'open paren'],
+  [')', 'close paren'],
+  ['[', 'open bracket'],
+  [']', 'close bracket'],
+  ['{', 'open brace'],
+  ['}', 'close brace'],
+  ['#', 'hash'],
+  ['@', 'at'],
+  ['&', 'and'],
+  ['|', 'pipe'],
+  ['$', 'dollar'],
+];
+
+const CODE_SYMBOL_REGEX = new RegExp(
+  CODE_SYMBOL_WORDS.map(([symbol]) => symbol.replace(/[.*+?^${}()|[\]\\/]/g, '\\$&')).join('|'),
+  'g'
+);
+const CODE_SYMBOL_LOOKUP = new Map(CODE_SYMBOL_WORDS);
+
+/**
+ * Spoken name of a code block's language, from the fence info string ("ts" → "TypeScript")
+ */
+export function describeCodeLanguage(info: string): string {
+  return CODE_LANGUAGE_NAMES[info.toLowerCase()] || info;
+}
+
+/**
+ * Replace symbols in a line of code with words, so "a => b(c)" is read as
+ * "a arrow b open paren c close paren". Quotes and semicolons are dropped,
+ * and dots are read between names ("console dot log").
+ */
+export function verbalizeCodeSymbols(line: TrackedText): TrackedText {
+  return line
+    .replace(/(\w)\.(?=[A-Za-z_$])/g, '$1 dot ')
+    .replace(CODE_SYMBOL_REGEX, symbol => ` ${CODE_SYMBOL_LOOKUP.get(symbol)} `)
+    .replace(/["'`;]/g, ' ')
+    .replace(/ {2,}/g, ' ')
+    .trim();
+}
@@ -0,0 +1,100 @@
+import { afterEach, describe, expect, it, vi } from 'vitest';
+import { mapWithConcurrency, withRetry } from './concurrency';
+
+// Settle after the given number of event loop turns, so tasks finish out of order
+function settleAfter<T>(turns: number, value: T): Promise<T> {
+  return turns <= 0 ? Promise.resolve(value) : new Promise(resolve => setImmediate(() => resolve(settleAfter(turns - 1, value))));
+}
+
+describe('mapWithConcurrency', () => {
+  it('runs at most `limit` tasks at once and keeps the results in index order', async () => {
+    let running = 0;
+    let maxRunning = 0;
+    const started: number[] = [];
+
+    const results = await mapWithConcurrency(6, 2, async (index) => {
+      started.push(index);
+      running++;
+      maxRunning = Math.max(maxRunning, running);
+      const result = await settleAfter(6 - index, `chunk ${index}`);
+      running--;
+      return result;
+    });
+
+    expect(maxRunning).toBe(2);
+    expect(started).toEqual([0, 1, 2, 3, 4, 5]);
+    expect(results).toEqual(['chunk 0', 'chunk 1', 'chunk 2', 'chunk 3', 'chunk 4', 'chunk 5']);
+  });
+
+  it('runs one task at a time when the limit is below one', async () => {
+    let running = 0;
+    let maxRunning = 0;
+
+    await mapWithConcurrency(3, 0, async () => {
+      running++;
+      maxRunning = Math.max(maxRunning, running);
+      await settleAfter(1, null);
+      running--;
+    });
+
+    expect(maxRunning).toBe(1);
+  });
+});
+
+describe('withRetry', () => {
+  const noDelay = () => 0;
+
+  afterEach(() => {
+    vi.useRealTimers();
+  });
+
+  it('retries up to `retries` times, telling onRetry about each failed attempt', async () => {
+    const errors = [new Error('first'), new Error('second')];
+    const onRetry = vi.fn();
+    const run = vi.fn(async (attempt: number) => {
+      if (attempt < errors.length) throw errors[attempt];
+      return 'audio';
+    });
+
+    await expect(withRetry(run, 2, { onRetry, delayMs: noDelay })).resolves.toBe('audio');
+    expect(run.mock.calls.map(([attempt]) => attempt)).toEqual([0, 1, 2]);
+    expect(onRetry.mock.calls).toEqual([[errors[0], 1], [errors[1], 2]]);
+  });
+
+  it('rethrows the last error once the retries run out', async () => {
+    let attempts = 0;
+    const run = async () => {
+      throw new Error(`attempt ${attempts++}`);
+    };
+
+    await expect(withRetry(run, 2, { delayMs: noDelay })).rejects.toThrow('attempt 2');
+    expect(attempts).toBe(3);
+  });
+
+  it('stops at once when shouldRetry turns the error down', async () => {
+    const onRetry = vi.fn();
+    const run = vi.fn(async () => {
+      throw new Error('Invalid voice');
+    });
+
+    await expect(withRetry(run, 3, { shouldRetry: () => false, onRetry, delayMs: noDelay })).rejects.toThrow('Invalid voice');
+    expect(run).toHaveBeenCalledTimes(1);
+    expect(onRetry).not.toHaveBeenCalled();
+  });
+
+  it('waits the given delay before each retry', async () => {
+    vi.useFakeTimers({ toFake: ['setTimeout'] });
+    const delayMs = vi.fn((_error: unknown, attempt: number) => attempt * 1000);
+    let attempts = 0;
+    const result = withRetry(async () => {
+      if (attempts++ === 0) throw new Error('Network error');
+      return 'audio';
+    }, 1, { delayMs });
+
+    await vi.advanceTimersByTimeAsync(999);
+    expect(attempts).toBe(1);
+    await vi.advanceTimersByTimeAsync(1);
+    await expect(result).resolves.toBe('audio');
+    expect(delayMs).toHaveBeenCalledWith(expect.any(Error), 1);
+  });
+});
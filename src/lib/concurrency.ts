@@ -0,0 +1,51 @@
+/**
+ * Helpers for running several synthesis requests at once and retrying failed ones
+ */
+
+/**
+ * Run a task for each index from 0 to count - 1, with at most `limit` running at once.
+ * Tasks start in index order and the results keep that order.
+ */
+export async function mapWithConcurrency<T>(count: number, limit: number, run: (index: number) => Promise<T>): Promise<T[]> {
+  const results: T[] = new Array(count);
+  let nextIndex = 0;
+
+  const worker = async () => {
+    while (nextIndex < count) {
+      const index = nextIndex++;
+      results[index] = await run(index);
+    }
+  };
+
+  const workers: Promise<void>[] = [];
+  for (let i = 0; i < Math.max(1, Math.min(limit, count)); i++) {
+    workers.push(worker());
+  }
+  await Promise.all(workers);
+  return results;
+}
+
+/**
+ * When and how failed tasks are retried
+ */
+export interface RetryOptions {
+  shouldRetry?: (error: unknown) => boolean; // Whether the error is worth another attempt (default: always)
+  onRetry?: (error: unknown, attempt: number) => void; // Called before each retry with the failed attempt's error
+  delayMs?: (error: unknown, attempt: number) => number; // Wait before a retry (default: 1s, doubling each retry)
+}
+
+/**
+ * Run a task, running it again up to `retries` times if it fails
+ */
+export async function withRetry<T>(run: (attempt: number) => Promise<T>, retries: number, options: RetryOptions = {}): Promise<T> {
+  const { shouldRetry, onRetry, delayMs = (_error, attempt) => 1000 * Math.pow(2, attempt - 1) } = options;
+  for (let attempt = 0; ; attempt++) {
+    try {
+      return await run(attempt);
+    } catch (error) {
+      if (attempt >= retries || (shouldRetry && !shouldRetry(error))) throw error;
+      onRetry?.(error, attempt + 1);
+      await new Promise(resolve => setTimeout(resolve, delayMs(error, attempt + 1)));
+    }
+  }
+}
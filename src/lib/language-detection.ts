@@ -0,0 +1,67 @@
+/**
+ * Rough language detection for paragraphs of note text. Scripts other than Latin
+ * identify the language on their own; Latin text is scored by common short words.
+ * Short or ambiguous text returns null, so callers can keep the previous voice.
+ */
+
+// Scripts that (mostly) belong to a single language, checked in order. Kana comes
+// before Han so Japanese text with kanji isn't taken for Chinese.
+const SCRIPT_LANGUAGES: Array<[RegExp, string]> = [
+  [/[가-힯ᄀ-ᇿ]/g, 'ko'],
+  [/[぀-ヿ]/g, 'ja'],
+  [/[一-鿿]/g, 'zh'],
+  [/[Ѐ-ӿ]/g, 'ru'],
+  [/[؀-ۿ]/g, 'ar'],
+  [/[֐-׿]/g, 'he'],
+  [/[Ͱ-Ͽ]/g, 'el'],
+  [/[ऀ-ॿ]/g, 'hi'],
+  [/[฀-๿]/g, 'th'],
+];
+
+// Frequent words of languages written in Latin script
+const COMMON_WORDS: Record<string, string[]> = {
+  en: ['the', 'and', 'is', 'are', 'of', 'to', 'in', 'that', 'it', 'with', 'for', 'this', 'was', 'you', 'not', 'be', 'have', 'on', 'what', 'which', 'we', 'they'],
+  es: ['el', 'la', 'los', 'las', 'de', 'que', 'y', 'en', 'un', 'una', 'es', 'por', 'con', 'para', 'no', 'se', 'del', 'al', 'lo', 'como', 'pero', 'más', 'está', 'muy'],
+  fr: ['le', 'la', 'les', 'de', 'des', 'et', 'est', 'un', 'une', 'du', 'que', 'en', 'pour', 'dans', 'pas', 'ne', 'qui', 'sur', 'au', 'avec', 'ce', 'il', 'je', 'nous', 'vous'],
+  de: ['der', 'die', 'das', 'und', 'ist', 'nicht', 'ein', 'eine', 'zu', 'den', 'mit', 'sich', 'auf', 'für', 'von', 'dem', 'des', 'auch', 'es', 'ich', 'wir', 'sie'],
+  it: ['il', 'la', 'di', 'che', 'e', 'è', 'un', 'una', 'per', 'non', 'con', 'del', 'della', 'sono', 'gli', 'le', 'nel', 'da', 'al', 'ma', 'come', 'più'],
+  pt: ['o', 'a', 'os', 'as', 'de', 'que', 'e', 'é', 'um', 'uma', 'do', 'da', 'em', 'para', 'não', 'com', 'no', 'na', 'por', 'se', 'dos', 'das', 'mas', 'você'],
+};
+
+// Letters that only some of those languages use
+const LANGUAGE_LETTERS: Record<string, RegExp> = {
+  es: /[ñ¿¡]/g,
+  pt: /[ãõ]/g,
+  de: /[ßäöü]/g,
+  fr: /[œêèëîïûù]/g,
+};
+
+const COMMON_WORD_SETS = Object.keys(COMMON_WORDS).map(language => ({ language, words: new Set(COMMON_WORDS[language]) }));
+
+// Fewer matching words than this is too little to go on
+const MIN_WORD_MATCHES = 2;
+
+/**
+ * Two-letter code of the language the text is most likely written in, or null when unsure
+ */
+export function detectLanguage(text: string): string | null {
+  const letters = (text.match(/\p{L}/gu) || []).length;
+  if (letters === 0) return null;
+
+  for (const [regex, language] of SCRIPT_LANGUAGES) {
+    const count = (text.match(regex) || []).length;
+    if (count / letters > 0.3) return language;
+  }
+
+  const words = text.toLowerCase().match(/\p{L}+/gu) || [];
+  const scores = COMMON_WORD_SETS.map(({ language, words: common }) => {
+    let score = words.filter(word => common.has(word)).length;
+    const letterHints = LANGUAGE_LETTERS[language];
+    if (letterHints) score += (text.toLowerCase().match(letterHints) || []).length;
+    return { language, score };
+  }).sort((a, b) => b.score - a.score);
+
+  const [best, second] = scores;
+  if (best.score < MIN_WORD_MATCHES || best.score === second.score) return null;
+  return best.language;
+}
@@ -0,0 +1,46 @@
+import { readFileSync } from 'fs';
+import { join } from 'path';
+import { describe, expect, it } from 'vitest';
+import { latexToSpeech } from './latex-speech';
+import { DEFAULT_FILTERING, renderSpeakableText } from './markdown-speech';
+import { TrackedText } from './source-map';
+
+// Each line of the corpus is "latex => spoken", with "null" for input that can't be read
+const CORPUS = readFileSync(join(__dirname, '__fixtures__', 'latex-corpus.txt'), 'utf8')
+  .split('\n')
+  .filter(line => line.trim() && !line.startsWith('#'))
+  .map(line => {
+    const separator = line.lastIndexOf(' => ');
+    const expected = line.slice(separator + 4);
+    return { latex: line.slice(0, separator), expected: expected === 'null' ? null : expected };
+  });
+
+describe('latexToSpeech corpus', () => {
+  for (const { latex, expected } of CORPUS) {
+    it(`reads ${latex}`, () => {
+      expect(latexToSpeech(latex)).toBe(expected);
+    });
+  }
+});
+
+describe('latexToSpeech', () => {
+  it('returns null for empty input', () => {
+    expect(latexToSpeech('')).toBeNull();
+    expect(latexToSpeech('   ')).toBeNull();
+  });
+});
+
+describe('math in notes', () => {
+  const speak = (markdown: string) =>
+    renderSpeakableText(TrackedText.fromSource(markdown), { ...DEFAULT_FILTERING, speakMath: true }).text;
+
+  it('reads inline and display math', () => {
+    expect(speak('Half is $\\frac{1}{2}$.')).toBe('Half is 1 over 2.');
+    expect(speak('$$\n\\sqrt{x}\n$$')).toContain('the square root of x');
+  });
+
+  it('falls back to "equation omitted" for malformed or unsupported math', () => {
+    expect(speak('Broken $\\frac{a}{$ here')).toBe('Broken equation omitted here');
+    expect(speak('$$\n\\begin{matrix} a \\end{matrix}\n$$')).toContain('equation omitted');
+  });
+});
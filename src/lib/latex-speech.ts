@@ -0,0 +1,412 @@
+/**
+ * Converts common LaTeX math into spoken English, e.g. "\frac{a}{b}" into "a over b".
+ * Only a subset of LaTeX is understood; anything else makes latexToSpeech() return null
+ * so the caller can say that the equation was left out.
+ */
+
+type Token =
+  | { type: 'command', name: string }
+  | { type: 'open' }
+  | { type: 'close' }
+  | { type: 'superscript' }
+  | { type: 'subscript' }
+  | { type: 'number', value: string }
+  | { type: 'text', value: string }
+  | { type: 'char', value: string };
+
+// Thrown for LaTeX the converter doesn't handle
+class UnsupportedLatexError extends Error {}
+
+const GREEK_LETTERS = [
+  'alpha', 'beta', 'gamma', 'delta', 'epsilon', 'varepsilon', 'zeta', 'eta', 'theta', 'vartheta',
+  'iota', 'kappa', 'lambda', 'mu', 'nu', 'xi', 'pi', 'varpi', 'rho', 'varrho', 'sigma', 'varsigma',
+  'tau', 'upsilon', 'phi', 'varphi', 'chi', 'psi', 'omega',
+];
+
+// Commands read as a fixed word or phrase
+const COMMAND_WORDS: Record<string, string> = {
+  cdot: 'times',
+  times: 'times',
+  div: 'divided by',
+  pm: 'plus or minus',
+  mp: 'minus or plus',
+  le: 'less than or equal to',
+  leq: 'less than or equal to',
+  ge: 'greater than or equal to',
+  geq: 'greater than or equal to',
+  ne: 'not equal to',
+  neq: 'not equal to',
+  approx: 'approximately equal to',
+  equiv: 'is equivalent to',
+  sim: 'is similar to',
+  propto: 'is proportional to',
+  infty: 'infinity',
+  to: 'to',
+  rightarrow: 'to',
+  leftarrow: 'from',
+  Rightarrow: 'implies',
+  implies: 'implies',
+  iff: 'if and only if',
+  Leftrightarrow: 'if and only if',
+  in: 'in',
+  notin: 'not in',
+  subset: 'subset of',
+  subseteq: 'subset of or equal to',
+  cup: 'union',
+  cap: 'intersection',
+  emptyset: 'the empty set',
+  forall: 'for all',
+  exists: 'there exists',
+  neg: 'not',
+  land: 'and',
+  lor: 'or',
+  partial: 'partial',
+  nabla: 'nabla',
+  degree: 'degrees',
+  circ: 'degrees',
+  ldots: 'dot dot dot',
+  cdots: 'dot dot dot',
+  dots: 'dot dot dot',
+  sin: 'sine',
+  cos: 'cosine',
+  tan: 'tangent',
+  cot: 'cotangent',
+  sec: 'secant',
+  csc: 'cosecant',
+  arcsin: 'arc sine',
+  arccos: 'arc cosine',
+  arctan: 'arc tangent',
+  sinh: 'hyperbolic sine',
+  cosh: 'hyperbolic cosine',
+  tanh: 'hyperbolic tangent',
+  log: 'log',
+  ln: 'natural log',
+  exp: 'exp',
+  max: 'max',
+  min: 'min',
+  det: 'determinant',
+};
+
+// Big operators, read as "the sum from i equals 1 to n of ..."
+const BIG_OPERATORS: Record<string, string> = {
+  sum: 'the sum',
+  prod: 'the product',
+  int: 'the integral',
+  iint: 'the double integral',
+  iiint: 'the triple integral',
+  oint: 'the contour integral',
+  bigcup: 'the union',
+  bigcap: 'the intersection',
+};
+
+// Accents, read after their argument ("x bar") or before it ("vector v")
+const ACCENTS: Record<string, { word: string, before: boolean }> = {
+  bar: { word: 'bar', before: false },
+  overline: { word: 'bar', before: false },
+  hat: { word: 'hat', before: false },
+  widehat: { word: 'hat', before: false },
+  tilde: { word: 'tilde', before: false },
+  dot: { word: 'dot', before: false },
+  ddot: { word: 'double dot', before: false },
+  vec: { word: 'vector', before: true },
+};
+
+// Commands whose argument is read as plain text
+const TEXT_COMMANDS = ['text', 'textrm', 'textit', 'textbf', 'mathrm', 'mathit', 'mathbf', 'mathsf', 'mathtt', 'mathcal', 'mathbb', 'operatorname', 'boldsymbol'];
+
+// Commands that only affect spacing or sizing
+const IGNORED_COMMANDS = ['left', 'right', 'big', 'Big', 'bigg', 'Bigg', 'displaystyle', 'textstyle', 'limits', 'nolimits', ',', ';', ':', '!', ' ', 'quad', 'qquad'];
+
+const CHAR_WORDS: Record<string, string> = {
+  '+': 'plus',
+  '-': 'minus',
+  '=': 'equals',
+  '<': 'less than',
+  '>': 'greater than',
+  '*': 'times',
+  '/': 'over',
+  '!': 'factorial',
+  '(': 'open paren',
+  ')': 'close paren',
+  '[': 'open bracket',
+  ']': 'close bracket',
+  '|': 'bar',
+  ',': ',',
+  '.': 'point',
+  ':': 'such that',
+  "'": 'prime',
+};
+
+function tokenize(latex: string): Token[] {
+  const tokens: Token[] = [];
+  let i = 0;
+
+  while (i < latex.length) {
+    const char = latex[i];
+
+    if (char === '\\') {
+      const name = /^[A-Za-z]+/.exec(latex.slice(i + 1));
+      const text = name && TEXT_COMMANDS.includes(name[0]) ? /^\s*\{([^{}\\]*)\}/.exec(latex.slice(i + 1 + name[0].length)) : null;
+      if (name && text) {
+        // "\text{max value}" keeps its spaces, so it is read as written
+        tokens.push({ type: 'text', value: text[1].trim() });
+        i += 1 + name[0].length + text[0].length;
+      } else if (name) {
+        tokens.push({ type: 'command', name: name[0] });
+        i += 1 + name[0].length;
+      } else {
+        // Control symbols like "\{", "\," or "\\"
+        tokens.push({ type: 'command', name: latex[i + 1] || '' });
+        i += 2;
+      }
+    } else if (/\s/.test(char)) {
+      i++;
+    } else if (char === '{') {
+      tokens.push({ type: 'open' });
+      i++;
+    } else if (char === '}') {
+      tokens.push({ type: 'close' });
+      i++;
+    } else if (char === '^') {
+      tokens.push({ type: 'superscript' });
+      i++;
+    } else if (char === '_') {
+      tokens.push({ type: 'subscript' });
+      i++;
+    } else if (/\d/.test(char)) {
+      const number = /^\d+(?:\.\d+)?/.exec(latex.slice(i))![0];
+      tokens.push({ type: 'number', value: number });
+      i += number.length;
+    } else {
+      tokens.push({ type: 'char', value: char });
+      i++;
+    }
+  }
+
+  return tokens;
+}
+
+/**
+ * Recursive descent over the tokens, producing words
+ */
+class LatexSpeechParser {
+  private index = 0;
+
+  constructor(private tokens: Token[]) {}
+
+  parse(): string[] {
+    const words = this.parseSequence();
+    if (this.index < this.tokens.length) throw new UnsupportedLatexError('Unbalanced braces');
+    return words;
+  }
+
+  // Atoms up to the end of the current group
+  private parseSequence(): string[] {
+    const words: string[] = [];
+    while (this.index < this.tokens.length && this.tokens[this.index].type !== 'close') {
+      words.push(...this.parseScripted());
+    }
+    return words;
+  }
+
+  // An atom with its superscript and subscript
+  private parseScripted(): string[] {
+    const words = this.parseAtom();
+
+    while (this.peek('superscript') || this.peek('subscript')) {
+      const isSuperscript = this.next().type === 'superscript';
+      const script = this.parseArgument();
+      if (isSuperscript) {
+        words.push(...this.describePower(script));
+      } else {
+        words.push('sub', ...script);
+      }
+    }
+
+    return words;
+  }
+
+  private describePower(exponent: string[]): string[] {
+    const text = exponent.join(' ');
+    if (text === '2') return ['squared'];
+    if (text === '3') return ['cubed'];
+    if (text === 'prime') return ['prime'];
+    return ['to the power of', ...exponent];
+  }
+
+  private parseAtom(): string[] {
+    const token = this.next();
+
+    switch (token.type) {
+      case 'open': {
+        const words = this.parseSequence();
+        this.expect('close');
+        return words;
+      }
+      case 'number':
+      case 'text':
+        return [token.value];
+      case 'char':
+        if (/[A-Za-z]/.test(token.value)) return [token.value];
+        if (token.value in CHAR_WORDS) return [CHAR_WORDS[token.value]];
+        throw new UnsupportedLatexError(`Unsupported character ${token.value}`);
+      case 'command':
+        return this.parseCommand(token.name);
+      default:
+        throw new UnsupportedLatexError(`Unexpected ${token.type}`);
+    }
+  }
+
+  private parseCommand(name: string): string[] {
+    if (IGNORED_COMMANDS.includes(name)) return [];
+    if (name in COMMAND_WORDS) return [COMMAND_WORDS[name]];
+
+    const greek = name.toLowerCase();
+    if (GREEK_LETTERS.includes(greek)) {
+      const letter = greek.replace(/^var/, '');
+      return [name === greek ? letter : `capital ${letter}`];
+    }
+
+    if (name === 'frac' || name === 'dfrac' || name === 'tfrac') {
+      const numerator = this.parseArgument();
+      const denominator = this.parseArgument();
+      return [...numerator, 'over', ...denominator];
+    }
+
+    if (name === 'binom') {
+      const n = this.parseArgument();
+      const k = this.parseArgument();
+      return [...n, 'choose', ...k];
+    }
+
+    if (name === 'sqrt') {
+      const degree = this.parseOptionalArgument();
+      const radicand = this.parseArgument();
+      if (!degree) return ['the square root of', ...radicand];
+      const degreeText = degree.join(' ');
+      if (degreeText === '3') return ['the cube root of', ...radicand];
+      return ['the', degreeText, 'th root of', ...radicand];
+    }
+
+    if (name in BIG_OPERATORS) return this.parseBigOperator(BIG_OPERATORS[name]);
+
+    if (name === 'lim') {
+      const words = ['the limit'];
+      if (this.peek('subscript')) {
+        this.next();
+        words.push('as', ...this.parseArgument().map(word => word === 'to' ? 'approaches' : word));
+      }
+      words.push('of');
+      return words;
+    }
+
+    if (name in ACCENTS) {
+      const accent = ACCENTS[name];
+      const argument = this.parseArgument();
+      return accent.before ? [accent.word, ...argument] : [...argument, accent.word];
+    }
+
+    // Styled math like "\mathbf{\alpha}" is read like its content
+    if (TEXT_COMMANDS.includes(name)) return this.parseArgument();
+
+    // Escaped characters like "\{" or "\%"
+    if (name === '{' || name === '}') return [];
+    if (name === '%') return ['percent'];
+    if (name === '$') return ['dollars'];
+
+    throw new UnsupportedLatexError(`Unsupported command \\${name}`);
+  }
+
+  private parseBigOperator(words: string): string[] {
+    const result = [words];
+    let lower: string[] | null = null;
+    let upper: string[] | null = null;
+
+    while (this.peek('subscript') || this.peek('superscript') || this.peekCommand('limits')) {
+      const token = this.next();
+      if (token.type === 'subscript') lower = this.parseArgument();
+      if (token.type === 'superscript') upper = this.parseArgument();
+    }
+
+    if (lower) result.push('from', ...lower);
+    if (upper) result.push('to', ...upper);
+    result.push('of');
+    return result;
+  }
+
+  // A braced group, or a single atom ("x^2", "\frac12")
+  private parseArgument(): string[] {
+    if (this.index >= this.tokens.length) throw new UnsupportedLatexError('Missing argument');
+    if (this.peek('open')) {
+      this.next();
+      const words = this.parseSequence();
+      this.expect('close');
+      return words;
+    }
+
+    const token = this.tokens[this.index];
+    if (token.type === 'number' && token.value.length > 1) {
+      // "\frac12" means \frac{1}{2}: only the first digit is the argument
+      this.tokens.splice(this.index, 1, { type: 'number', value: token.value[0] }, { type: 'number', value: token.value.slice(1) });
+    }
+    return this.parseAtom();
+  }
+
+  // "[n]" after \sqrt
+  private parseOptionalArgument(): string[] | null {
+    const token = this.tokens[this.index];
+    if (!token || token.type !== 'char' || token.value !== '[') return null;
+    this.next();
+
+    const words: string[] = [];
+    while (this.index < this.tokens.length) {
+      const current = this.tokens[this.index];
+      if (current.type === 'char' && current.value === ']') {
+        this.next();
+        return words;
+      }
+      words.push(...this.parseScripted());
+    }
+    throw new UnsupportedLatexError('Unclosed optional argument');
+  }
+
+  private peek(type: Token['type']): boolean {
+    return this.index < this.tokens.length && this.tokens[this.index].type === type;
+  }
+
+  private peekCommand(name: string): boolean {
+    const token = this.tokens[this.index];
+    return !!token && token.type === 'command' && token.name === name;
+  }
+
+  private next(): Token {
+    const token = this.tokens[this.index++];
+    if (!token) throw new UnsupportedLatexError('Unexpected end of input');
+    return token;
+  }
+
+  private expect(type: Token['type']): void {
+    if (this.next().type !== type) throw new UnsupportedLatexError(`Expected ${type}`);
+  }
+}
+
+/**
+ * Spoken English for a LaTeX math expression, or null when it uses LaTeX
+ * that isn't supported (environments, matrices, unknown commands)
+ */
+export function latexToSpeech(latex: string): string | null {
+  try {
+    const words = new LatexSpeechParser(tokenize(latex)).parse();
+    const spoken = words
+      .filter(word => word.length > 0)
+      .join(' ')
+      .replace(/ ,/g, ',')
+      .replace(/ th root/g, 'th root')
+      .replace(/\s+/g, ' ')
+      .trim();
+    return spoken || null;
+  } catch (error) {
+    if (error instanceof UnsupportedLatexError) return null;
+    throw error;
+  }
+}
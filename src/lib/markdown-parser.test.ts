@@ -0,0 +1,120 @@
+import { describe, expect, it } from 'vitest';
+import { findBlockStarts, findEmbeds, findFrontmatterEnd, findSectionEnd, parseInline, parseMarkdown } from './markdown-parser';
+import type { BlockNode, InlineNode } from './markdown-parser';
+
+function inlineTypes(text: string): string[] {
+  return parseInline(text, 0, text.length).map((node: InlineNode) => node.type);
+}
+
+describe('parseMarkdown', () => {
+  it('recognises block types', () => {
+    const note = [
+      '---', 'title: x', '---',
+      '# Heading',
+      'A line',
+      '- item',
+      '```js', 'code', '```',
+      '$$', 'x^2', '$$',
+      '| a | b |', '| - | - |', '| 1 | 2 |',
+      '> [!note] Title',
+      '%%', 'hidden', '%%',
+      '[^1]: Footnote',
+      '***',
+      '',
+    ].join('\n');
+
+    expect(parseMarkdown(note).map(block => block.type)).toEqual([
+      'frontmatter', 'heading', 'line', 'listItem', 'code', 'math', 'table', 'callout', 'comment', 'footnoteDefinition', 'rule', 'blank',
+    ]);
+  });
+
+  it('reads heading levels', () => {
+    const headings = parseMarkdown('### Three\n\n# One').filter(block => block.type === 'heading');
+    expect(headings.map(block => block.type === 'heading' && block.level)).toEqual([3, 1]);
+  });
+
+  it('drops setext underlines so they are not read', () => {
+    expect(parseMarkdown('Title\n===').map(block => block.type)).toEqual(['line', 'rule']);
+  });
+
+  it('does not treat seven hashes as a heading', () => {
+    expect(parseMarkdown('####### Seven')[0].type).toBe('line');
+  });
+
+  it('finds the same blocks without inline content when inline parsing is off', () => {
+    const note = '# A *b*\nSome [[link]] text\n\n| a | b |\n| - | - |\n| 1 | 2 |\n';
+    const full = parseMarkdown(note);
+    const blocksOnly = parseMarkdown(note, { inline: false });
+    const children = (block: BlockNode): InlineNode[] => 'children' in block ? block.children : [];
+
+    expect(blocksOnly.map(block => [block.type, block.span])).toEqual(full.map(block => [block.type, block.span]));
+    expect(full.some(block => children(block).length > 0)).toBe(true);
+    expect(blocksOnly.every(block => children(block).length === 0)).toBe(true);
+  });
+
+  it('keeps a code block open to the end of the note when the fence is not closed', () => {
+    const blocks = parseMarkdown('```\nnever closed\n# not a heading');
+    expect(blocks.map(block => block.type)).toEqual(['code']);
+  });
+});
+
+describe('parseInline', () => {
+  it('leaves snake_case and products of numbers as text', () => {
+    expect(inlineTypes('snake_case_name')).toEqual(['text']);
+    expect(inlineTypes('2*3*4')).toEqual(['text']);
+  });
+
+  it('parses emphasis, strong and nested emphasis', () => {
+    expect(inlineTypes('*a* **b** ***c***')).toEqual(['emphasis', 'text', 'strong', 'text', 'strong']);
+  });
+
+  it('ignores emphasis markers inside code spans', () => {
+    expect(inlineTypes('`*not*` text')).toEqual(['code', 'text']);
+  });
+
+  it('parses links, wiki links, embeds, footnotes, tags, html and urls', () => {
+    expect(inlineTypes('[a](b)')).toEqual(['link']);
+    expect(inlineTypes('[[Note|alias]]')).toEqual(['wikiLink']);
+    expect(inlineTypes('![[image.png]]')).toEqual(['embed']);
+    expect(inlineTypes('[^1]')).toEqual(['footnoteRef']);
+    expect(inlineTypes('^[inline]')).toEqual(['inlineFootnote']);
+    expect(inlineTypes('#tag')).toEqual(['tag']);
+    expect(inlineTypes('<b>')).toEqual(['html']);
+    expect(inlineTypes('https://example.com')).toEqual(['url']);
+  });
+});
+
+describe('findFrontmatterEnd', () => {
+  it('finds the end of the frontmatter block', () => {
+    const note = '---\na: 1\n---\nBody';
+    expect(note.slice(0, findFrontmatterEnd(note))).toBe('---\na: 1\n---');
+  });
+
+  it('returns -1 without frontmatter', () => {
+    expect(findFrontmatterEnd('Body\n---\n')).toBe(-1);
+  });
+});
+
+describe('findEmbeds', () => {
+  it('lists embeds outside code', () => {
+    const embeds = findEmbeds('![[One]]\n```\n![[Two]]\n```\n> ![[Three#Part]]');
+    expect(embeds.map(embed => embed.target)).toEqual(['One', 'Three#Part']);
+  });
+});
+
+describe('findBlockStarts and findSectionEnd', () => {
+  const note = 'Intro\nstill intro\n\n# One\nText\n\n## Two\n- a\n- b\n\n# Three\nEnd';
+  const starts = findBlockStarts(note);
+  const startOf = (line: string) => note.indexOf(line);
+
+  it('starts a block at each paragraph, list and heading', () => {
+    expect(starts.map(start => note.slice(start.from).split('\n')[0])).toEqual(['Intro', '# One', 'Text', '## Two', '- a', '# Three', 'End']);
+  });
+
+  it('ends a section at the next heading of the same or a higher level', () => {
+    expect(findSectionEnd(starts, startOf('# One'), note.length)).toBe(startOf('# Three'));
+    expect(findSectionEnd(starts, startOf('- a'), note.length)).toBe(startOf('# Three'));
+    expect(findSectionEnd(starts, startOf('Intro'), note.length)).toBe(startOf('# One'));
+    expect(findSectionEnd(starts, startOf('End'), note.length)).toBe(note.length);
+  });
+});
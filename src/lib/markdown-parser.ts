@@ -0,0 +1,659 @@
+/**
+ * Small Markdown parser for the syntax that matters when reading notes aloud:
+ * CommonMark blocks and inlines plus Obsidian's extensions (wiki links, embeds,
+ * callouts, highlights, comments, tags and math). Nodes only hold offsets into
+ * the parsed text, so renderers can keep track of where spoken text comes from.
+ */
+
+export interface SourceSpan {
+  from: number;
+  to: number;
+}
+
+export type InlineNode =
+  | { type: 'text', span: SourceSpan }
+  | { type: 'escape', span: SourceSpan, char: SourceSpan }
+  | { type: 'code', span: SourceSpan, content: SourceSpan }
+  | { type: 'math', span: SourceSpan, content: SourceSpan }
+  | { type: 'emphasis' | 'strong' | 'strikethrough' | 'highlight', span: SourceSpan, marker: number, children: InlineNode[] }
+  | { type: 'link', span: SourceSpan, url: string, children: InlineNode[] }
+  | { type: 'image', span: SourceSpan, url: string, alt: SourceSpan }
+  | { type: 'wikiLink' | 'embed', span: SourceSpan, target: SourceSpan, alias?: SourceSpan }
+  | { type: 'footnoteRef', span: SourceSpan, label: string }
+  | { type: 'inlineFootnote', span: SourceSpan, children: InlineNode[] }
+  | { type: 'html', span: SourceSpan }
+  | { type: 'comment', span: SourceSpan }
+  | { type: 'url', span: SourceSpan }
+  | { type: 'tag', span: SourceSpan, name: SourceSpan };
+
+/**
+ * Block nodes. Paragraph text is kept line by line (as 'line' nodes) so line breaks
+ * in the note survive into the spoken text.
+ */
+export type BlockNode =
+  | { type: 'frontmatter', span: SourceSpan }
+  | { type: 'heading', span: SourceSpan, level: number, children: InlineNode[] }
+  | { type: 'line', span: SourceSpan, children: InlineNode[] }
+  | { type: 'listItem', span: SourceSpan, ordered: boolean, indent: number, children: InlineNode[] }
+  | { type: 'code', span: SourceSpan, language: string, lines: SourceSpan[] }
+  | { type: 'math', span: SourceSpan, lines: SourceSpan[] }
+  | { type: 'table', span: SourceSpan, header: InlineNode[][], rows: InlineNode[][][] }
+  | { type: 'callout', span: SourceSpan, calloutType: string, marker: SourceSpan, title: InlineNode[] }
+  | { type: 'comment', span: SourceSpan }
+  | { type: 'footnoteDefinition', span: SourceSpan, label: string, children: InlineNode[] }
+  | { type: 'rule', span: SourceSpan }
+  | { type: 'blank', span: SourceSpan };
+
+/**
+ * A source line with its blockquote markers (">") skipped
+ */
+interface Line {
+  from: number;
+  to: number;           // Excludes the line break
+  contentFrom: number;  // After the blockquote markers
+  quoteDepth: number;
+}
+
+const FENCE_REGEX = /^( {0,3})(`{3,}|~{3,})(.*)$/;
+const HEADING_REGEX = /^ {0,3}(#{1,6})(?:[ \t]+|$)/;
+const RULE_REGEX = /^ {0,3}([-*_])(?:[ \t]*\1){2,}[ \t]*$/;
+const SETEXT_UNDERLINE_REGEX = /^ {0,3}=+[ \t]*$/;
+const LIST_ITEM_REGEX = /^(\s*)([-*+]|\d{1,9}[.)])(?:[ \t]+|$)(\[[ xX/-]\][ \t]+)?/;
+const FOOTNOTE_DEFINITION_REGEX = /^\[\^([^\]]+)\]:[ \t]?/;
+const CALLOUT_REGEX = /^\[!([^\]]+)\][+-]?[ \t]*/;
+const TABLE_DELIMITER_REGEX = /^\s*\|?\s*:?-+:?\s*(\|\s*:?-+:?\s*)*\|?\s*$/;
+// Inline patterns are sticky and matched at the current position with matchAt()
+const HTML_TAG_REGEX = /<\/?[A-Za-z][A-Za-z0-9-]*(?:\s[^<>]*)?\/?>/y;
+const AUTOLINK_REGEX = /<(?:https?:\/\/|mailto:)[^\s<>]*>/iy;
+const URL_REGEX = /https?:\/\/[^\s<>]*[^\s<>.,;:!?'")\]]/y;
+const TAG_REGEX = /#[\p{L}\p{N}_/-]*[\p{L}_/-][\p{L}\p{N}_/-]*/uy;
+const ESCAPABLE = '!"#$%&\'()*+,-./:;<=>?@[\\]^_`{|}~';
+
+/**
+ * Offset just after the closing line of the YAML frontmatter block at the start
+ * of the text, or -1 when the text has no frontmatter
+ */
+export function findFrontmatterEnd(text: string): number {
+  if (!/^---[ \t]*(\r?\n|$)/.test(text)) return -1;
+
+  let lineStart = text.indexOf('\n') + 1;
+  while (lineStart > 0 && lineStart < text.length) {
+    const newline = text.indexOf('\n', lineStart);
+    const lineEnd = newline === -1 ? text.length : newline;
+    if (/^(---|\.\.\.)[ \t]*\r?$/.test(text.slice(lineStart, lineEnd))) {
+      return lineEnd;
+    }
+    lineStart = newline + 1;
+  }
+  return -1;
+}
+
+// Length of the match of a sticky pattern at index, if it ends before `to`
+function matchAt(regex: RegExp, text: string, index: number, to: number): number {
+  regex.lastIndex = index;
+  const match = regex.exec(text);
+  return match && index + match[0].length <= to ? match[0].length : 0;
+}
+
+function isWhitespace(char: string | undefined): boolean {
+  return char === undefined || /\s/.test(char);
+}
+
+function isWordChar(char: string | undefined): boolean {
+  return char !== undefined && /[\p{L}\p{N}]/u.test(char);
+}
+
+// An asterisk between digits (2*3*4) is a multiplication sign, not emphasis
+function isMultiplication(text: string, index: number, run: number): boolean {
+  return text[index] === '*' && /\d/.test(text[index - 1] || '') && /\d/.test(text[index + run] || '');
+}
+
+function splitLines(text: string): Line[] {
+  const lines: Line[] = [];
+  let from = 0;
+
+  while (from <= text.length) {
+    const newline = text.indexOf('\n', from);
+    const to = newline === -1 ? text.length : newline;
+
+    // Skip nested blockquote markers, e.g. "> > text"
+    let contentFrom = from;
+    let quoteDepth = 0;
+    for (;;) {
+      const marker = /^ {0,3}> ?/.exec(text.slice(contentFrom, to));
+      if (!marker) break;
+      contentFrom += marker[0].length;
+      quoteDepth++;
+    }
+
+    lines.push({ from, to, contentFrom, quoteDepth });
+    if (newline === -1) break;
+    from = newline + 1;
+  }
+
+  return lines;
+}
+
+/**
+ * Parse Markdown text into a flat list of blocks covering every line.
+ * With `inline: false` only the blocks are found, which is much faster on long notes:
+ * their inline children and table cells are left empty.
+ */
+export function parseMarkdown(text: string, options: { inline?: boolean } = {}): BlockNode[] {
+  const withInline = options.inline !== false;
+  const inline = (from: number, to: number): InlineNode[] => withInline ? parseInline(text, from, to) : [];
+  const lines = splitLines(text);
+  const blocks: BlockNode[] = [];
+  const content = (line: Line) => text.slice(line.contentFrom, line.to);
+  let index = 0;
+
+  const frontmatterEnd = findFrontmatterEnd(text);
+  if (frontmatterEnd !== -1) {
+    blocks.push({ type: 'frontmatter', span: { from: 0, to: frontmatterEnd } });
+    while (index < lines.length && lines[index].from < frontmatterEnd) index++;
+  }
+
+  while (index < lines.length) {
+    const line = lines[index];
+    const lineText = content(line);
+    const span = { from: line.from, to: line.to };
+
+    if (!lineText.trim()) {
+      blocks.push({ type: 'blank', span });
+      index++;
+      continue;
+    }
+
+    // Fenced code block, running to the closing fence (or the end of the note)
+    const fence = FENCE_REGEX.exec(lineText);
+    if (fence && !(fence[2][0] === '`' && fence[3].includes('`'))) {
+      const closing = new RegExp(`^ {0,3}${fence[2][0] === '`' ? '`' : '~'}{${fence[2].length},}[ \\t]*$`);
+      const codeLines: SourceSpan[] = [];
+      let end = index + 1;
+      while (end < lines.length && !closing.test(content(lines[end]))) {
+        const codeLine = lines[end];
+        // Drop up to the fence's own indentation
+        const indent = /^ */.exec(content(codeLine))![0].length;
+        codeLines.push({ from: codeLine.contentFrom + Math.min(indent, fence[1].length), to: codeLine.to });
+        end++;
+      }
+      const last = lines[Math.min(end, lines.length - 1)];
+      blocks.push({ type: 'code', span: { from: line.from, to: last.to }, language: fence[3].trim().split(/\s+/)[0] || '', lines: codeLines });
+      index = end + 1;
+      continue;
+    }
+
+    // Display math: $$ ... $$ on one line or across several
+    const trimmed = lineText.trim();
+    const closesOnSameLine = trimmed.length >= 4 && trimmed.endsWith('$$');
+    if (trimmed.startsWith('$$') && (closesOnSameLine || !trimmed.slice(2).includes('$$'))) {
+      const opening = line.contentFrom + lineText.indexOf('$$');
+      if (closesOnSameLine) {
+        const closing = line.contentFrom + lineText.lastIndexOf('$$');
+        blocks.push({ type: 'math', span, lines: [{ from: opening + 2, to: closing }] });
+        index++;
+        continue;
+      }
+
+      const mathLines: SourceSpan[] = [{ from: opening + 2, to: line.to }];
+      let end = index + 1;
+      while (end < lines.length && !content(lines[end]).includes('$$')) {
+        mathLines.push({ from: lines[end].contentFrom, to: lines[end].to });
+        end++;
+      }
+      if (end < lines.length) {
+        const closingLine = lines[end];
+        mathLines.push({ from: closingLine.contentFrom, to: closingLine.contentFrom + content(closingLine).indexOf('$$') });
+      }
+      const last = lines[Math.min(end, lines.length - 1)];
+      blocks.push({ type: 'math', span: { from: line.from, to: last.to }, lines: mathLines });
+      index = end + 1;
+      continue;
+    }
+
+    // Comment spanning several lines (comments within a line are inline nodes)
+    const commentMarker = trimmed.startsWith('%%') ? '%%' : trimmed.startsWith('<!--') ? '-->' : null;
+    if (commentMarker) {
+      const openingLength = commentMarker === '%%' ? 2 : 4;
+      const afterOpening = lineText.indexOf(trimmed) + openingLength;
+      if (!lineText.includes(commentMarker, afterOpening)) {
+        let end = index + 1;
+        while (end < lines.length && !content(lines[end]).includes(commentMarker)) end++;
+        const last = lines[Math.min(end, lines.length - 1)];
+        blocks.push({ type: 'comment', span: { from: line.from, to: last.to } });
+        index = end + 1;
+        continue;
+      }
+    }
+
+    // Table: a row of cells followed by a delimiter row such as |---|:---:|
+    const nextLine = lines[index + 1];
+    if (lineText.includes('|') && nextLine && nextLine.quoteDepth === line.quoteDepth &&
+      content(nextLine).includes('-') && TABLE_DELIMITER_REGEX.test(content(nextLine)) &&
+      (content(nextLine).includes('|') || lineText.trim().startsWith('|'))) {
+      const header = withInline ? parseTableRow(text, line.contentFrom, line.to) : [];
+      const rows: InlineNode[][][] = [];
+      let end = index + 2;
+      while (end < lines.length && lines[end].quoteDepth === line.quoteDepth && content(lines[end]).trim() && content(lines[end]).includes('|')) {
+        if (withInline) rows.push(parseTableRow(text, lines[end].contentFrom, lines[end].to));
+        end++;
+      }
+      blocks.push({ type: 'table', span: { from: line.from, to: lines[end - 1].to }, header, rows });
+      index = end;
+      continue;
+    }
+
+    const callout = line.quoteDepth > 0 ? CALLOUT_REGEX.exec(lineText) : null;
+    if (callout) {
+      const titleFrom = line.contentFrom + callout[0].length;
+      blocks.push({
+        type: 'callout',
+        span,
+        calloutType: callout[1].trim().toLowerCase(),
+        marker: { from: line.contentFrom, to: titleFrom },
+        title: inline(titleFrom, line.to),
+      });
+      index++;
+      continue;
+    }
+
+    const heading = HEADING_REGEX.exec(lineText);
+    if (heading) {
+      // Drop an optional closing sequence of #s
+      const headingText = lineText.slice(heading[0].length).replace(/\s+#+\s*$/, '');
+      const from = line.contentFrom + heading[0].length;
+      blocks.push({ type: 'heading', span, level: heading[1].length, children: inline(from, from + headingText.length) });
+      index++;
+      continue;
+    }
+
+    if (RULE_REGEX.test(lineText) || (SETEXT_UNDERLINE_REGEX.test(lineText) && index > 0 && content(lines[index - 1]).trim())) {
+      blocks.push({ type: 'rule', span });
+      index++;
+      continue;
+    }
+
+    const footnote = FOOTNOTE_DEFINITION_REGEX.exec(lineText);
+    if (footnote) {
+      blocks.push({ type: 'footnoteDefinition', span, label: footnote[1], children: inline(line.contentFrom + footnote[0].length, line.to) });
+      index++;
+      continue;
+    }
+
+    const listItem = LIST_ITEM_REGEX.exec(lineText);
+    if (listItem) {
+      blocks.push({
+        type: 'listItem',
+        span,
+        ordered: /\d/.test(listItem[2]),
+        indent: listItem[1].replace(/\t/g, '    ').length,
+        children: inline(line.contentFrom + listItem[0].length, line.to),
+      });
+      index++;
+      continue;
+    }
+
+    blocks.push({ type: 'line', span, children: inline(line.contentFrom, line.to) });
+    index++;
+  }
+
+  return blocks;
+}
+
+// Split a table row into cells on pipes that aren't escaped or inside code
+function parseTableRow(text: string, from: number, to: number): InlineNode[][] {
+  const cells: InlineNode[][] = [];
+  let cellStart = from;
+  let inCode = false;
+
+  // Skip the optional leading and trailing pipes
+  const leading = /^\s*\|?/.exec(text.slice(from, to))![0].length;
+  const trailing = /\|?\s*$/.exec(text.slice(from + leading, to))![0].length;
+  cellStart = from + leading;
+  const end = to - trailing;
+
+  for (let i = cellStart; i <= end; i++) {
+    const char = text[i];
+    if (char === '\\') {
+      i++;
+    } else if (char === '`') {
+      inCode = !inCode;
+    } else if (i === end || (char === '|' && !inCode)) {
+      const cellText = text.slice(cellStart, i);
+      const cellFrom = cellStart + /^\s*/.exec(cellText)![0].length;
+      const cellTo = cellStart + cellText.replace(/\s+$/, '').length;
+      cells.push(parseInline(text, cellFrom, Math.max(cellFrom, cellTo)));
+      cellStart = i + 1;
+    }
+  }
+
+  return cells;
+}
+
+// Index of the bracket closing the one at `open`, on the same line
+function findClosingBracket(text: string, open: number, to: number, openChar: string, closeChar: string): number {
+  let depth = 0;
+  for (let i = open; i < to; i++) {
+    const char = text[i];
+    if (char === '\\') {
+      i++;
+    } else if (char === openChar) {
+      depth++;
+    } else if (char === closeChar) {
+      depth--;
+      if (depth === 0) return i;
+    }
+  }
+  return -1;
+}
+
+// Length of the run of `char` starting at index
+function runLength(text: string, index: number, char: string): number {
+  let length = 0;
+  while (text[index + length] === char) length++;
+  return length;
+}
+
+// Find the closing delimiter of an emphasis run opened at `from`
+function findEmphasisClose(text: string, from: number, to: number, char: string, length: number): number {
+  let i = from;
+  while (i < to) {
+    if (text[i] === '\\') {
+      i += 2;
+      continue;
+    }
+    if (text[i] === '`') {
+      // Emphasis markers inside code spans don't count
+      const ticks = runLength(text, i, '`');
+      const close = text.indexOf('`'.repeat(ticks), i + ticks);
+      i = close === -1 || close >= to ? i + ticks : close + ticks;
+      continue;
+    }
+    if (text[i] !== char) {
+      i++;
+      continue;
+    }
+
+    const run = Math.min(runLength(text, i, char), to - i);
+    // A run of three can close both emphasis and strong emphasis
+    if ((run === length || run === 3) && !isWhitespace(text[i - 1]) && i > from && !isMultiplication(text, i, run)) {
+      const close = i + run - length;
+      if (char !== '_' || !isWordChar(text[close + length])) return close;
+    }
+    i += run;
+  }
+  return -1;
+}
+
+/**
+ * Parse the inline content between from and to
+ */
+export function parseInline(text: string, from: number, to: number): InlineNode[] {
+  const nodes: InlineNode[] = [];
+  let textStart = from;
+  let i = from;
+
+  const push = (node: InlineNode) => {
+    if (node.span.from > textStart) {
+      nodes.push({ type: 'text', span: { from: textStart, to: node.span.from } });
+    }
+    nodes.push(node);
+    textStart = node.span.to;
+    i = node.span.to;
+  };
+
+  while (i < to) {
+    const char = text[i];
+
+    if (char === '\\' && i + 1 < to && ESCAPABLE.includes(text[i + 1])) {
+      push({ type: 'escape', span: { from: i, to: i + 2 }, char: { from: i + 1, to: i + 2 } });
+      continue;
+    }
+
+    if (char === '`') {
+      const ticks = runLength(text, i, '`');
+      const close = text.indexOf('`'.repeat(ticks), i + ticks);
+      if (close !== -1 && close + ticks <= to && runLength(text, close, '`') === ticks) {
+        // A single space padding each side is not part of the code
+        let contentFrom = i + ticks;
+        let contentTo = close;
+        if (contentTo - contentFrom >= 2 && text[contentFrom] === ' ' && text[contentTo - 1] === ' ') {
+          contentFrom++;
+          contentTo--;
+        }
+        push({ type: 'code', span: { from: i, to: close + ticks }, content: { from: contentFrom, to: contentTo } });
+        continue;
+      }
+      i += ticks;
+      continue;
+    }
+
+    if (text.startsWith('%%', i) || text.startsWith('<!--', i)) {
+      const closeMarker = char === '%' ? '%%' : '-->';
+      const close = text.indexOf(closeMarker, i + (char === '%' ? 2 : 4));
+      if (close !== -1 && close + closeMarker.length <= to) {
+        push({ type: 'comment', span: { from: i, to: close + closeMarker.length } });
+        continue;
+      }
+    }
+
+    if (char === '$') {
+      // Obsidian math: no space inside the dollars, and $5 and $10 isn't math
+      const display = text.startsWith('$$', i);
+      const marker = display ? '$$' : '$';
+      const contentFrom = i + marker.length;
+      if (!isWhitespace(text[contentFrom]) && text[contentFrom] !== '$') {
+        let close = text.indexOf(marker, contentFrom);
+        // An inline closing dollar can't be part of $$
+        while (close !== -1 && close < to && (text[close - 1] === '\\' || (!display && text[close + 1] === '$'))) {
+          close = text.indexOf(marker, close + (!display && text[close + 1] === '$' ? 2 : 1));
+        }
+        if (close !== -1 && close + marker.length <= to && !isWhitespace(text[close - 1]) && (display || !/\d/.test(text[close + 1] || ''))) {
+          push({ type: 'math', span: { from: i, to: close + marker.length }, content: { from: contentFrom, to: close } });
+          continue;
+        }
+      }
+    }
+
+    if (text.startsWith('![[', i) || text.startsWith('[[', i)) {
+      const open = char === '!' ? i + 1 : i;
+      const close = text.indexOf(']]', open + 2);
+      if (close !== -1 && close + 2 <= to && !text.slice(open + 2, close).includes('\n')) {
+        const pipe = text.indexOf('|', open + 2);
+        const hasAlias = pipe !== -1 && pipe < close;
+        push({
+          type: char === '!' ? 'embed' : 'wikiLink',
+          span: { from: i, to: close + 2 },
+          target: { from: open + 2, to: hasAlias ? pipe : close },
+          alias: hasAlias ? { from: pipe + 1, to: close } : undefined,
+        });
+        continue;
+      }
+    }
+
+    // Inline footnote: ^[note text]
+    if (text.startsWith('^[', i)) {
+      const close = findClosingBracket(text, i + 1, to, '[', ']');
+      if (close !== -1) {
+        push({ type: 'inlineFootnote', span: { from: i, to: close + 1 }, children: parseInline(text, i + 2, close) });
+        continue;
+      }
+    }
+
+    if (text.startsWith('[^', i)) {
+      const close = text.indexOf(']', i + 2);
+      if (close !== -1 && close < to && close > i + 2 && !/\s/.test(text.slice(i + 2, close))) {
+        push({ type: 'footnoteRef', span: { from: i, to: close + 1 }, label: text.slice(i + 2, close) });
+        continue;
+      }
+    }
+
+    if (text.startsWith('![', i) || char === '[') {
+      const open = char === '!' ? i + 1 : i;
+      const closeBracket = findClosingBracket(text, open, to, '[', ']');
+      if (closeBracket !== -1 && text[closeBracket + 1] === '(') {
+        const closeParen = findClosingBracket(text, closeBracket + 1, to, '(', ')');
+        if (closeParen !== -1) {
+          const url = text.slice(closeBracket + 2, closeParen).trim();
+          const span = { from: i, to: closeParen + 1 };
+          if (char === '!') {
+            push({ type: 'image', span, url, alt: { from: open + 1, to: closeBracket } });
+          } else {
+            push({ type: 'link', span, url, children: parseInline(text, open + 1, closeBracket) });
+          }
+          continue;
+        }
+      }
+    }
+
+    if (char === '<') {
+      const autolinkLength = matchAt(AUTOLINK_REGEX, text, i, to);
+      if (autolinkLength) {
+        push({ type: 'url', span: { from: i, to: i + autolinkLength } });
+        continue;
+      }
+      const tagLength = matchAt(HTML_TAG_REGEX, text, i, to);
+      if (tagLength) {
+        push({ type: 'html', span: { from: i, to: i + tagLength } });
+        continue;
+      }
+    }
+
+    if ((char === 'h' || char === 'H') && !isWordChar(text[i - 1])) {
+      const urlLength = matchAt(URL_REGEX, text, i, to);
+      if (urlLength) {
+        push({ type: 'url', span: { from: i, to: i + urlLength } });
+        continue;
+      }
+    }
+
+    if (char === '#' && isWhitespace(text[i - 1])) {
+      const tagLength = matchAt(TAG_REGEX, text, i, to);
+      if (tagLength) {
+        push({ type: 'tag', span: { from: i, to: i + tagLength }, name: { from: i + 1, to: i + tagLength } });
+        continue;
+      }
+    }
+
+    if ((char === '=' || char === '~') && text[i + 1] === char) {
+      const marker = char + char;
+      const close = text.indexOf(marker, i + 2);
+      if (close !== -1 && close + 2 <= to && close > i + 2 && !isWhitespace(text[i + 2]) && !isWhitespace(text[close - 1])) {
+        push({
+          type: char === '=' ? 'highlight' : 'strikethrough',
+          span: { from: i, to: close + 2 },
+          marker: 2,
+          children: parseInline(text, i + 2, close),
+        });
+        continue;
+      }
+    }
+
+    if (char === '*' || char === '_') {
+      const run = runLength(text, i, char);
+      // Openers must be followed by text, and underscores inside words (snake_case) and
+      // asterisks between digits are not emphasis
+      const canOpen = !isWhitespace(text[i + run]) && (char !== '_' || !isWordChar(text[i - 1])) && !isMultiplication(text, i, run);
+      const lengths = !canOpen ? [] : run >= 2 ? [2, 1] : [1];
+      const length = lengths.find(candidate => findEmphasisClose(text, i + candidate, to, char, candidate) !== -1);
+      if (length !== undefined) {
+        const close = findEmphasisClose(text, i + length, to, char, length);
+        push({
+          type: length === 2 ? 'strong' : 'emphasis',
+          span: { from: i, to: close + length },
+          marker: length,
+          children: parseInline(text, i + length, close),
+        });
+        continue;
+      }
+      i += run;
+      continue;
+    }
+
+    i++;
+  }
+
+  if (textStart < to) {
+    nodes.push({ type: 'text', span: { from: textStart, to } });
+  }
+  return nodes;
+}
+
+/**
+ * Embeds (![[...]]) in the text, with their link target. Embeds in code, math and
+ * frontmatter are not included.
+ */
+export function findEmbeds(text: string): Array<{ span: SourceSpan, target: string }> {
+  const embeds: Array<{ span: SourceSpan, target: string }> = [];
+
+  const visit = (nodes: InlineNode[]) => {
+    for (const node of nodes) {
+      if (node.type === 'embed') {
+        embeds.push({ span: node.span, target: text.slice(node.target.from, node.target.to) });
+      } else if ('children' in node) {
+        visit(node.children);
+      }
+    }
+  };
+
+  for (const block of parseMarkdown(text)) {
+    if (block.type === 'callout') {
+      visit(block.title);
+    } else if (block.type === 'table') {
+      block.header.forEach(visit);
+      block.rows.forEach(row => row.forEach(visit));
+    } else if ('children' in block) {
+      visit(block.children);
+    }
+  }
+
+  return embeds;
+}
+
+/**
+ * Where a paragraph, heading or other block of the note begins, for starting reading there
+ */
+export interface BlockStart {
+  from: number;
+  headingLevel: number; // 0 when the block is not a heading
+}
+
+// Blocks with nothing to start reading from
+const UNREADABLE_BLOCKS = new Set<BlockNode['type']>(['blank', 'frontmatter', 'comment', 'rule']);
+
+/**
+ * Starts of the blocks a reader can start reading from, in order. Consecutive lines of a
+ * paragraph, list or blockquote belong to one block; a callout's lines continue its title.
+ */
+export function findBlockStarts(text: string): BlockStart[] {
+  const starts: BlockStart[] = [];
+  let previousType: BlockNode['type'] | null = null;
+
+  for (const block of parseMarkdown(text, { inline: false })) {
+    const type = block.type === 'callout' ? 'line' : block.type;
+    const startsBlock = block.type === 'heading' || block.type === 'callout' || type !== previousType;
+    if (startsBlock && !UNREADABLE_BLOCKS.has(block.type)) {
+      starts.push({ from: block.span.from, headingLevel: block.type === 'heading' ? block.level : 0 });
+    }
+    previousType = type;
+  }
+
+  return starts;
+}
+
+/**
+ * End of the section that the block starting at `from` belongs to: the next heading of the
+ * same or a higher level than the block's own heading (or the heading above it), or the end
+ * of the text. Text before the first heading ends at any heading.
+ */
+export function findSectionEnd(starts: BlockStart[], from: number, textLength: number): number {
+  let level = 6;
+  for (const start of starts) {
+    if (start.from > from) {
+      if (start.headingLevel > 0 && start.headingLevel <= level) return start.from;
+    } else if (start.headingLevel > 0) {
+      level = start.headingLevel;
+    }
+  }
+  return textLength;
+}
@@ -0,0 +1,54 @@
+import { readdirSync, readFileSync } from 'fs';
+import { join } from 'path';
+import { describe, expect, it } from 'vitest';
+import { DEFAULT_FILTERING, renderSpeakableText } from './markdown-speech';
+import { TrackedText } from './source-map';
+import type { EdgeTTSPluginSettings } from '../modules/settings';
+
+// Golden files: each <name>.md note is rendered and compared with <name>.txt.
+// Run `npx vitest run -u` to rewrite the expected output after an intended change.
+const FIXTURES_DIR = join(__dirname, '__fixtures__', 'speech');
+
+// Filtering options that differ from the defaults, per fixture
+const FIXTURE_OPTIONS: Record<string, Partial<EdgeTTSPluginSettings['textFiltering']>> = {
+  'comments': { filterComments: true },
+  'footnotes': { filterFootnotes: true },
+  'tables-rows': { tableNarration: 'rows' },
+};
+
+function render(markdown: string, options: Partial<EdgeTTSPluginSettings['textFiltering']> = {}): TrackedText {
+  return renderSpeakableText(TrackedText.fromSource(markdown), { ...DEFAULT_FILTERING, ...options });
+}
+
+describe('renderSpeakableText golden files', () => {
+  const fixtures = readdirSync(FIXTURES_DIR).filter(file => file.endsWith('.md')).map(file => file.slice(0, -3));
+
+  for (const name of fixtures) {
+    it(`renders ${name}.md`, async () => {
+      const markdown = readFileSync(join(FIXTURES_DIR, `${name}.md`), 'utf8');
+      await expect(render(markdown, FIXTURE_OPTIONS[name]).text).toMatchFileSnapshot(join(FIXTURES_DIR, `${name}.txt`));
+    });
+  }
+});
+
+describe('renderSpeakableText', () => {
+  it('keeps underscores inside words and asterisks between digits', () => {
+    expect(render('my_snake_case var and 2*3*4').text).toBe('my_snake_case var and 2*3*4');
+  });
+
+  it('still removes emphasis around words', () => {
+    expect(render('*one* _two_ **three** __four__').text).toBe('one two three four');
+  });
+
+  it('maps spoken words back to the note', () => {
+    const markdown = '# Heading\n\nSome **bold** text';
+    const rendered = render(markdown);
+    const index = rendered.text.indexOf('bold');
+    const range = rendered.toSourceRange(index, index + 'bold'.length);
+    expect(markdown.slice(range.from, range.to)).toBe('bold');
+  });
+
+  it('adds heading cues in the requested language', () => {
+    expect(renderSpeakableText(TrackedText.fromSource('# Intro'), { ...DEFAULT_FILTERING, announceHeadings: true }, 'en').text).toContain('Section');
+  });
+});
@@ -0,0 +1,418 @@
+import type { EdgeTTSPluginSettings } from '../modules/settings';
+import { parseMarkdown } from './markdown-parser';
+import type { BlockNode, InlineNode, SourceSpan } from './markdown-parser';
+import { TrackedText } from './source-map';
+import { pauseMarkers } from './pauses';
+import { speakerMarker } from './speakers';
+import { describeCodeLanguage, verbalizeCodeSymbols } from './code-speech';
+import { latexToSpeech } from './latex-speech';
+import { NARRATION_CUE_TRANSLATIONS } from './translations';
+import type { NarrationCues } from './translations';
+
+type TextFiltering = EdgeTTSPluginSettings['textFiltering'];
+
+// Options that apply when no text filtering settings are passed
+export const DEFAULT_FILTERING: TextFiltering = {
+  filterFrontmatter: true,
+  filterMarkdownLinks: false,
+  filterCodeBlocks: true,
+  announceCodeBlocks: false,
+  readShortCodeBlocks: 0,
+  filterInlineCode: true,
+  filterHtmlTags: true,
+  filterTables: false,
+  tableNarration: 'cells',
+  tableRowLimit: 0,
+  filterImages: false,
+  filterFootnotes: false,
+  filterComments: false,
+  filterMathExpressions: false,
+  speakMath: false,
+  filterWikiLinks: false,
+  filterHighlights: false,
+  filterCallouts: false,
+  replaceComparisonSymbols: false,
+  verbalizeNumbers: false,
+  announceHeadings: false,
+  announceListItems: false,
+  announceCallouts: false,
+  pauseAfterHeadings: 0,
+  pauseBetweenParagraphs: 0,
+  readEmbeddedNotes: false,
+  embedDepth: 0,
+  dialogueMode: false,
+};
+
+// Where a list item sits in its list
+interface ListPosition {
+  index: number;
+  list: { count: number };
+}
+
+// A "**Name:**" label at the start of a line in dialogue mode
+interface SpeakerLabel {
+  name: string;
+  span: SourceSpan;       // The label, including the colon
+  rest: InlineNode[];     // What is said after it
+}
+
+// Speaker labels are short names, not bold sentences ending in a colon
+function isSpeakerName(name: string): boolean {
+  return name.length > 0 && name.length <= 40 && name.split(/\s+/).length <= 4;
+}
+
+/**
+ * Turns parsed Markdown into the text that is read aloud, one node type at a time
+ */
+class SpeechRenderer {
+  private pieces: TrackedText[] = [];
+  private listPositions = new Map<BlockNode, ListPosition>();
+  private speaker = ''; // Speaker of the current paragraph in dialogue mode ('' = narrator)
+
+  constructor(private text: TrackedText, private filtering: TextFiltering, private cues: NarrationCues) {}
+
+  render(blocks: BlockNode[]): TrackedText {
+    if (this.filtering.announceListItems) this.numberListItems(blocks);
+
+    blocks.forEach((block, index) => {
+      const previous = blocks[index - 1];
+      // Keep the line break between blocks, even when a block isn't spoken
+      if (previous) this.copy(previous.span.to, block.span.from);
+      // Pause once at the blank line ending a paragraph (headings have their own pause)
+      if (block.type === 'blank' && previous && !/^(blank|heading|frontmatter)$/.test(previous.type)) {
+        this.pause(this.filtering.pauseBetweenParagraphs, block.span);
+      }
+      // A speaker's lines end with their paragraph
+      if (block.type === 'blank' && this.speaker) {
+        this.setSpeaker('', { from: block.span.from, to: block.span.from });
+      }
+      this.renderBlock(block);
+    });
+    return TrackedText.concat(this.text.source, this.pieces, this.text.toSourceOffset(this.text.length));
+  }
+
+  private copy(from: number, to: number): void {
+    if (to > from) this.pieces.push(this.text.slice(from, to));
+  }
+
+  private insert(spoken: string, span: SourceSpan): void {
+    if (spoken) this.pieces.push(this.text.substitute(spoken, span.from, span.to));
+  }
+
+  private pause(ms: number | undefined, span: SourceSpan): void {
+    if (ms && ms > 0) this.insert(pauseMarkers(ms), { from: span.to, to: span.to });
+  }
+
+  private renderBlock(block: BlockNode): void {
+    const filtering = this.filtering;
+
+    switch (block.type) {
+      case 'frontmatter':
+        if (!filtering.filterFrontmatter) this.copy(block.span.from, block.span.to);
+        break;
+      case 'heading':
+        if (filtering.announceHeadings) this.insert(this.cues.section, block.span);
+        this.renderInline(block.children);
+        this.pause(filtering.pauseAfterHeadings, block.span);
+        break;
+      case 'listItem': {
+        const label = this.findSpeakerLabel(block.children);
+        if (label) this.setSpeaker(label.name, label.span);
+        const position = this.listPositions.get(block);
+        if (position) {
+          const cue = this.cues.listItem.replace('{index}', String(position.index)).replace('{count}', String(position.list.count));
+          this.insert(cue, block.span);
+        }
+        this.renderInline(label ? label.rest : block.children);
+        break;
+      }
+      case 'line': {
+        const label = this.findSpeakerLabel(block.children);
+        if (label) this.setSpeaker(label.name, label.span);
+        this.renderInline(label ? label.rest : block.children);
+        break;
+      }
+      case 'code':
+        if (!filtering.filterCodeBlocks) {
+          this.renderLines(block.lines);
+        } else if (block.lines.length > 0 && block.lines.length <= filtering.readShortCodeBlocks) {
+          this.renderCodeLines(block.lines);
+        } else if (filtering.announceCodeBlocks) {
+          this.insert(this.describeCodeBlock(block), block.span);
+        }
+        break;
+      case 'math':
+        if (filtering.speakMath) {
+          this.renderMath(block.lines.map(line => this.text.text.slice(line.from, line.to)).join(' '), block.span);
+        } else if (!filtering.filterMathExpressions) {
+          this.copy(block.span.from, block.span.to);
+        }
+        break;
+      case 'table':
+        if (filtering.filterTables) break;
+        if (filtering.tableNarration === 'rows') {
+          this.renderTableRows(block);
+        } else {
+          this.renderTable(block);
+        }
+        break;
+      case 'callout':
+        // "> [!quote] Bob" starts Bob's lines in dialogue mode
+        if (filtering.dialogueMode && block.calloutType === 'quote' && block.title.length > 0) {
+          const titleSpan = { from: block.title[0].span.from, to: block.title[block.title.length - 1].span.to };
+          const name = this.text.text.slice(titleSpan.from, titleSpan.to).replace(/[*_=~]/g, '').trim();
+          this.setSpeaker(name, { from: block.marker.from, to: titleSpan.to });
+          break;
+        }
+        if (filtering.announceCallouts) {
+          const calloutType = block.calloutType.charAt(0).toUpperCase() + block.calloutType.slice(1);
+          this.insert(this.cues.callout.replace('{type}', calloutType), block.marker);
+        } else if (!filtering.filterCallouts) {
+          this.copy(block.marker.from, block.marker.to);
+        }
+        this.renderInline(block.title);
+        break;
+      case 'comment':
+        if (!filtering.filterComments) this.copy(block.span.from, block.span.to);
+        break;
+      case 'footnoteDefinition':
+        if (!filtering.filterFootnotes) this.renderInline(block.children);
+        break;
+      case 'rule':
+      case 'blank':
+        break;
+    }
+  }
+
+  // Number the items of each list, counting nested lists separately. Blank lines don't
+  // end a list, any other block does.
+  private numberListItems(blocks: BlockNode[]): void {
+    let openLists: Array<{ indent: number, ordered: boolean, count: number }> = [];
+
+    for (const block of blocks) {
+      if (block.type === 'blank') continue;
+      if (block.type !== 'listItem') {
+        openLists = [];
+        continue;
+      }
+
+      while (openLists.length > 0 && openLists[openLists.length - 1].indent > block.indent) openLists.pop();
+      let list = openLists[openLists.length - 1];
+      if (!list || list.indent !== block.indent || list.ordered !== block.ordered) {
+        if (list && list.indent === block.indent) openLists.pop();
+        list = { indent: block.indent, ordered: block.ordered, count: 0 };
+        openLists.push(list);
+      }
+      list.count++;
+      this.listPositions.set(block, { index: list.count, list });
+    }
+  }
+
+  // Lines of a block, separated by line breaks (blockquote markers between them are left out)
+  private renderLines(lines: SourceSpan[]): void {
+    lines.forEach((line, index) => {
+      if (index > 0) this.insert('\n', { from: lines[index - 1].to, to: line.from });
+      this.copy(line.from, line.to);
+    });
+  }
+
+  // Lines of a short code block, with symbols read as words
+  private renderCodeLines(lines: SourceSpan[]): void {
+    lines.forEach((line, index) => {
+      if (index > 0) this.insert('\n', { from: lines[index - 1].to, to: line.from });
+      this.pieces.push(verbalizeCodeSymbols(this.text.slice(line.from, line.to)));
+    });
+  }
+
+  // "Code block in TypeScript, 24 lines, skipped"
+  private describeCodeBlock(block: Extract<BlockNode, { type: 'code' }>): string {
+    const count = block.lines.length;
+    const lines = count === 1 ? this.cues.line : this.cues.lines.replace('{count}', String(count));
+    return block.language
+      ? this.cues.codeBlock.replace('{language}', describeCodeLanguage(block.language)).replace('{lines}', lines)
+      : this.cues.codeBlockPlain.replace('{lines}', lines);
+  }
+
+  // Cells are read separated by commas, one row per line; the delimiter row is skipped
+  private renderTable(table: Extract<BlockNode, { type: 'table' }>): void {
+    [table.header, ...table.rows].forEach((row, rowIndex) => {
+      if (rowIndex > 0) this.insert('\n', table.span);
+      let first = true;
+      for (const cell of row) {
+        if (cell.length === 0) continue;
+        if (!first) this.insert(', ', cell[0].span);
+        this.renderInline(cell);
+        first = false;
+      }
+    });
+  }
+
+  // One line per body row, pairing each value with its column: "Name: Ada, Born: 1815".
+  // Rows past the row limit are summarized.
+  private renderTableRows(table: Extract<BlockNode, { type: 'table' }>): void {
+    const limit = this.filtering.tableRowLimit > 0 ? this.filtering.tableRowLimit : table.rows.length;
+
+    table.rows.slice(0, limit).forEach((row, rowIndex) => {
+      if (rowIndex > 0) this.insert('\n', table.span);
+      let first = true;
+      row.forEach((cell, column) => {
+        if (cell.length === 0) return;
+        if (!first) this.insert(', ', cell[0].span);
+        const header = table.header[column];
+        if (header && header.length > 0) {
+          this.renderInline(header);
+          this.insert(': ', cell[0].span);
+        }
+        this.renderInline(cell);
+        first = false;
+      });
+    });
+
+    const remaining = table.rows.length - limit;
+    if (remaining > 0) {
+      const firstSkipped = table.rows[limit].find(cell => cell.length > 0);
+      const span = firstSkipped ? { from: firstSkipped[0].span.from, to: table.span.to } : table.span;
+      const summary = remaining === 1 ? this.cues.moreRow : this.cues.moreRows.replace('{count}', String(remaining));
+      this.insert(limit > 0 ? '\n' + summary : summary, span);
+    }
+  }
+
+  private renderInline(nodes: InlineNode[]): void {
+    for (const node of nodes) {
+      this.renderInlineNode(node);
+    }
+  }
+
+  private renderInlineNode(node: InlineNode): void {
+    const filtering = this.filtering;
+
+    switch (node.type) {
+      case 'text':
+        this.copy(node.span.from, node.span.to);
+        break;
+      case 'escape':
+        this.copy(node.char.from, node.char.to);
+        break;
+      case 'code':
+        if (filtering.filterInlineCode) {
+          this.copy(node.content.from, node.content.to);
+        } else {
+          this.copy(node.span.from, node.span.to);
+        }
+        break;
+      case 'math':
+        if (filtering.speakMath) {
+          this.renderMath(this.text.text.slice(node.content.from, node.content.to), node.span);
+        } else if (!filtering.filterMathExpressions) {
+          this.copy(node.span.from, node.span.to);
+        }
+        break;
+      case 'emphasis':
+      case 'strong':
+      case 'strikethrough':
+        this.renderInline(node.children);
+        break;
+      case 'highlight':
+        if (filtering.filterHighlights) {
+          this.renderInline(node.children);
+        } else {
+          this.copy(node.span.from, node.span.from + node.marker);
+          this.renderInline(node.children);
+          this.copy(node.span.to - node.marker, node.span.to);
+        }
+        break;
+      case 'link':
+        if (!filtering.filterMarkdownLinks) this.renderInline(node.children);
+        break;
+      case 'image':
+        if (!filtering.filterImages) this.copy(node.alt.from, node.alt.to);
+        break;
+      case 'wikiLink':
+        this.renderWikiLink(node.target, node.alias);
+        break;
+      case 'embed':
+        if (!filtering.filterImages) this.renderWikiLink(node.target, node.alias);
+        break;
+      case 'footnoteRef':
+      case 'inlineFootnote':
+        if (!filtering.filterFootnotes) this.copy(node.span.from, node.span.to);
+        break;
+      case 'html':
+        if (!filtering.filterHtmlTags) this.copy(node.span.from, node.span.to);
+        break;
+      case 'comment':
+        if (!filtering.filterComments) this.copy(node.span.from, node.span.to);
+        break;
+      case 'url':
+        // Addresses are never read out
+        break;
+      case 'tag':
+        this.copy(node.name.from, node.name.to);
+        break;
+    }
+  }
+
+  // Switch to another speaker, in place of their label
+  private setSpeaker(name: string, span: SourceSpan): void {
+    this.speaker = name;
+    this.pieces.push(this.text.substitute(speakerMarker(name), span.from, span.to));
+  }
+
+  // "**Alice:** Hello" or "**Alice**: Hello" at the start of a line, in dialogue mode
+  private findSpeakerLabel(children: InlineNode[]): SpeakerLabel | null {
+    const [first, second] = children;
+    if (!this.filtering.dialogueMode || !first || first.type !== 'strong') return null;
+
+    const label = this.text.text.slice(first.span.from + first.marker, first.span.to - first.marker).trim();
+    if (label.endsWith(':')) {
+      const name = label.slice(0, -1).trim();
+      return isSpeakerName(name) ? { name, span: first.span, rest: children.slice(1) } : null;
+    }
+
+    const colon = second && second.type === 'text' ? /^\s*:/.exec(this.text.text.slice(second.span.from, second.span.to)) : null;
+    if (!second || !colon || !isSpeakerName(label)) return null;
+
+    const labelTo = second.span.from + colon[0].length;
+    const rest: InlineNode[] = labelTo < second.span.to ? [{ type: 'text', span: { from: labelTo, to: second.span.to } }] : [];
+    return { name: label, span: { from: first.span.from, to: labelTo }, rest: [...rest, ...children.slice(2)] };
+  }
+
+  // Math read as words, or a short note when the LaTeX isn't supported
+  private renderMath(latex: string, span: SourceSpan): void {
+    this.insert(latexToSpeech(latex) || this.cues.mathOmitted, span);
+  }
+
+  // Read the alias, or the link target. With wiki link filtering on, only the note name
+  // is read: "Folder/Note#Heading" becomes "Note Heading".
+  private renderWikiLink(target: SourceSpan, alias?: SourceSpan): void {
+    if (alias && alias.to > alias.from) {
+      this.copy(alias.from, alias.to);
+      return;
+    }
+    if (!this.filtering.filterWikiLinks) {
+      this.copy(target.from, target.to);
+      return;
+    }
+
+    const targetText = this.text.text.slice(target.from, target.to);
+    const nameFrom = target.from + targetText.lastIndexOf('/', targetText.search(/[#^]|$/)) + 1;
+    const name = this.text.text.slice(nameFrom, target.to).replace(/\.md(?=[#^]|$)/, '');
+    const spoken = name.split(/[#^]+/).map(part => part.trim()).filter(Boolean).join(' ');
+    if (spoken === this.text.text.slice(nameFrom, target.to)) {
+      this.copy(nameFrom, target.to);
+    } else {
+      this.insert(spoken, target);
+    }
+  }
+}
+
+/**
+ * Parse Markdown and produce the text to read aloud, tracked back to the original note.
+ * Markup is removed or replaced depending on the text filtering settings, which can also
+ * add spoken cues (in the given language) and pauses for headings, lists and callouts.
+ */
+export function renderSpeakableText(text: TrackedText, textFiltering?: TextFiltering, language = 'en'): TrackedText {
+  const blocks = parseMarkdown(text.text);
+  const cues = NARRATION_CUE_TRANSLATIONS[language as keyof typeof NARRATION_CUE_TRANSLATIONS] || NARRATION_CUE_TRANSLATIONS.en;
+  return new SpeechRenderer(text, textFiltering || DEFAULT_FILTERING, cues).render(blocks);
+}
@@ -0,0 +1,53 @@
+import { describe, expect, it } from 'vitest';
+import { verbalizeNumbers } from './number-speech';
+import { TrackedText } from './source-map';
+
+function speak(text: string, language = 'en'): string {
+  return verbalizeNumbers(TrackedText.fromSource(text), language).text;
+}
+
+describe('verbalizeNumbers', () => {
+  it('reads ISO dates, but not the date of an ISO datetime', () => {
+    expect(speak('Due 2024-05-01.')).toBe('Due May 1, 2024.');
+    expect(speak('At 2024-05-01T10:00 sharp')).toBe('At 2024-05-01T10:00 sharp');
+    expect(speak('Not 2024-02-30')).toBe('Not 2024-02-30');
+  });
+
+  it('reads versions marked with v or version, and leaves other dotted numbers alone', () => {
+    expect(speak('Update to v2.3.1 or version 1.4')).toBe('Update to version 2 point 3 point 1 or version 1 point 4');
+    expect(speak('Ping 192.168.1.1 and see section 1.2.3')).toBe('Ping 192.168.1.1 and see section 1.2.3');
+    expect(speak('Installiere v2.3', 'de')).toBe('Installiere Version 2 Punkt 3');
+  });
+
+  it('reads amounts of money with a symbol, a multiplier or a country prefix', () => {
+    expect(speak('$5, $1.2M, €5bn and 10€')).toBe('5 US dollars, 1.2 million US dollars, 5 billion euros and 10 euros');
+    expect(speak('US$5 or A$20.50')).toBe('5 US dollars or 20.50 Australian dollars');
+    expect(speak('Token XY$3')).toBe('Token XY$3');
+  });
+
+  it('connects millions to the currency in languages that need it', () => {
+    expect(speak('$1.2M', 'es')).toBe('1,2 millones de dólares estadounidenses');
+    expect(speak('$3k', 'es')).toBe('3 mil dólares estadounidenses');
+    expect(speak('€1.5M et $2bn', 'fr')).toBe("1,5 million d'euros et 2 milliards de dollars des États-Unis");
+    expect(speak('$1.2M', 'pt')).toMatch(/^1,2 milhão de /);
+    expect(speak('$1.2M', 'de')).toBe('1,2 Millionen US-Dollar');
+  });
+
+  it('reads units attached or spaced, but single-letter units only after a space', () => {
+    expect(speak('5km, 10 kg, 6ft and 30°C')).toBe('5 kilometers, 10 kilograms, 6 feet and 30 degrees Celsius');
+    expect(speak('5 m and 2 h')).toBe('5 meters and 2 hours');
+    expect(speak('Ran 3m then 2h')).toBe('Ran 3m then 2h');
+  });
+
+  it('reads common fractions, but not dates', () => {
+    expect(speak('Add 3/4 cup')).toBe('Add three quarters cup');
+    expect(speak('On 3/4/2024')).toBe('On 3/4/2024');
+  });
+
+  it('keeps the source mapping of text after a replacement', () => {
+    const source = 'Due 2024-05-01 ok';
+    const result = verbalizeNumbers(TrackedText.fromSource(source), 'en');
+    const offset = result.text.indexOf('ok');
+    expect(result.toSourceRange(offset, offset + 2)).toEqual({ from: source.indexOf('ok'), to: source.indexOf('ok') + 2 });
+  });
+});
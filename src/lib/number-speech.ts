@@ -0,0 +1,243 @@
+import { TrackedText } from './source-map';
+import { NUMBER_WORD_TRANSLATIONS } from './translations';
+import type { NumberWords } from './translations';
+
+// Currency symbols and the currency they usually stand for
+const CURRENCY_CODES: Record<string, string> = {
+  '$': 'USD',
+  '€': 'EUR',
+  '£': 'GBP',
+  '¥': 'JPY',
+  '₹': 'INR',
+};
+
+// Dollars written with a country prefix, e.g. "US$5" or "A$20"
+const DOLLAR_PREFIX_CODES: Record<string, string> = {
+  US: 'USD',
+  A: 'AUD',
+  AU: 'AUD',
+  C: 'CAD',
+  CA: 'CAD',
+  NZ: 'NZD',
+  HK: 'HKD',
+  S: 'SGD',
+  R: 'BRL',
+  MX: 'MXN',
+};
+
+// Suffixes like "$1.2M" or "€5bn"
+const MULTIPLIERS: Record<string, number> = {
+  k: 1e3,
+  K: 1e3,
+  m: 1e6,
+  M: 1e6,
+  b: 1e9,
+  B: 1e9,
+  bn: 1e9,
+};
+
+// Unit abbreviations and the Intl unit they are read as
+const UNITS: Record<string, string> = {
+  'km/h': 'kilometer-per-hour',
+  'mph': 'mile-per-hour',
+  'km': 'kilometer',
+  'cm': 'centimeter',
+  'mm': 'millimeter',
+  'm': 'meter',
+  'mi': 'mile',
+  'ft': 'foot',
+  'kg': 'kilogram',
+  'g': 'gram',
+  'lbs': 'pound',
+  'lb': 'pound',
+  'oz': 'ounce',
+  'ml': 'milliliter',
+  'mL': 'milliliter',
+  'l': 'liter',
+  'L': 'liter',
+  'ms': 'millisecond',
+  'sec': 'second',
+  'min': 'minute',
+  'h': 'hour',
+  'KB': 'kilobyte',
+  'kB': 'kilobyte',
+  'MB': 'megabyte',
+  'GB': 'gigabyte',
+  'TB': 'terabyte',
+  '°C': 'celsius',
+  '°F': 'fahrenheit',
+};
+
+// Units that may be attached to the number ("5km") or separated by a space. Single letters
+// must be separated ("5 m", "2 h"), so text like "3m" or "2h" isn't taken for a measurement.
+const UNITS_ATTACHED_OR_SPACED = ['km/h', 'mph', 'km', 'cm', 'mm', 'mi', 'ft', 'kg', 'lbs', 'lb', 'oz', 'ml', 'mL', 'ms', 'sec', 'min', 'KB', 'kB', 'MB', 'GB', 'TB', '°C', '°F'];
+const UNITS_SPACED = ['m', 'g', 'l', 'L', 'h'];
+
+// A number as written in notes: 1234, 1,234.5, 1.234,5 or 2.5
+const NUMBER = '\\d{1,3}(?:[,.]\\d{3})+(?:[.,]\\d+)?|\\d+(?:[.,]\\d+)?';
+
+// Not followed by the time of an ISO datetime ("2024-05-01T10:00")
+const ISO_DATE_REGEX = /\b(\d{4})-(\d{2})-(\d{2})(?![\d-]|T\d)/g;
+// Only numbers marked as versions ("v2.3.1", "version 2.3"); bare dotted numbers may be IP addresses
+const VERSION_REGEX = /\b(?:[vV]|[vV]ersion\s+)(\d+(?:\.\d+)+)\b(?!\.\d)/g;
+const CURRENCY_PREFIX_REGEX = new RegExp(`(?:\\b([A-Z]{1,3}))?([$€£¥₹])\\s?(${NUMBER})(?:(bn|[kKmMbB])(?!\\w))?`, 'g');
+const CURRENCY_SUFFIX_REGEX = new RegExp(`\\b(${NUMBER})\\s?([€£])`, 'g');
+const UNIT_REGEX = new RegExp(
+  `\\b(${NUMBER})(?:\\s?(${UNITS_ATTACHED_OR_SPACED.map(escapeRegExp).join('|')})|\\s(${UNITS_SPACED.join('|')}))(?![\\w/])`,
+  'g'
+);
+
+function escapeRegExp(text: string): string {
+  return text.replace(/[.*+?^${}()|[\]\\/]/g, '\\$&');
+}
+
+/**
+ * Rewrite numbers that TTS voices tend to misread (dates, versions, amounts of money,
+ * measurements and common fractions) into words for the given language, e.g.
+ * "2024-05-01" becomes "May 1, 2024" and "$1.2M" becomes "1.2 million US dollars".
+ * Numbers themselves are left as digits, which voices read well.
+ */
+export function verbalizeNumbers(text: TrackedText, language: string): TrackedText {
+  const words: NumberWords = NUMBER_WORD_TRANSLATIONS[language as keyof typeof NUMBER_WORD_TRANSLATIONS] || NUMBER_WORD_TRANSLATIONS.en;
+
+  text = text.replace(ISO_DATE_REGEX, (match, year, month, day) => formatDate(language, match, +year, +month, +day));
+
+  text = text.replace(VERSION_REGEX, (_match, version) => `${words.version} ${version.split('.').join(` ${words.point} `)}`);
+
+  text = text.replace(CURRENCY_PREFIX_REGEX, (match, prefix, symbol, amount, multiplier) => {
+    // Unknown prefixes are left alone rather than read as part of the word before the amount
+    const currency = prefix
+      ? (symbol === '$' ? DOLLAR_PREFIX_CODES[prefix] : undefined)
+      : (symbol === '¥' && language === 'zh' ? 'CNY' : CURRENCY_CODES[symbol]);
+    if (!currency) return match;
+    return formatCurrency(language, words, match, amount, currency, multiplier);
+  });
+  text = text.replace(CURRENCY_SUFFIX_REGEX, (match, amount, symbol) => formatCurrency(language, words, match, amount, CURRENCY_CODES[symbol]));
+
+  text = text.replace(UNIT_REGEX, (match, amount, unit, spacedUnit) => {
+    return formatNumber(language, match, parseAmount(amount, language), {
+      style: 'unit',
+      unit: UNITS[unit || spacedUnit],
+      unitDisplay: 'long',
+      maximumFractionDigits: 3,
+    });
+  });
+
+  // Fractions on their own, not part of a date ("3/4/2024") or a path
+  for (const fraction of Object.keys(words.fractions)) {
+    const regex = new RegExp(`(^|[^\\w/.,])${escapeRegExp(fraction)}(?![\\w/]|[.,]\\d)`, 'g');
+    text = text.replace(regex, '$1' + words.fractions[fraction]);
+  }
+
+  return text;
+}
+
+// "2024-05-01" as a long date, or unchanged when it isn't a valid date
+function formatDate(language: string, original: string, year: number, month: number, day: number): string {
+  const date = new Date(Date.UTC(year, month - 1, day));
+  if (date.getUTCMonth() !== month - 1 || date.getUTCDate() !== day) return original;
+
+  try {
+    return new Intl.DateTimeFormat(language, { year: 'numeric', month: 'long', day: 'numeric', timeZone: 'UTC' }).format(date);
+  } catch (error) {
+    return original;
+  }
+}
+
+function formatCurrency(language: string, words: NumberWords, original: string, amount: string, currency: string, multiplier?: string): string {
+  const value = parseAmount(amount, language);
+  const decimals = Math.min(3, (/[.,](\d+)$/.exec(amount) || ['', ''])[1].length);
+
+  if (multiplier) {
+    const total = value * MULTIPLIERS[multiplier];
+    const options: Intl.NumberFormatOptions = {
+      style: 'currency',
+      currency,
+      currencyDisplay: 'name',
+      notation: 'compact',
+      compactDisplay: 'long',
+      minimumFractionDigits: 0,
+      maximumFractionDigits: 3,
+    };
+    return total >= 1e6 && words.millionsOf
+      ? formatMillionsOfCurrency(language, original, total, options, words.millionsOf)
+      : formatNumber(language, original, total, options);
+  }
+
+  // Keep the cents only when they were written
+  const isWholeAmount = value === Math.floor(value);
+  return formatNumber(language, original, value, {
+    style: 'currency',
+    currency,
+    currencyDisplay: 'name',
+    minimumFractionDigits: isWholeAmount ? 0 : decimals,
+    maximumFractionDigits: isWholeAmount ? 0 : Math.max(decimals, 2),
+  });
+}
+
+// "1,2 millones de dólares": the connector goes after the compact word ("millones"),
+// which Intl leaves directly before the currency name
+function formatMillionsOfCurrency(language: string, original: string, value: number, options: Intl.NumberFormatOptions, millionsOf: string): string {
+  if (!isFinite(value)) return original;
+  try {
+    const formatter = new Intl.NumberFormat(language, options) as Intl.NumberFormat & {
+      formatToParts?: (value: number) => Array<{ type: string, value: string }>
+    };
+    if (!formatter.formatToParts) return formatter.format(value);
+
+    const parts = formatter.formatToParts(value);
+    let spoken = '';
+    for (let i = 0; i < parts.length; i++) {
+      spoken += parts[i].value;
+      const currencyPart = parts[i + 2];
+      if (parts[i].type === 'compact' && currencyPart && currencyPart.type === 'currency') {
+        // French elides "de" before a vowel ("1 million d'euros")
+        const elided = millionsOf === 'de' && language === 'fr' && /^[aeiouyé]/i.test(currencyPart.value);
+        spoken += elided ? ` d'${currencyPart.value}` : `${parts[i + 1].value}${millionsOf} ${currencyPart.value}`;
+        i += 2;
+      }
+    }
+    return spoken;
+  } catch (error) {
+    return original;
+  }
+}
+
+function formatNumber(language: string, original: string, value: number, options: Intl.NumberFormatOptions): string {
+  if (!isFinite(value)) return original;
+  try {
+    return new Intl.NumberFormat(language, options).format(value);
+  } catch (error) {
+    // Older engines don't know every style or unit
+    return original;
+  }
+}
+
+// Parse "1,234.5", "1.234,5" or "2,5". A single separator followed by three digits is a
+// thousands separator unless the language writes decimals with it.
+function parseAmount(amount: string, language: string): number {
+  const lastComma = amount.lastIndexOf(',');
+  const lastDot = amount.lastIndexOf('.');
+  let decimalSeparator = '';
+
+  if (lastComma !== -1 && lastDot !== -1) {
+    decimalSeparator = lastComma > lastDot ? ',' : '.';
+  } else if (lastComma !== -1 || lastDot !== -1) {
+    const separator = lastComma !== -1 ? ',' : '.';
+    const groups = amount.split(separator);
+    if (groups.length === 2 && (groups[1].length !== 3 || separator === getDecimalSeparator(language))) {
+      decimalSeparator = separator;
+    }
+  }
+
+  const [whole, fraction = ''] = decimalSeparator ? amount.split(decimalSeparator) : [amount];
+  return parseFloat(`${whole.replace(/[.,]/g, '')}.${fraction || '0'}`);
+}
+
+function getDecimalSeparator(language: string): string {
+  try {
+    return new Intl.NumberFormat(language).format(1.5).charAt(1);
+  } catch (error) {
+    return '.';
+  }
+}
@@ -0,0 +1,50 @@
+/**
+ * Pauses are written into the cleaned text as runs of a private-use character, which
+ * is never spoken. Each marker stands for PAUSE_MARKER_MS of silence. Providers that can
+ * add silence to their audio split the text at the markers; the others remove them.
+ */
+export const PAUSE_MARKER = '\uE000';
+export const PAUSE_MARKER_MS = 100;
+
+const PAUSE_RUN_REGEX = new RegExp(`${PAUSE_MARKER}+`, 'g');
+
+/**
+ * Text piece to synthesize, followed by a pause
+ */
+export interface PausedSegment {
+  text: string;
+  pauseMs: number;
+}
+
+/**
+ * Markers for a pause of about the given length
+ */
+export function pauseMarkers(ms: number): string {
+  return PAUSE_MARKER.repeat(Math.max(0, Math.round(ms / PAUSE_MARKER_MS)));
+}
+
+export function hasPauseMarkers(text: string): boolean {
+  return text.indexOf(PAUSE_MARKER) !== -1;
+}
+
+export function stripPauseMarkers(text: string): string {
+  return text.replace(PAUSE_RUN_REGEX, '');
+}
+
+/**
+ * Split text at its pauses. The last segment is followed by its own pause (usually none).
+ */
+export function splitAtPauses(text: string): PausedSegment[] {
+  const segments: PausedSegment[] = [];
+  const regex = new RegExp(PAUSE_RUN_REGEX.source, 'g');
+  let cursor = 0;
+  let match: RegExpExecArray | null;
+
+  while ((match = regex.exec(text)) !== null) {
+    segments.push({ text: text.slice(cursor, match.index), pauseMs: match[0].length * PAUSE_MARKER_MS });
+    cursor = match.index + match[0].length;
+  }
+  segments.push({ text: text.slice(cursor), pauseMs: 0 });
+
+  return segments;
+}
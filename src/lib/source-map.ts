@@ -0,0 +1,331 @@
+/**
+ * Line and character in the original text, in the same shape as Obsidian's EditorPosition
+ */
+export interface SourcePosition {
+  line: number;
+  ch: number;
+}
+
+/**
+ * Half-open range of offsets in the original text
+ */
+export interface SourceRange {
+  from: number;
+  to: number;
+}
+
+type Replacer = (match: string, ...groups: string[]) => string;
+
+/**
+ * Collects the characters (and their source spans) of a new TrackedText
+ */
+class TrackedTextBuilder {
+  private parts: string[] = [];
+  private starts: number[] = [];
+  private ends: number[] = [];
+
+  constructor(private base: TrackedText, private baseStarts: number[], private baseEnds: number[]) {}
+
+  /** Copy characters of the base text, keeping their source spans */
+  copy(from: number, to: number): void {
+    if (to <= from) return;
+    this.parts.push(this.base.text.slice(from, to));
+    for (let i = from; i < to; i++) {
+      this.starts.push(this.baseStarts[i]);
+      this.ends.push(this.baseEnds[i]);
+    }
+  }
+
+  /** Add new characters that stand for the base text between from and to */
+  insert(text: string, from: number, to: number): void {
+    if (!text) return;
+    const span = this.base.toSourceRange(from, to);
+    this.parts.push(text);
+    for (let i = 0; i < text.length; i++) {
+      this.starts.push(span.from);
+      this.ends.push(span.to);
+    }
+  }
+
+  build(sourceEnd: number): TrackedText {
+    return new TrackedText(this.base.source, this.parts.join(''), this.starts, this.ends, sourceEnd);
+  }
+}
+
+/**
+ * A string that remembers where each of its characters came from in the original text.
+ * Filtering steps rewrite it through replace() and friends instead of String.replace,
+ * so the spoken text can be located in the note afterwards. Characters added by a
+ * rewrite (e.g. "greater than" for ">") map to the whole span they replaced.
+ */
+export class TrackedText {
+  readonly source: string;
+  readonly text: string;
+  private starts: number[]; // Source span of each character
+  private ends: number[];
+  private sourceEnd: number; // Source offset just after the text
+  private lineStarts: number[] | null = null;
+
+  /**
+   * Use TrackedText.fromSource() to start tracking a text
+   */
+  constructor(source: string, text: string, starts: number[], ends: number[], sourceEnd: number) {
+    this.source = source;
+    this.text = text;
+    this.starts = starts;
+    this.ends = ends;
+    this.sourceEnd = sourceEnd;
+  }
+
+  /**
+   * Start tracking an original text
+   */
+  static fromSource(source: string): TrackedText {
+    const starts: number[] = new Array(source.length);
+    const ends: number[] = new Array(source.length);
+    for (let i = 0; i < source.length; i++) {
+      starts[i] = i;
+      ends[i] = i + 1;
+    }
+    return new TrackedText(source, source, starts, ends, source.length);
+  }
+
+  get length(): number {
+    return this.text.length;
+  }
+
+  /**
+   * Same result as String.prototype.replace, with source positions kept for the text
+   * that is copied over: unmatched text and $n groups in string replacements.
+   * Groups are located in the order they appear in the match, which holds for
+   * patterns where capture groups don't overlap.
+   */
+  replace(pattern: RegExp, replacement: string | Replacer): TrackedText {
+    // Fresh copy so the caller's lastIndex is left alone
+    const regex = new RegExp(pattern.source, pattern.flags);
+    const builder = this.createBuilder();
+    let cursor = 0;
+    let matched = false;
+    let match: RegExpExecArray | null;
+
+    while ((match = regex.exec(this.text)) !== null) {
+      matched = true;
+      const matchStart = match.index;
+      const matchEnd = matchStart + match[0].length;
+      builder.copy(cursor, matchStart);
+
+      if (typeof replacement === 'function') {
+        builder.insert(replacement(match[0], ...match.slice(1)), matchStart, matchEnd);
+      } else {
+        this.expandReplacement(builder, replacement, match);
+      }
+
+      cursor = matchEnd;
+      if (!regex.global) break;
+      if (match[0].length === 0) regex.lastIndex++; // Avoid looping on empty matches
+    }
+
+    if (!matched) return this;
+
+    builder.copy(cursor, this.text.length);
+    return builder.build(this.sourceEnd);
+  }
+
+  /**
+   * Same result as String.prototype.slice for non-negative indices
+   */
+  slice(from: number, to: number = this.text.length): TrackedText {
+    from = Math.max(0, Math.min(from, this.text.length));
+    to = Math.max(from, Math.min(to, this.text.length));
+    const builder = this.createBuilder();
+    builder.copy(from, to);
+    return builder.build(this.toSourceOffset(to));
+  }
+
+  /**
+   * New text standing for the characters between from and to, e.g. a spoken
+   * replacement for a piece of markup
+   */
+  substitute(text: string, from: number, to: number): TrackedText {
+    const builder = this.createBuilder();
+    builder.insert(text, from, to);
+    return builder.build(this.toSourceOffset(to));
+  }
+
+  /**
+   * Same result as String.prototype.trim
+   */
+  trim(): TrackedText {
+    const leading = /^\s*/.exec(this.text)![0].length;
+    const trailing = /\s*$/.exec(this.text.slice(leading))![0].length;
+    if (leading === 0 && trailing === 0) return this;
+    return this.slice(leading, this.text.length - trailing);
+  }
+
+  /**
+   * Rewrite the text line by line, keeping the line breaks
+   */
+  mapLines(transform: (line: TrackedText, index: number) => TrackedText): TrackedText {
+    const parts: TrackedText[] = [];
+    let lineStart = 0;
+    let index = 0;
+
+    while (lineStart <= this.text.length) {
+      const newline = this.text.indexOf('\n', lineStart);
+      const lineEnd = newline === -1 ? this.text.length : newline;
+      parts.push(transform(this.slice(lineStart, lineEnd), index++));
+      if (newline === -1) break;
+      parts.push(this.slice(newline, newline + 1));
+      lineStart = newline + 1;
+    }
+
+    return TrackedText.concat(this.source, parts, this.sourceEnd);
+  }
+
+  /**
+   * Join pieces that were tracked against the same original text
+   */
+  static concat(source: string, pieces: TrackedText[], sourceEnd: number = source.length): TrackedText {
+    const starts: number[] = [];
+    const ends: number[] = [];
+    for (const piece of pieces) {
+      for (let i = 0; i < piece.text.length; i++) {
+        starts.push(piece.starts[i]);
+        ends.push(piece.ends[i]);
+      }
+    }
+    return new TrackedText(source, pieces.map(piece => piece.text).join(''), starts, ends, sourceEnd);
+  }
+
+  /**
+   * Source offset of the character at the given index (or just after the text)
+   */
+  toSourceOffset(index: number): number {
+    if (index < this.starts.length) return this.starts[Math.max(0, index)];
+    return this.sourceEnd;
+  }
+
+  /**
+   * Source range covered by the characters between from and to
+   */
+  toSourceRange(from: number, to: number): SourceRange {
+    if (to <= from || from >= this.text.length) {
+      const offset = this.toSourceOffset(from);
+      return { from: offset, to: offset };
+    }
+    from = Math.max(0, from);
+    to = Math.min(to, this.text.length);
+    return { from: this.starts[from], to: Math.max(this.starts[from], this.ends[to - 1]) };
+  }
+
+  /**
+   * Line and character in the original text of the character at the given index
+   */
+  toSourcePosition(index: number): SourcePosition {
+    return this.offsetToPosition(this.toSourceOffset(index));
+  }
+
+  /**
+   * Convert an offset in the original text to a line and character
+   */
+  offsetToPosition(offset: number): SourcePosition {
+    if (!this.lineStarts) {
+      this.lineStarts = [0];
+      for (let i = 0; i < this.source.length; i++) {
+        if (this.source[i] === '\n') this.lineStarts.push(i + 1);
+      }
+    }
+
+    // Last line starting at or before the offset
+    let low = 0;
+    let high = this.lineStarts.length - 1;
+    while (low < high) {
+      const mid = (low + high + 1) >> 1;
+      if (this.lineStarts[mid] <= offset) {
+        low = mid;
+      } else {
+        high = mid - 1;
+      }
+    }
+    return { line: low, ch: offset - this.lineStarts[low] };
+  }
+
+  private createBuilder(): TrackedTextBuilder {
+    return new TrackedTextBuilder(this, this.starts, this.ends);
+  }
+
+  // Expand $$, $& and $n in a replacement string like String.prototype.replace does
+  private expandReplacement(builder: TrackedTextBuilder, replacement: string, match: RegExpExecArray): void {
+    const matchStart = match.index;
+    const matchEnd = matchStart + match[0].length;
+    const groupStarts = this.locateGroups(match);
+    const groupCount = match.length - 1;
+    let literal = '';
+    let literalFrom = matchStart; // Added text stands for the matched text after the last copied group
+
+    const flushLiteral = (literalTo: number) => {
+      if (literalTo > literalFrom) {
+        builder.insert(literal, literalFrom, literalTo);
+      } else {
+        builder.insert(literal, matchStart, matchEnd);
+      }
+      literal = '';
+    };
+
+    for (let i = 0; i < replacement.length; i++) {
+      const char = replacement[i];
+      const next = replacement[i + 1];
+      if (char !== '$' || next === undefined) {
+        literal += char;
+        continue;
+      }
+
+      if (next === '$') {
+        literal += '$';
+        i++;
+      } else if (next === '&') {
+        flushLiteral(matchStart);
+        builder.copy(matchStart, matchEnd);
+        literalFrom = matchEnd;
+        i++;
+      } else if (/\d/.test(next)) {
+        // Prefer a two-digit group number when that group exists
+        const twoDigits = parseInt(replacement.substr(i + 1, 2), 10);
+        const useTwo = /\d/.test(replacement[i + 2] || '') && twoDigits >= 1 && twoDigits <= groupCount;
+        const group = useTwo ? twoDigits : parseInt(next, 10);
+        if (group < 1 || group > groupCount) {
+          literal += char;
+          continue;
+        }
+
+        const groupText = match[group];
+        const groupStart = groupStarts[group];
+        if (groupText !== undefined && groupStart !== -1) {
+          flushLiteral(groupStart);
+          builder.copy(groupStart, groupStart + groupText.length);
+          literalFrom = Math.max(literalFrom, groupStart + groupText.length);
+        } else if (groupText !== undefined) {
+          literal += groupText;
+        }
+        i += useTwo ? 2 : 1;
+      } else {
+        literal += char;
+      }
+    }
+
+    flushLiteral(matchEnd);
+  }
+
+  // Position of each capture group in the text, or -1 when it didn't participate
+  private locateGroups(match: RegExpExecArray): number[] {
+    const groupStarts: number[] = [-1];
+    let searchFrom = 0;
+    for (let group = 1; group < match.length; group++) {
+      const groupText = match[group];
+      const index = groupText === undefined ? -1 : match[0].indexOf(groupText, searchFrom);
+      groupStarts.push(index === -1 ? -1 : match.index + index);
+      if (index !== -1) searchFrom = index + groupText.length;
+    }
+    return groupStarts;
+  }
+}
@@ -0,0 +1,66 @@
+/**
+ * In dialogue mode, speaker labels are replaced in the cleaned text by a marker holding
+ * the speaker's name between two private-use characters. Text after a marker is spoken
+ * by that speaker, until the next marker; an empty name switches back to the narrator.
+ * Chunking splits the text at the markers and removes them before synthesis.
+ */
+export const SPEAKER_MARKER_START = '\uE001';
+export const SPEAKER_MARKER_END = '\uE002';
+
+const SPEAKER_MARKER_REGEX = new RegExp(`${SPEAKER_MARKER_START}([^${SPEAKER_MARKER_END}]*)${SPEAKER_MARKER_END}`, 'g');
+
+/**
+ * Text spoken by one speaker ('' for the narrator)
+ */
+export interface SpeakerSegment {
+  speaker: string;
+  text: string;
+}
+
+/**
+ * Marker starting the lines of a speaker, or of the narrator when the name is empty
+ */
+export function speakerMarker(speaker: string): string {
+  return SPEAKER_MARKER_START + speaker.replace(new RegExp(`[${SPEAKER_MARKER_START}${SPEAKER_MARKER_END}]`, 'g'), '') + SPEAKER_MARKER_END;
+}
+
+export function hasSpeakerMarkers(text: string): boolean {
+  return text.indexOf(SPEAKER_MARKER_START) !== -1;
+}
+
+export function stripSpeakerMarkers(text: string): string {
+  return text.replace(SPEAKER_MARKER_REGEX, '');
+}
+
+/**
+ * Split text at its speaker markers. Text before the first marker belongs to the narrator.
+ * Segments without any text are left out.
+ */
+export function splitBySpeaker(text: string): SpeakerSegment[] {
+  const segments: SpeakerSegment[] = [];
+  const regex = new RegExp(SPEAKER_MARKER_REGEX.source, 'g');
+  let speaker = '';
+  let cursor = 0;
+  let match: RegExpExecArray | null;
+
+  const push = (segmentText: string) => {
+    if (segmentText.trim()) segments.push({ speaker, text: segmentText });
+  };
+
+  while ((match = regex.exec(text)) !== null) {
+    push(text.slice(cursor, match.index));
+    speaker = match[1];
+    cursor = match.index + match[0].length;
+  }
+  push(text.slice(cursor));
+
+  return segments;
+}
+
+/**
+ * Speaker of a chunk that starts with a marker, and the chunk's text without markers
+ */
+export function takeSpeaker(chunk: string): SpeakerSegment {
+  const match = new RegExp(`^\\s*${SPEAKER_MARKER_REGEX.source}`).exec(chunk);
+  return { speaker: match ? match[1] : '', text: stripSpeakerMarkers(chunk) };
+}
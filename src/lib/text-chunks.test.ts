@@ -0,0 +1,42 @@
+import { describe, expect, it } from 'vitest';
+import { splitTextIntoChunks } from './text-chunks';
+import { PAUSE_MARKER } from './pauses';
+import { speakerMarker } from './speakers';
+
+describe('splitTextIntoChunks', () => {
+  it('keeps paragraphs together while they fit', () => {
+    expect(splitTextIntoChunks('First paragraph.\n\nSecond paragraph.', 100)).toEqual(['First paragraph.\n\nSecond paragraph.']);
+    expect(splitTextIntoChunks('First paragraph.\n\nSecond paragraph.', 20)).toEqual(['First paragraph.', 'Second paragraph.']);
+  });
+
+  it('splits paragraphs separated by lines of pause markers', () => {
+    const text = `First paragraph.\n${PAUSE_MARKER}${PAUSE_MARKER}\nSecond paragraph.`;
+    expect(splitTextIntoChunks(text, 20)).toEqual(['First paragraph.', 'Second paragraph.']);
+  });
+
+  it('splits long paragraphs by sentences, and long sentences by words', () => {
+    expect(splitTextIntoChunks('One two. Three four. Five six.', 20)).toEqual(['One two. Three four.', 'Five six.']);
+    expect(splitTextIntoChunks('alpha beta gamma delta epsilon', 12)).toEqual(['alpha beta', 'gamma delta', 'epsilon']);
+  });
+
+  it('keeps the sentences before a sentence that has to be split by words', () => {
+    const chunks = splitTextIntoChunks('Short one. ' + 'word '.repeat(20), 40);
+    expect(chunks[0]).toBe('Short one.');
+    expect(chunks.join(' ')).toBe('Short one. ' + 'word '.repeat(20).trim());
+  });
+
+  it('measures chunks in bytes', () => {
+    expect(splitTextIntoChunks('ééééé ééééé', 12)).toEqual(['ééééé', 'ééééé']);
+  });
+
+  it('starts a new chunk where the language changes, if enabled', () => {
+    const text = 'This is the text that we have.\n\nDas ist der Text und die Sprache.';
+    expect(splitTextIntoChunks(text, 1000)).toHaveLength(1);
+    expect(splitTextIntoChunks(text, 1000, true)).toEqual(['This is the text that we have.', 'Das ist der Text und die Sprache.']);
+  });
+
+  it('splits each speaker on their own and starts their chunks with the marker', () => {
+    const text = `${speakerMarker('Ann')}Hello there.${speakerMarker('Bob')}Hi.`;
+    expect(splitTextIntoChunks(text, 1000)).toEqual([`${speakerMarker('Ann')}Hello there.`, `${speakerMarker('Bob')}Hi.`]);
+  });
+});
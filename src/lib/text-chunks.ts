@@ -0,0 +1,103 @@
+import { PAUSE_MARKER } from './pauses';
+import { detectLanguage } from './language-detection';
+import { hasSpeakerMarkers, speakerMarker, splitBySpeaker } from './speakers';
+
+/**
+ * Splitting cleaned text into chunks small enough for a single synthesis request,
+ * for both playback and MP3 generation
+ */
+
+/**
+ * Blank lines between paragraphs, which may hold pause markers (a regular expression source)
+ */
+export const PARAGRAPH_SEPARATOR = `\\n[\\s${PAUSE_MARKER}]*\\n`;
+
+function getByteSize(text: string): number {
+  return new Blob([text]).size;
+}
+
+/**
+ * Split text into chunks of at most `maxBytes`, keeping paragraphs together where they fit,
+ * then sentences, then words. In dialogue mode each speaker's lines are split on their own,
+ * and their chunks start with the speaker's marker.
+ * @param splitByLanguage Also start a new chunk where the language of the paragraphs changes
+ */
+export function splitTextIntoChunks(text: string, maxBytes: number, splitByLanguage = false): string[] {
+  if (hasSpeakerMarkers(text)) {
+    const speakerChunks: string[] = [];
+    for (const segment of splitBySpeaker(text)) {
+      const marker = segment.speaker ? speakerMarker(segment.speaker) : '';
+      speakerChunks.push(...splitTextIntoChunks(segment.text, maxBytes, splitByLanguage).map(chunk => marker + chunk));
+    }
+    return speakerChunks;
+  }
+
+  const chunks: string[] = [];
+  let currentChunk = '';
+  let currentLanguage: string | null = null;
+
+  for (const paragraph of text.split(new RegExp(PARAGRAPH_SEPARATOR))) {
+    if (getByteSize(paragraph) > maxBytes) {
+      // Save the chunk so far, then split the paragraph by sentences
+      if (currentChunk.trim()) {
+        chunks.push(currentChunk.trim());
+        currentChunk = '';
+      }
+
+      for (const sentence of paragraph.split(/(?<=[.!?])\s+/)) {
+        if (getByteSize(sentence) > maxBytes) {
+          // Save the sentences so far, then split very long sentences by words
+          if (currentChunk.trim()) {
+            chunks.push(currentChunk.trim());
+            currentChunk = '';
+          }
+
+          let wordChunk = '';
+          for (const word of sentence.split(/\s+/)) {
+            const potentialChunk = wordChunk + (wordChunk ? ' ' : '') + word;
+            if (getByteSize(potentialChunk) > maxBytes) {
+              if (wordChunk.trim()) {
+                chunks.push(wordChunk.trim());
+              }
+              wordChunk = word;
+            } else {
+              wordChunk = potentialChunk;
+            }
+          }
+
+          if (wordChunk.trim()) {
+            currentChunk = wordChunk.trim();
+          }
+        } else {
+          const potentialChunk = currentChunk + (currentChunk ? ' ' : '') + sentence;
+          if (getByteSize(potentialChunk) > maxBytes) {
+            if (currentChunk.trim()) {
+              chunks.push(currentChunk.trim());
+            }
+            currentChunk = sentence;
+          } else {
+            currentChunk = potentialChunk;
+          }
+        }
+      }
+    } else {
+      const potentialChunk = currentChunk + (currentChunk ? '\n\n' : '') + paragraph;
+      // Start a new chunk where the language changes, so it can be read by another voice
+      const language = splitByLanguage ? detectLanguage(paragraph) : null;
+      const languageChanged = language !== null && currentLanguage !== null && language !== currentLanguage;
+      if ((getByteSize(potentialChunk) > maxBytes || languageChanged) && currentChunk.trim()) {
+        chunks.push(currentChunk.trim());
+        currentChunk = paragraph;
+      } else {
+        currentChunk = potentialChunk;
+      }
+      if (language) currentLanguage = language;
+    }
+  }
+
+  if (currentChunk.trim()) {
+    chunks.push(currentChunk.trim());
+  }
+
+  return chunks;
+}
@@ -0,0 +1,38 @@
+import { describe, expect, it } from 'vitest';
+import { findUnitStart, findUnitStarts } from './text-navigation';
+import { PAUSE_MARKER } from './pauses';
+
+describe('findUnitStarts', () => {
+  it('finds sentences ending in punctuation or a line break', () => {
+    expect(findUnitStarts('One. Two?! Three\nFour', 'sentence')).toEqual([0, 5, 11, 17]);
+  });
+
+  it('finds paragraphs separated by blank lines', () => {
+    expect(findUnitStarts('P1 text.\n\nP2 text.\n  \n\nP3', 'paragraph')).toEqual([0, 10, 23]);
+  });
+
+  it('finds paragraphs separated by lines of pause markers', () => {
+    const text = `P1 text.\n${PAUSE_MARKER.repeat(3)}\nP2 text.`;
+    expect(findUnitStarts(text, 'paragraph')).toEqual([0, text.indexOf('P2')]);
+  });
+
+  it('skips pause markers before the first word', () => {
+    const text = `${PAUSE_MARKER}Intro.\n\n${PAUSE_MARKER} Next.`;
+    expect(findUnitStarts(text, 'paragraph')).toEqual([1, text.indexOf('Next')]);
+  });
+});
+
+describe('findUnitStart', () => {
+  const starts = [0, 10, 20];
+
+  it('moves to the next start', () => {
+    expect(findUnitStart(starts, 12, 1)).toBe(20);
+    expect(findUnitStart(starts, 20, 1)).toBeNull();
+  });
+
+  it('moves back to the current start, or the one before it', () => {
+    expect(findUnitStart(starts, 12, -1)).toBe(10);
+    expect(findUnitStart(starts, 12, -1, false)).toBe(0);
+    expect(findUnitStart(starts, 5, -1, false)).toBeNull();
+  });
+});
@@ -0,0 +1,54 @@
+import { PAUSE_MARKER } from './pauses';
+import { PARAGRAPH_SEPARATOR } from './text-chunks';
+
+/**
+ * Sentence and paragraph positions in the cleaned text, used to skip through playback.
+ * Paragraphs are separated by blank lines, as they are when the text is split into chunks.
+ */
+
+export type NavigationUnit = 'sentence' | 'paragraph';
+
+// Whitespace and pause markers that come before the first word of a sentence
+const LEADING_SPACE_REGEX = new RegExp(`[\\s${PAUSE_MARKER}]`);
+
+function skipLeadingSpace(text: string, offset: number): number {
+  while (offset < text.length && LEADING_SPACE_REGEX.test(text[offset])) offset++;
+  return offset;
+}
+
+/**
+ * Offsets where each sentence or paragraph of the text starts, in order
+ */
+export function findUnitStarts(text: string, unit: NavigationUnit): number[] {
+  const separator = unit === 'paragraph' ? new RegExp(PARAGRAPH_SEPARATOR, 'g') : /[.!?]+(?=\s)|\n/g;
+  const starts: number[] = [];
+
+  const push = (offset: number) => {
+    const start = skipLeadingSpace(text, offset);
+    if (start < text.length && start !== starts[starts.length - 1]) starts.push(start);
+  };
+
+  push(0);
+  let match: RegExpExecArray | null;
+  while ((match = separator.exec(text)) !== null) {
+    push(match.index + match[0].length);
+  }
+  return starts;
+}
+
+/**
+ * Start of the sentence or paragraph to move to from the given offset: the next one, or
+ * for direction -1 the start of the current one (the previous one when `restart` is false,
+ * e.g. because playback is already at the start of the current one). Null at either end.
+ */
+export function findUnitStart(starts: number[], offset: number, direction: 1 | -1, restart = true): number | null {
+  if (direction === 1) {
+    const next = starts.find(start => start > offset);
+    return next === undefined ? null : next;
+  }
+
+  let current = -1;
+  for (let i = 0; i < starts.length && starts[i] <= offset; i++) current = i;
+  const target = restart ? current : current - 1;
+  return target >= 0 ? starts[target] : null;
+}
@@ -62,3 +62,231 @@ export const COMPARISON_SYMBOL_TRANSLATIONS = {
     lessThanOrEqual: ' 小于等于 ',
   },
 } as const;
+
+// Sample sentences spoken when previewing a voice, keyed by language code
+export const VOICE_PREVIEW_SAMPLES: Record<string, string> = {
+  en: 'Hello! This is a preview of how your notes will sound.',
+  es: '¡Hola! Así es como sonarán tus notas.',
+  fr: 'Bonjour ! Voici comment vos notes seront lues.',
+  de: 'Hallo! So werden deine Notizen klingen.',
+  it: 'Ciao! Ecco come suoneranno le tue note.',
+  pt: 'Olá! É assim que as suas notas vão soar.',
+  ru: 'Привет! Так будут звучать ваши заметки.',
+  ja: 'こんにちは。あなたのノートはこのように読み上げられます。',
+  ko: '안녕하세요! 노트는 이렇게 읽힙니다.',
+  zh: '你好！这就是你的笔记朗读出来的效果。',
+};
+
+/**
+ * Words used when reading numbers aloud, keyed by language code
+ */
+export interface NumberWords {
+  version: string;                  // Spoken before "v2.3.1"-style version numbers
+  point: string;                    // Separator between version number parts
+  fractions: Record<string, string>; // Common fractions, e.g. "3/4"
+  millionsOf: string;               // Between millions or more and a currency ("1,2 millones de dólares"), if the language uses a word
+}
+
+// Number words for the languages of COMPARISON_SYMBOL_TRANSLATIONS
+export const NUMBER_WORD_TRANSLATIONS: Record<keyof typeof COMPARISON_SYMBOL_TRANSLATIONS, NumberWords> = {
+  en: {
+    version: 'version',
+    point: 'point',
+    fractions: { '1/2': 'one half', '1/3': 'one third', '2/3': 'two thirds', '1/4': 'one quarter', '3/4': 'three quarters' },
+    millionsOf: '',
+  },
+  es: {
+    version: 'versión',
+    point: 'punto',
+    fractions: { '1/2': 'un medio', '1/3': 'un tercio', '2/3': 'dos tercios', '1/4': 'un cuarto', '3/4': 'tres cuartos' },
+    millionsOf: 'de',
+  },
+  fr: {
+    version: 'version',
+    point: 'point',
+    fractions: { '1/2': 'un demi', '1/3': 'un tiers', '2/3': 'deux tiers', '1/4': 'un quart', '3/4': 'trois quarts' },
+    millionsOf: 'de',
+  },
+  de: {
+    version: 'Version',
+    point: 'Punkt',
+    fractions: { '1/2': 'ein halb', '1/3': 'ein Drittel', '2/3': 'zwei Drittel', '1/4': 'ein Viertel', '3/4': 'drei Viertel' },
+    millionsOf: '',
+  },
+  it: {
+    version: 'versione',
+    point: 'punto',
+    fractions: { '1/2': 'un mezzo', '1/3': 'un terzo', '2/3': 'due terzi', '1/4': 'un quarto', '3/4': 'tre quarti' },
+    millionsOf: 'di',
+  },
+  pt: {
+    version: 'versão',
+    point: 'ponto',
+    fractions: { '1/2': 'um meio', '1/3': 'um terço', '2/3': 'dois terços', '1/4': 'um quarto', '3/4': 'três quartos' },
+    millionsOf: 'de',
+  },
+  ru: {
+    version: 'версия',
+    point: 'точка',
+    fractions: { '1/2': 'одна вторая', '1/3': 'одна треть', '2/3': 'две трети', '1/4': 'одна четверть', '3/4': 'три четверти' },
+    millionsOf: '',
+  },
+  ja: {
+    version: 'バージョン',
+    point: '点',
+    fractions: { '1/2': '2分の1', '1/3': '3分の1', '2/3': '3分の2', '1/4': '4分の1', '3/4': '4分の3' },
+    millionsOf: '',
+  },
+  ko: {
+    version: '버전',
+    point: '점',
+    fractions: { '1/2': '2분의 1', '1/3': '3분의 1', '2/3': '3분의 2', '1/4': '4분의 1', '3/4': '4분의 3' },
+    millionsOf: '',
+  },
+  zh: {
+    version: '版本',
+    point: '点',
+    fractions: { '1/2': '二分之一', '1/3': '三分之一', '2/3': '三分之二', '1/4': '四分之一', '3/4': '四分之三' },
+    millionsOf: '',
+  },
+};
+
+/**
+ * Spoken cues announcing the structure of a note, keyed by language code
+ */
+export interface NarrationCues {
+  section: string;  // Before a heading
+  listItem: string; // Before a list item; {index} and {count} are replaced
+  callout: string;  // Before a callout title; {type} is replaced with the callout type
+  moreRow: string;  // After the last table row read, when one row is left out
+  moreRows: string; // After the last table row read; {count} is replaced with the rows left out
+  codeBlock: string; // In place of a skipped code block; {language} and {lines} are replaced
+  codeBlockPlain: string; // In place of a skipped code block without a language; {lines} is replaced
+  line: string;     // Length of a one-line code block
+  lines: string;    // Length of a code block; {count} is replaced with the number of lines
+  mathOmitted: string; // In place of math that can't be read aloud
+}
+
+// Narration cues for the languages of COMPARISON_SYMBOL_TRANSLATIONS
+export const NARRATION_CUE_TRANSLATIONS: Record<keyof typeof COMPARISON_SYMBOL_TRANSLATIONS, NarrationCues> = {
+  en: {
+    section: 'Section: ',
+    listItem: 'Item {index} of {count}: ',
+    callout: '{type} callout: ',
+    moreRow: 'and 1 more row',
+    moreRows: 'and {count} more rows',
+    codeBlock: 'Code block in {language}, {lines}, skipped',
+    codeBlockPlain: 'Code block, {lines}, skipped',
+    line: '1 line',
+    lines: '{count} lines',
+    mathOmitted: 'equation omitted',
+  },
+  es: {
+    section: 'Sección: ',
+    listItem: 'Elemento {index} de {count}: ',
+    callout: 'Recuadro {type}: ',
+    moreRow: 'y 1 fila más',
+    moreRows: 'y {count} filas más',
+    codeBlock: 'Bloque de código en {language}, {lines}, omitido',
+    codeBlockPlain: 'Bloque de código, {lines}, omitido',
+    line: '1 línea',
+    lines: '{count} líneas',
+    mathOmitted: 'ecuación omitida',
+  },
+  fr: {
+    section: 'Section : ',
+    listItem: 'Élément {index} sur {count} : ',
+    callout: 'Encadré {type} : ',
+    moreRow: 'et 1 ligne de plus',
+    moreRows: 'et {count} lignes de plus',
+    codeBlock: 'Bloc de code en {language}, {lines}, ignoré',
+    codeBlockPlain: 'Bloc de code, {lines}, ignoré',
+    line: '1 ligne',
+    lines: '{count} lignes',
+    mathOmitted: 'équation omise',
+  },
+  de: {
+    section: 'Abschnitt: ',
+    listItem: 'Punkt {index} von {count}: ',
+    callout: 'Hinweisbox {type}: ',
+    moreRow: 'und 1 weitere Zeile',
+    moreRows: 'und {count} weitere Zeilen',
+    codeBlock: 'Codeblock in {language}, {lines}, übersprungen',
+    codeBlockPlain: 'Codeblock, {lines}, übersprungen',
+    line: '1 Zeile',
+    lines: '{count} Zeilen',
+    mathOmitted: 'Formel ausgelassen',
+  },
+  it: {
+    section: 'Sezione: ',
+    listItem: 'Elemento {index} di {count}: ',
+    callout: 'Riquadro {type}: ',
+    moreRow: 'e 1 altra riga',
+    moreRows: 'e altre {count} righe',
+    codeBlock: 'Blocco di codice in {language}, {lines}, saltato',
+    codeBlockPlain: 'Blocco di codice, {lines}, saltato',
+    line: '1 riga',
+    lines: '{count} righe',
+    mathOmitted: 'equazione omessa',
+  },
+  pt: {
+    section: 'Seção: ',
+    listItem: 'Item {index} de {count}: ',
+    callout: 'Destaque {type}: ',
+    moreRow: 'e mais 1 linha',
+    moreRows: 'e mais {count} linhas',
+    codeBlock: 'Bloco de código em {language}, {lines}, ignorado',
+    codeBlockPlain: 'Bloco de código, {lines}, ignorado',
+    line: '1 linha',
+    lines: '{count} linhas',
+    mathOmitted: 'equação omitida',
+  },
+  ru: {
+    section: 'Раздел: ',
+    listItem: 'Пункт {index} из {count}: ',
+    callout: 'Выноска {type}: ',
+    moreRow: 'и ещё 1 строка',
+    moreRows: 'и ещё строк: {count}',
+    codeBlock: 'Блок кода на {language}, строк: {lines}, пропущен',
+    codeBlockPlain: 'Блок кода, строк: {lines}, пропущен',
+    line: '1',
+    lines: '{count}',
+    mathOmitted: 'формула пропущена',
+  },
+  ja: {
+    section: 'セクション：',
+    listItem: '{count}項目中{index}番目：',
+    callout: '{type}の注記：',
+    moreRow: 'ほか1行',
+    moreRows: 'ほか{count}行',
+    codeBlock: '{language}のコードブロック、{lines}、省略',
+    codeBlockPlain: 'コードブロック、{lines}、省略',
+    line: '1行',
+    lines: '{count}行',
+    mathOmitted: '数式省略',
+  },
+  ko: {
+    section: '섹션: ',
+    listItem: '{count}개 중 {index}번째 항목: ',
+    callout: '{type} 콜아웃: ',
+    moreRow: '외 1개 행',
+    moreRows: '외 {count}개 행',
+    codeBlock: '{language} 코드 블록, {lines}, 건너뜀',
+    codeBlockPlain: '코드 블록, {lines}, 건너뜀',
+    line: '1줄',
+    lines: '{count}줄',
+    mathOmitted: '수식 생략',
+  },
+  zh: {
+    section: '章节：',
+    listItem: '第{index}项，共{count}项：',
+    callout: '{type}标注：',
+    moreRow: '还有1行',
+    moreRows: '还有{count}行',
+    codeBlock: '{language}代码块，{lines}，已跳过',
+    codeBlockPlain: '代码块，{lines}，已跳过',
+    line: '1行',
+    lines: '{count}行',
+    mathOmitted: '公式已省略',
+  },
+};
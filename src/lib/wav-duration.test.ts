@@ -0,0 +1,52 @@
+import { describe, expect, it } from 'vitest';
+import { getWavDuration } from './wav-duration';
+
+// RIFF header of 16-bit mono PCM, followed by `samples` samples
+function wav(sampleRate: number, samples: number, extraChunk = false, dataSize = samples * 2): Uint8Array {
+  const extra = extraChunk ? 8 + 3 + 1 : 0; // An odd-sized LIST chunk, padded to an even length
+  const bytes = new Uint8Array(44 + extra + samples * 2);
+  const view = new DataView(bytes.buffer);
+  const tag = (offset: number, text: string) => { for (let i = 0; i < 4; i++) bytes[offset + i] = text.charCodeAt(i); };
+
+  tag(0, 'RIFF');
+  view.setUint32(4, bytes.length - 8, true);
+  tag(8, 'WAVE');
+  tag(12, 'fmt ');
+  view.setUint32(16, 16, true);
+  view.setUint16(20, 1, true); // PCM
+  view.setUint16(22, 1, true); // Mono
+  view.setUint32(24, sampleRate, true);
+  view.setUint32(28, sampleRate * 2, true); // Byte rate
+  view.setUint16(32, 2, true);
+  view.setUint16(34, 16, true);
+  let offset = 36;
+  if (extraChunk) {
+    tag(offset, 'LIST');
+    view.setUint32(offset + 4, 3, true);
+    offset += extra;
+  }
+  tag(offset, 'data');
+  view.setUint32(offset + 4, dataSize, true);
+  return bytes;
+}
+
+describe('getWavDuration', () => {
+  it('reads the duration from the byte rate and the audio after the header', () => {
+    expect(getWavDuration([wav(22050, 22050)])).toBe(1);
+    expect(getWavDuration([wav(16000, 8000, true)])).toBe(0.5);
+  });
+
+  it('reads a header split across parts', () => {
+    const bytes = wav(22050, 11025);
+    expect(getWavDuration([bytes.subarray(0, 10), bytes.subarray(10, 30), bytes.subarray(30)])).toBe(0.5);
+  });
+
+  it('counts the audio received rather than the size in a streamed header', () => {
+    expect(getWavDuration([wav(22050, 22050, false, 0xffffffff)])).toBe(1);
+  });
+
+  it('returns null for audio that is not WAV', () => {
+    expect(getWavDuration([new Uint8Array([0xff, 0xf3, 0x44, 0xc4])])).toBeNull();
+    expect(getWavDuration([])).toBeNull();
+  });
+});
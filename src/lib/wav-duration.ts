@@ -0,0 +1,49 @@
+/**
+ * Length of WAV audio, for providers (like a local command) that output WAV instead of MP3
+ */
+
+// The fmt and data chunk headers are near the start; only this much is looked at
+const MAX_HEADER_BYTES = 1024;
+
+function readHeader(data: Uint8Array[]): Uint8Array {
+  const header = new Uint8Array(Math.min(MAX_HEADER_BYTES, data.reduce((sum, part) => sum + part.length, 0)));
+  let offset = 0;
+  for (const part of data) {
+    if (offset >= header.length) break;
+    const bytes = part.subarray(0, header.length - offset);
+    header.set(bytes, offset);
+    offset += bytes.length;
+  }
+  return header;
+}
+
+function readTag(bytes: Uint8Array, offset: number): string {
+  return String.fromCharCode(bytes[offset], bytes[offset + 1], bytes[offset + 2], bytes[offset + 3]);
+}
+
+/**
+ * Duration in seconds of WAV audio split into parts, or null when it has no readable RIFF header.
+ * The length comes from the bytes after the data chunk header, since streamed WAV output
+ * often has placeholder sizes in its header.
+ */
+export function getWavDuration(data: Uint8Array[]): number | null {
+  const header = readHeader(data);
+  if (header.length < 12 || readTag(header, 0) !== 'RIFF' || readTag(header, 8) !== 'WAVE') return null;
+
+  const view = new DataView(header.buffer, header.byteOffset, header.byteLength);
+  let byteRate = 0;
+  let offset = 12;
+  while (offset + 8 <= header.length) {
+    const tag = readTag(header, offset);
+    const size = view.getUint32(offset + 4, true);
+    if (tag === 'fmt ' && offset + 16 <= header.length) {
+      byteRate = view.getUint32(offset + 16, true);
+    } else if (tag === 'data') {
+      if (!byteRate) return null;
+      const totalBytes = data.reduce((sum, part) => sum + part.length, 0);
+      return Math.max(0, totalBytes - (offset + 8)) / byteRate;
+    }
+    offset += 8 + size + (size % 2); // Chunks are padded to an even length
+  }
+  return null;
+}
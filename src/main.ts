@@ -1,4 +1,5 @@
-import { Plugin, MarkdownView, Notice, Editor, MarkdownFileInfo, Platform } from 'obsidian';
+import { Plugin, MarkdownView, Notice, Editor, MarkdownFileInfo, Platform, TFile, normalizePath, editorInfoField } from 'obsidian';
+import type { Extension } from '@codemirror/state';
 import { EdgeTTSPluginSettings, EdgeTTSPluginSettingTab, DEFAULT_SETTINGS } from './modules/settings';
 import { AudioPlaybackManager } from './modules/audio-playback';
 import { FileOperationsManager } from './modules/file-operations';
@@ -8,8 +9,18 @@ import { OUTPUT_FORMAT } from './modules/tts-client-wrapper';
 import { FloatingUIManager } from './modules/FloatingUIManager';
 import { QueueUIManager } from './modules/QueueUIManager';
 import { ChunkedProgressManager } from './modules/ChunkedProgressManager';
-import { ChunkedGenerator } from './modules/chunked-generator';
+import { ChunkedGenerator, MP3_OUTPUT_REQUIRED_MESSAGE } from './modules/chunked-generator';
 import { checkAndTruncateContent, shouldShowNotices } from './utils';
+import { getTTSProvider } from './modules/tts-provider';
+import { getNoteOverrides } from './modules/note-overrides';
+import type { NoteOverrides } from './modules/note-overrides';
+import { playbackHighlightExtension } from './modules/playback-highlighter';
+import type { PlaybackSource } from './modules/playback-highlighter';
+import { addReadingViewPlayButton, createGutterPlayButtons } from './modules/play-buttons';
+import { isWorthResuming } from './modules/resume-positions';
+import { parsePronunciationNote, setVaultPronunciationRules } from './modules/pronunciation';
+import { TrackedText } from './lib/source-map';
+import { findBlockStarts, findSectionEnd } from './lib/markdown-parser';
 
 export default class EdgeTTSPlugin extends Plugin {
 	settings: EdgeTTSPluginSettings;
@@ -24,6 +35,12 @@ export default class EdgeTTSPlugin extends Plugin {
 	// Task tracking for MP3 generation
 	private mp3GenerationTasks: Map<string, { taskId: string, editor?: Editor, filePath?: string }> = new Map();
 
+	// Notes already offered for resuming in this session
+	private resumeOfferedPaths: Set<string> = new Set();
+
+	// Holds the gutter play buttons while they are enabled; emptied to remove them from open editors
+	private playButtonExtension: Extension[] = [];
+
 	async onload() {
 		if (process.env.NODE_ENV === 'development') {
 			console.log('Loading Obsidian Edge TTS Plugin');
@@ -106,6 +123,17 @@ export default class EdgeTTSPlugin extends Plugin {
 			});
 		}
 
+		// 9d. Remember where reading stopped so notes can be resumed later
+		this.audioManager.setResumePositionCallback((filePath, position) => {
+			if (position) {
+				this.settings.resumePositions[filePath] = position;
+			} else {
+				delete this.settings.resumePositions[filePath];
+			}
+			// Save directly; nothing else depends on reading positions
+			this.saveData(this.settings).catch(error => console.error('Failed to save reading position:', error));
+		});
+
 		// 10. Initialize UIManager
 		this.uiManager = new UIManager(this, this.settings, this.audioManager, this.ttsEngine);
 
@@ -130,6 +158,43 @@ export default class EdgeTTSPlugin extends Plugin {
 		if (this.settings.showStatusBarButton) this.uiManager.initializeStatusBar();
 		if (this.settings.showMenuItems) this.uiManager.addPluginMenuItems();
 
+		// Highlight the spoken text in the editor during playback
+		this.registerEditorExtension(playbackHighlightExtension);
+
+		// Play buttons next to paragraphs and headings, in the editor and in reading view
+		this.registerEditorExtension(this.playButtonExtension);
+		this.updatePlayButtons();
+		this.registerMarkdownPostProcessor((el, ctx) => {
+			if (!this.settings.showPlayButtons) return;
+			addReadingViewPlayButton(el, ctx, (text, from, toSectionEnd) => {
+				this.readFromBlock(text, from, toSectionEnd, ctx.sourcePath);
+			});
+		});
+
+		// Offer to continue reading notes that were stopped partway through
+		this.registerEvent(this.app.workspace.on('file-open', (file) => {
+			if (file) this.offerResume(file);
+		}));
+
+		// Reading positions belong to a file path, so drop them when the file goes away or moves
+		this.registerEvent(this.app.vault.on('delete', (file) => {
+			this.removeResumePosition(file.path);
+			if (this.isPronunciationNote(file.path)) this.loadPronunciationNote();
+		}));
+		this.registerEvent(this.app.vault.on('rename', (file, oldPath) => {
+			this.removeResumePosition(oldPath);
+			if (this.isPronunciationNote(file.path) || this.isPronunciationNote(oldPath)) this.loadPronunciationNote();
+		}));
+
+		// Keep the rules from the pronunciation note up to date
+		this.app.workspace.onLayoutReady(() => this.loadPronunciationNote());
+		this.registerEvent(this.app.vault.on('modify', (file) => {
+			if (this.isPronunciationNote(file.path)) this.loadPronunciationNote();
+		}));
+		this.registerEvent(this.app.vault.on('create', (file) => {
+			if (this.isPronunciationNote(file.path)) this.loadPronunciationNote();
+		}));
+
 		// Start task monitoring for background processing
 		this.registerInterval(
 			window.setInterval(() => this.monitorTasks(), 1000)
@@ -144,6 +209,17 @@ export default class EdgeTTSPlugin extends Plugin {
 			}
 		});
 
+		this.addCommand({
+			id: 'resume-reading-note',
+			name: 'Resume reading note',
+			checkCallback: (checking) => {
+				const file = this.app.workspace.getActiveFile();
+				if (!file || !isWorthResuming(this.settings.resumePositions[file.path])) return false;
+				if (!checking) this.resumeReadingNote(file.path);
+				return true;
+			}
+		});
+
 		// Add command to generate MP3 (desktop only)
 		if (!Platform.isMobile) {
 			this.addCommand({
@@ -192,6 +268,30 @@ export default class EdgeTTSPlugin extends Plugin {
 			callback: () => this.audioManager.jumpBackward()
 		});
 
+		this.addCommand({
+			id: 'next-sentence',
+			name: 'Skip to next sentence',
+			callback: () => this.audioManager.skipBy('sentence', 1)
+		});
+
+		this.addCommand({
+			id: 'previous-sentence',
+			name: 'Skip to previous sentence',
+			callback: () => this.audioManager.skipBy('sentence', -1)
+		});
+
+		this.addCommand({
+			id: 'next-paragraph',
+			name: 'Skip to next paragraph',
+			callback: () => this.audioManager.skipBy('paragraph', 1)
+		});
+
+		this.addCommand({
+			id: 'previous-paragraph',
+			name: 'Skip to previous paragraph',
+			callback: () => this.audioManager.skipBy('paragraph', -1)
+		});
+
 		this.addCommand({
 			id: 'read-selected-text',
 			name: 'Read selected text aloud',
@@ -199,7 +299,10 @@ export default class EdgeTTSPlugin extends Plugin {
 			editorCallback: (editor, view) => {
 				const selectedText = editor.getSelection();
 				if (selectedText.trim()) {
-					this.audioManager.startPlayback(selectedText);
+					this.audioManager.startPlayback(selectedText, {
+						overrides: getNoteOverrides(this.app, view.file?.path),
+						source: { editor, offset: editor.posToOffset(editor.getCursor('from')) }
+					});
 				} else {
 					if (shouldShowNotices(this.settings)) new Notice('No text selected.');
 				}
@@ -241,7 +344,7 @@ export default class EdgeTTSPlugin extends Plugin {
 				editorCallback: (editor, view) => {
 					const noteTitle = view.file?.basename || 'Untitled';
 					const content = editor.getValue();
-					this.audioManager.addToQueue(content, noteTitle);
+					this.audioManager.addToQueue(content, noteTitle, view.file?.path);
 				}
 			});
 
@@ -252,7 +355,7 @@ export default class EdgeTTSPlugin extends Plugin {
 					const selectedText = editor.getSelection();
 					if (selectedText.trim()) {
 						const noteTitle = view.file?.basename || 'Untitled';
-						this.audioManager.addToQueue(selectedText, `${noteTitle} (selection)`);
+						this.audioManager.addToQueue(selectedText, `${noteTitle} (selection)`, view.file?.path);
 					} else {
 						if (shouldShowNotices(this.settings)) new Notice('No text selected.');
 					}
@@ -376,7 +479,7 @@ export default class EdgeTTSPlugin extends Plugin {
 							}
 						}
 
-						this.generateChunkedMP3(truncationResult.content, editor, view.file?.path);
+						this.generateChunkedMP3(truncationResult.content, editor, view.file?.path, getNoteOverrides(this.app, view.file?.path));
 					} else {
 						if (this.settings.showNotices) new Notice('No text available for chunked generation.');
 					}
@@ -421,12 +524,55 @@ export default class EdgeTTSPlugin extends Plugin {
 		const lastChar = editor.getLine(lastLine).length;
 		const textFromCursor = editor.getRange(editor.getCursor(), { line: lastLine, ch: lastChar });
 		if (textFromCursor.trim()) {
-			this.audioManager.startPlayback(textFromCursor);
+			this.audioManager.startPlayback(textFromCursor, {
+				overrides: getNoteOverrides(this.app, view?.file?.path),
+				source: { editor, offset: editor.posToOffset(editor.getCursor()) }
+			});
 		} else {
 			if (shouldShowNotices(this.settings)) new Notice('No text from cursor selected or available.');
 		}
 	}
 
+	/**
+	 * Read a note from the start of one of its blocks, to the end of the note or of the block's section
+	 * @param editor The editor showing the note, for highlighting the spoken text
+	 */
+	async readFromBlock(text: string, from: number, toSectionEnd: boolean, sourcePath?: string, editor?: Editor): Promise<void> {
+		const to = toSectionEnd ? findSectionEnd(findBlockStarts(text), from, text.length) : text.length;
+		const blockText = text.slice(from, to);
+		if (!blockText.trim()) {
+			if (shouldShowNotices(this.settings)) new Notice('No text to read from here.');
+			return;
+		}
+
+		const content = await this.fileManager.resolveEmbeds(TrackedText.fromSource(blockText), sourcePath);
+		await this.audioManager.startPlayback(content, {
+			overrides: getNoteOverrides(this.app, sourcePath),
+			source: editor ? { editor, offset: from } : undefined,
+		});
+	}
+
+	/**
+	 * Add or remove the play buttons after the setting changes
+	 */
+	updatePlayButtons(): void {
+		this.playButtonExtension.length = 0;
+		if (this.settings.showPlayButtons) {
+			this.playButtonExtension.push(createGutterPlayButtons((view, from, toSectionEnd) => {
+				const info = view.state.field(editorInfoField, false);
+				this.readFromBlock(view.state.doc.toString(), from, toSectionEnd, info?.file?.path, info?.editor);
+			}));
+		}
+		this.app.workspace.updateOptions();
+
+		// Reading view adds its buttons while rendering, so render open notes again
+		this.app.workspace.getLeavesOfType('markdown').forEach(leaf => {
+			if (leaf.view instanceof MarkdownView && leaf.view.getMode() === 'preview') {
+				leaf.view.previewMode.rerender(true);
+			}
+		});
+	}
+
 	/**
 	 * Monitor background TTS tasks
 	 */
@@ -470,8 +616,54 @@ export default class EdgeTTSPlugin extends Plugin {
 		this.uiManager.updateStatusBar(withControls);
 	}
 
-	async readNoteAloud(editor?: Editor, viewInput?: MarkdownView | MarkdownFileInfo, filePath?: string): Promise<void> {
+	/**
+	 * Continue reading a note from where the last session stopped
+	 */
+	async resumeReadingNote(filePath: string): Promise<void> {
+		const view = this.app.workspace.getActiveViewOfType(MarkdownView);
+		// Read from the open editor when possible so the spoken text can be highlighted
+		if (view && view.file?.path === filePath) {
+			await this.readNoteAloud(view.editor, view, undefined, true);
+		} else {
+			await this.readNoteAloud(undefined, undefined, filePath, true);
+		}
+	}
+
+	/**
+	 * Show a notice offering to resume a note that was stopped partway through
+	 */
+	private offerResume(file: TFile): void {
+		if (!this.settings.offerResumeOnOpen || this.resumeOfferedPaths.has(file.path)) return;
+		if (!isWorthResuming(this.settings.resumePositions[file.path]) || this.audioManager.isReadingFile(file.path)) return;
+
+		// Offer once per note and session
+		this.resumeOfferedPaths.add(file.path);
+
+		const fragment = document.createDocumentFragment();
+		fragment.createSpan({ text: `Continue reading "${file.basename}" where you left off? ` });
+		const resumeButton = fragment.createEl('button', { text: 'Resume' });
+		const notice = new Notice(fragment, 10000);
+		resumeButton.addEventListener('click', () => {
+			notice.hide();
+			this.resumeReadingNote(file.path);
+		});
+	}
+
+	private removeResumePosition(filePath: string): void {
+		if (!this.settings.resumePositions[filePath]) return;
+		delete this.settings.resumePositions[filePath];
+		this.saveData(this.settings).catch(error => console.error('Failed to save reading positions:', error));
+	}
+
+	/**
+	 * Read the selection or the whole note aloud
+	 * @param resume Continue from the position where reading of the note last stopped
+	 */
+	async readNoteAloud(editor?: Editor, viewInput?: MarkdownView | MarkdownFileInfo, filePath?: string, resume = false): Promise<void> {
 		let selectedText = '';
+		let sourcePath = filePath;
+		let source: PlaybackSource | undefined;
+		let isWholeNote = true;
 
 		if (filePath) {
 			const fileContent = await this.fileManager.extractFileContent(filePath);
@@ -487,30 +679,31 @@ export default class EdgeTTSPlugin extends Plugin {
 			if (!editor && view) editor = view.editor;
 
 			if (editor && view) {
-				selectedText = editor.getSelection() || editor.getValue();
+				isWholeNote = resume || !editor.getSelection();
+				selectedText = isWholeNote ? editor.getValue() : editor.getSelection();
+				sourcePath = view.file?.path;
+				source = { editor, offset: isWholeNote ? 0 : editor.posToOffset(editor.getCursor('from')) };
 			}
 		}
 
-		// Check content limits and truncate if necessary
-		const truncationResult = checkAndTruncateContent(selectedText);
-
-		if (truncationResult.wasTruncated) {
-			const limitType = truncationResult.truncationReason === 'words' ? 'word' : 'character';
-			const limitValue = truncationResult.truncationReason === 'words' ? '5,000 words' : '30,000 characters';
-
-			if (this.settings.showNotices) {
-				new Notice(
-					`Content exceeds playback limit (${limitValue}). ` +
-					`Playing first ${truncationResult.finalWordCount.toLocaleString()} words ` +
-					`(${truncationResult.finalCharCount.toLocaleString()} characters). ` +
-					`Original content had ${truncationResult.originalWordCount.toLocaleString()} words.`,
-					8000 // Show notice for 8 seconds
-				);
-			}
+		// Whole notes marked "tts-skip: true" are not read; selections still are
+		const overrides = getNoteOverrides(this.app, sourcePath);
+		if (overrides.skip && isWholeNote) {
+			if (shouldShowNotices(this.settings)) new Notice('This note is marked tts-skip and is not read aloud.');
+			return;
 		}
 
-		// Use audio manager for playback with potentially truncated content
-		await this.audioManager.startPlayback(truncationResult.content);
+		// Read embedded notes in place, mapped to their embeds for highlighting
+		const content = await this.fileManager.resolveEmbeds(TrackedText.fromSource(selectedText), sourcePath);
+
+		// Long notes are streamed in chunks by the audio manager
+		await this.audioManager.startPlayback(content, {
+			overrides,
+			source,
+			// Only whole-note reads are remembered, so resuming never continues from a selection
+			resumeKey: isWholeNote ? sourcePath : undefined,
+			resumeFrom: resume && sourcePath ? this.settings.resumePositions[sourcePath] : undefined,
+		});
 	}
 
 	async generateMP3(editor?: Editor, viewInput?: MarkdownView | MarkdownFileInfo, filePath?: string): Promise<void> {
@@ -522,7 +715,10 @@ export default class EdgeTTSPlugin extends Plugin {
 			return;
 		}
 
+		if (!this.providerOutputsMP3()) return;
+
 		let selectedText = '';
+		let sourcePath = filePath;
 
 		if (filePath) {
 			const fileContent = await this.fileManager.extractFileContent(filePath);
@@ -539,6 +735,7 @@ export default class EdgeTTSPlugin extends Plugin {
 
 			if (editor && view) {
 				selectedText = editor.getSelection() || editor.getValue();
+				sourcePath = view.file?.path;
 			}
 		}
 
@@ -547,6 +744,12 @@ export default class EdgeTTSPlugin extends Plugin {
 			return;
 		}
 
+		const overrides = getNoteOverrides(this.app, sourcePath);
+		if (overrides.skip && (filePath || !editor?.getSelection())) {
+			if (this.settings.showNotices) new Notice('This note is marked tts-skip, so no MP3 is generated.');
+			return;
+		}
+
 		// Check content limits and truncate if necessary
 		const truncationResult = checkAndTruncateContent(selectedText);
 
@@ -565,13 +768,13 @@ export default class EdgeTTSPlugin extends Plugin {
 			}
 		}
 
-		// Use the potentially truncated content
-		const contentToProcess = truncationResult.content;
+		// Use the potentially truncated content, with embedded notes written in place
+		const contentToProcess = (await this.fileManager.resolveEmbeds(TrackedText.fromSource(truncationResult.content), sourcePath)).text;
 
 		// Check if the text needs chunking
-		if (ChunkedGenerator.needsChunking(contentToProcess, this.settings)) {
+		if (ChunkedGenerator.needsChunking(contentToProcess, this.settings, overrides)) {
 			// Use chunked generation
-			await this.generateChunkedMP3(contentToProcess, editor, filePath);
+			await this.generateChunkedMP3(contentToProcess, editor, filePath, overrides);
 			return;
 		}
 
@@ -579,7 +782,7 @@ export default class EdgeTTSPlugin extends Plugin {
 			if (this.settings.showNotices) new Notice('Starting MP3 generation in background...');
 
 			// Create a background task for MP3 generation
-			const task = this.ttsEngine.createTask(contentToProcess, OUTPUT_FORMAT.AUDIO_24KHZ_48KBITRATE_MONO_MP3);
+			const task = this.ttsEngine.createTask(contentToProcess, OUTPUT_FORMAT.AUDIO_24KHZ_48KBITRATE_MONO_MP3, overrides);
 
 			// Generate a unique ID for this MP3 generation task
 			const generationId = `mp3-${Date.now()}`;
@@ -596,10 +799,21 @@ export default class EdgeTTSPlugin extends Plugin {
 		}
 	}
 
+	/**
+	 * Providers that don't output MP3 (e.g. a local command producing WAV) can only be used for playback
+	 */
+	private providerOutputsMP3(): boolean {
+		if (getTTSProvider(this.settings).audioMimeType === 'audio/mpeg') return true;
+		if (this.settings.showNotices) {
+			new Notice(MP3_OUTPUT_REQUIRED_MESSAGE);
+		}
+		return false;
+	}
+
 	/**
 	 * Generate MP3 using chunked approach for long texts
 	 */
-	private async generateChunkedMP3(text: string, editor?: Editor, filePath?: string): Promise<void> {
+	private async generateChunkedMP3(text: string, editor?: Editor, filePath?: string, overrides?: NoteOverrides): Promise<void> {
 		// Check if we're on mobile - MP3 generation is not supported
 		if (Platform.isMobile) {
 			if (this.settings.showNotices) {
@@ -608,6 +822,8 @@ export default class EdgeTTSPlugin extends Plugin {
 			return;
 		}
 
+		if (!this.providerOutputsMP3()) return;
+
 		try {
 			const noteTitle = filePath ?
 				this.app.vault.getAbstractFileByPath(filePath)?.name?.replace(/\.md$/, '') || 'Note' :
@@ -616,7 +832,7 @@ export default class EdgeTTSPlugin extends Plugin {
 			// Show progress indicator
 			this.chunkedProgressManager.show({
 				noteTitle,
-				totalChunks: ChunkedGenerator.estimateChunkCount(text, this.settings)
+				totalChunks: ChunkedGenerator.estimateChunkCount(text, this.settings, overrides)
 			});
 
 			// Generate chunked MP3
@@ -624,7 +840,8 @@ export default class EdgeTTSPlugin extends Plugin {
 				text,
 				settings: this.settings,
 				progressManager: this.chunkedProgressManager,
-				noteTitle
+				noteTitle,
+				overrides
 			});
 
 			if (buffer) {
@@ -695,9 +912,56 @@ export default class EdgeTTSPlugin extends Plugin {
 			this.settings.symbolReplacement = Object.assign({}, DEFAULT_SETTINGS.symbolReplacement, this.settings.symbolReplacement);
 		}
 
+		// Copy the voice cache and reading positions so the defaults object is never mutated
+		this.settings.voiceCache = Object.assign({}, this.settings.voiceCache);
+		this.settings.resumePositions = Object.assign({}, this.settings.resumePositions);
+
+		// Copy the pronunciation rules so the defaults object is never mutated
+		this.settings.pronunciation = Object.assign({}, DEFAULT_SETTINGS.pronunciation, this.settings.pronunciation);
+		this.settings.pronunciation.rules = [...this.settings.pronunciation.rules];
+
+		// Copy the language voices so the defaults object is never mutated
+		this.settings.languageVoices = Object.assign({}, DEFAULT_SETTINGS.languageVoices, this.settings.languageVoices);
+		this.settings.languageVoices.voices = this.settings.languageVoices.voices.map(entry => ({ ...entry }));
+		this.settings.speakerVoices = (this.settings.speakerVoices || []).map(entry => ({ ...entry }));
+
+		// Merge any missing OpenAI-compatible provider properties with defaults
+		this.settings.openAITTS = Object.assign({}, DEFAULT_SETTINGS.openAITTS, this.settings.openAITTS);
+
+		// Merge any missing local command provider properties with defaults
+		this.settings.localCommandTTS = Object.assign({}, DEFAULT_SETTINGS.localCommandTTS, this.settings.localCommandTTS);
+
 		// Initial position setting is moved to onload after floatingUIManager is initialized.
 	}
 
+	/**
+	 * Read the rules from the pronunciation note set in the settings
+	 */
+	async loadPronunciationNote(): Promise<void> {
+		const file = this.app.vault.getAbstractFileByPath(this.getPronunciationNotePath());
+		if (!(file instanceof TFile)) {
+			setVaultPronunciationRules([]);
+			return;
+		}
+
+		try {
+			setVaultPronunciationRules(parsePronunciationNote(await this.app.vault.cachedRead(file)));
+		} catch (error) {
+			console.error('Failed to read the pronunciation note:', error);
+			setVaultPronunciationRules([]);
+		}
+	}
+
+	private isPronunciationNote(path: string): boolean {
+		return !!this.settings.pronunciation.notePath && path === this.getPronunciationNotePath();
+	}
+
+	// The note path can be given with or without the .md extension
+	private getPronunciationNotePath(): string {
+		const notePath = normalizePath(this.settings.pronunciation.notePath || '/');
+		return /\.md$/i.test(notePath) ? notePath : `${notePath}.md`;
+	}
+
 	async saveSettings() {
 		await this.saveData(this.settings);
 
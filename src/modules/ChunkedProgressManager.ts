@@ -30,6 +30,9 @@ export class ChunkedProgressManager {
     overallProgress: 0,
   };
 
+  // Settles the promise returned by waitForRetry: true to retry failed chunks, false when closed
+  private retryResolver: ((retry: boolean) => void) | null = null;
+
   private resizeDebounceTimeout: number | null = null;
   private readonly RESIZE_DEBOUNCE_DELAY = 250; // milliseconds
 
@@ -95,10 +98,29 @@ export class ChunkedProgressManager {
   }
 
   public hide() {
+    this.resolveRetry(false);
     this.state.isVisible = false;
     this.renderComponent();
   }
 
+  /**
+   * Offer to retry the failed chunks. Resolves true when the user retries, false when the
+   * progress indicator is closed instead.
+   */
+  public waitForRetry(): Promise<boolean> {
+    this.resolveRetry(false);
+    return new Promise(resolve => {
+      this.retryResolver = resolve;
+      this.renderComponent();
+    });
+  }
+
+  private resolveRetry(retry: boolean) {
+    const resolver = this.retryResolver;
+    this.retryResolver = null;
+    resolver?.(retry);
+  }
+
   public updateState(updates: Partial<ChunkedProgressState>) {
     this.state = {
       ...this.state,
@@ -118,6 +140,10 @@ export class ChunkedProgressManager {
     }
   }
 
+  public getChunk(chunkId: string): ChunkInfo | undefined {
+    return this.state.chunks.find(chunk => chunk.id === chunkId);
+  }
+
   public addChunk(chunk: ChunkInfo) {
     this.updateState({
       chunks: [...this.state.chunks, chunk]
@@ -138,21 +164,19 @@ export class ChunkedProgressManager {
     } else if (this.state.currentPhase === 'generating') {
       if (this.state.chunks.length === 0) return 5;
 
-      const completedChunks = this.state.chunks.filter(c => c.status === ChunkStatus.COMPLETED).length;
+      // Failed chunks are done too, or progress would stall short of the end
+      const finishedChunks = this.state.chunks.filter(c => c.status === ChunkStatus.COMPLETED || c.status === ChunkStatus.FAILED).length;
       const processingChunks = this.state.chunks.filter(c => c.status === ChunkStatus.PROCESSING);
 
-      // Calculate progress from completed chunks and processing chunks
-      let totalProgress = completedChunks * 100;
+      // Calculate progress from finished chunks and the chunks being processed, several of
+      // which can be in flight at once
+      let totalProgress = finishedChunks * 100;
 
-      // Add progress from chunks currently being processed
+      // Give chunks that are processing but haven't reported progress yet some credit
       processingChunks.forEach(chunk => {
-        totalProgress += Math.max(chunk.progress, 10); // Give processing chunks at least 10% credit
+        totalProgress += Math.max(chunk.progress, 5);
       });
 
-      // Give chunks that are processing but haven't reported progress yet some credit
-      const processingWithoutProgress = processingChunks.filter(c => c.progress === 0).length;
-      totalProgress += processingWithoutProgress * 5; // 5% credit for started processing
-
       // Calculate percentage and scale to 5-85% range
       const rawProgress = totalProgress / (this.state.chunks.length * 100);
       const scaledProgress = 5 + (rawProgress * 80);
@@ -160,7 +184,7 @@ export class ChunkedProgressManager {
       // Debug logging (can be removed later)
       if (process.env.NODE_ENV === 'development') {
         console.log('Progress calc:', {
-          completedChunks,
+          finishedChunks,
           processingChunks: processingChunks.length,
           totalProgress,
           rawProgress,
@@ -189,6 +213,7 @@ export class ChunkedProgressManager {
         React.createElement(ChunkedProgressUI, {
           isVisible: this.state.isVisible,
           onClose: () => this.hide(),
+          onRetryFailed: this.retryResolver ? () => this.resolveRetry(true) : undefined,
           totalChunks: this.state.totalChunks,
           chunks: this.state.chunks,
           currentPhase: this.state.currentPhase,
@@ -215,6 +240,7 @@ export class ChunkedProgressManager {
       this.hostElement = null;
     }
     this.state.isVisible = false;
+    this.resolveRetry(false);
 
     window.removeEventListener('resize', this.debouncedWindowResize);
     if (this.resizeDebounceTimeout) {
@@ -183,6 +183,8 @@ export class FloatingUIManager {
           onReplay: () => this.audioManager.replayPlayback(),
           onJumpForward: () => this.audioManager.jumpForward(),
           onJumpBackward: () => this.audioManager.jumpBackward(),
+          onSkipSentence: (direction) => this.audioManager.skipBy('sentence', direction),
+          onSkipParagraph: (direction) => this.audioManager.skipBy('paragraph', direction),
           isLoading: this.currentPlaybackState.isLoading, // Pass isLoading state
           queueInfo: queueInfo, // Pass queue information
           onToggleQueue: (this.enableQueueFeature && this.queueUIManager) ? () => this.queueUIManager?.toggleQueueVisibility() : undefined, // Toggle queue callback
@@ -1,20 +1,53 @@
 import { EdgeTTSPluginSettings } from './settings';
 import { Notice, Platform } from 'obsidian';
-import { UniversalTTSClient as EdgeTTSClient, OUTPUT_FORMAT, createProsodyOptions } from './tts-client-wrapper';
-import { filterFrontmatter, filterMarkdown, shouldShowNotices, checkAndTruncateContent, toArrayBuffer } from '../utils';
+import { OUTPUT_FORMAT, MP3_BYTES_PER_SECOND } from './tts-client-wrapper';
+import { getTTSProvider } from './tts-provider';
+import { filterFrontmatterTracked, filterMarkdownTracked, shouldShowNotices, toArrayBuffer } from '../utils';
+import { TrackedText } from '../lib/source-map';
+import { applyPronunciationTracked } from './pronunciation';
 import { ChunkedGenerator } from './chunked-generator';
-
-// Create a ProsodyOptions class that matches the old API
-class ProsodyOptions {
-  rate?: number;
-
-  constructor() {
-    // Initialize with defaults
-  }
-}
+import { SpeechSynthesisPlayer, isSpeechSynthesisSupported } from './speech-synthesis-fallback';
+import { getNoteOverrides, resolveProsody, resolveTextFiltering } from './note-overrides';
+import type { NoteOverrides } from './note-overrides';
+import { isLanguageSwitchingEnabled } from './language-voices';
+import { resolveChunkVoice } from './speaker-voices';
+import { hasSpeakerMarkers, stripSpeakerMarkers } from '../lib/speakers';
+import { splitTextIntoChunks } from '../lib/text-chunks';
+import { getWavDuration } from '../lib/wav-duration';
+import { withRetry } from '../lib/concurrency';
+import { findUnitStart, findUnitStarts } from '../lib/text-navigation';
+import type { NavigationUnit } from '../lib/text-navigation';
+import { CHUNK_RETRIES, getChunkConcurrency, synthesizeChunk } from './chunk-synthesis';
+import type { SynthesizedChunk } from './chunk-synthesis';
+import { getRetryDelay, isRetryableTTSError } from './tts-errors';
+import { PlaybackHighlighter } from './playback-highlighter';
+import type { PlaybackSource } from './playback-highlighter';
+import { createResumePosition, findResumeOffset } from './resume-positions';
+import type { ResumePosition } from './resume-positions';
 import type { FileOperationsManager } from './file-operations';
 import type { App } from 'obsidian';
 
+/**
+ * Options for a single playback session
+ */
+export interface PlaybackOptions {
+  overrides?: NoteOverrides; // Per-note settings from the source note's frontmatter
+  source?: PlaybackSource; // Editor the text comes from, used to highlight the spoken words
+  resumeKey?: string; // File path to remember the reading position for
+  resumeFrom?: ResumePosition; // Continue from a position saved by an earlier session
+}
+
+// How often the reading position is saved while playing, in milliseconds
+const RESUME_SAVE_INTERVAL = 10000;
+
+// Skipping back within this many seconds of a sentence or paragraph's start goes to the one before it
+const RESTART_THRESHOLD_SECONDS = 2;
+
+// Chunked playback synthesizes at most this many chunks ahead of the one playing
+const STREAM_CHUNKS_AHEAD = 2;
+// Seconds of already played audio kept in the stream, so jumping back still works
+const PLAYED_AUDIO_KEPT_SECONDS = 120;
+
 /**
  * Handles all audio playback functionality for the Edge TTS plugin
  */
@@ -34,7 +67,7 @@ export class AudioPlaybackManager {
   private wasPlayingBeforeBlur = false;
 
   // Playback queue functionality
-  private playbackQueue: Array<{ text: string, title?: string }> = [];
+  private playbackQueue: Array<{ text: string, title?: string, filePath?: string }> = [];
   private currentQueueIndex = -1;
   private isPlayingFromQueue = false;
   private loopEnabled = false; // Loop queue functionality
@@ -47,12 +80,22 @@ export class AudioPlaybackManager {
   private mediaSource: MediaSource | null = null;
   private sourceBuffer: SourceBuffer | null = null;
   private completeMp3BufferArray: Uint8Array[] = [];
+  private receivedAudioBytes = 0; // Audio received in this session, including streamed chunks that aren't kept
+  private receivedAudioSeconds = 0; // Length of that audio
+  private playedAudioTrimmed = false; // The start of a long stream was removed to save memory
   private mseAudioQueue: Uint8Array[] = [];
   private isAppendingBuffer = false; // To manage sequential appends to SourceBuffer
   private isStreamingWithMSE = false;
   private isSwitchingToFullFile = false;
   private streamedPlaybackTimeBeforeSwitch = 0;
 
+  // Chunked playback without MSE: each chunk's audio plays as a file of its own, one after another
+  private isPlayingBlobChunks = false;
+  private blobChunkQueue: Array<{ data: Uint8Array[], startTime: number }> = [];
+  private blobChunkStartTime = 0; // Start of the playing chunk in the session's audio
+  private isAwaitingBlobChunk = false; // The previous chunk ended before the next one was synthesized
+  private allBlobChunksQueued = false;
+
   // Queue change notification callback
   private queueChangeCallback?: () => void;
 
@@ -62,6 +105,25 @@ export class AudioPlaybackManager {
   // Media Session API integration for Android system controls
   private mediaSessionSupported = false;
 
+  // System voice (speechSynthesis) fallback
+  private speechPlayer: SpeechSynthesisPlayer;
+  private isUsingSpeechSynthesis = false;
+
+  // Per-note overrides for the current playback session
+  private noteOverrides: NoteOverrides = {};
+
+  // Spoken word highlighting in the source editor
+  private highlighter: PlaybackHighlighter;
+  private highlightFrame: number | null = null;
+
+  // Reading position tracking, so a note can be resumed later
+  private resumeSession: { filePath: string, cleanText: string, startOffset: number } | null = null;
+  private lastPlayback: { text: TrackedText, options: PlaybackOptions } | null = null; // To replay streams that were trimmed
+  private chunkTimeline: Array<{ time: number, offset: number, index: number }> = []; // Start of each chunk in chunked playback
+  private playedText = ''; // Cleaned text being played, for sentence and paragraph navigation
+  private lastResumeSave = 0;
+  private resumePositionCallback?: (filePath: string, position: ResumePosition | null) => void;
+
   constructor(
     settings: EdgeTTSPluginSettings,
     updateStatusBarCallback: (withControls: boolean) => void,
@@ -80,6 +142,18 @@ export class AudioPlaybackManager {
     this.app = app;
     this.audioElement = new Audio();
     this.audioElement.preload = 'auto';
+    this.highlighter = new PlaybackHighlighter(settings);
+    this.speechPlayer = new SpeechSynthesisPlayer({
+      onProgress: (progress) => {
+        this.updateFloatingPlayerCallback({ ...progress, isLoading: false });
+      },
+      onEnd: () => this.handleSpeechSynthesisEnded(),
+      onError: (error) => {
+        console.error('Speech synthesis error:', error);
+        if (this.settings.showNotices) new Notice('System voice playback failed.');
+        this.stopPlaybackInternal();
+      },
+    });
     this.setupAudioEventListeners();
     this.setupAutoPauseListeners();
     this.initializeMediaSession();
@@ -131,9 +205,22 @@ export class AudioPlaybackManager {
       }
       // Update Media Session position for system controls
       this.updateMediaSessionPosition();
+
+      if (Date.now() - this.lastResumeSave > RESUME_SAVE_INTERVAL) {
+        this.saveResumePosition();
+      }
     };
 
     this.audioElement.onended = () => {
+      if (this.isPlayingBlobChunks && this.playNextBlobChunk()) return;
+      if (this.isPlayingBlobChunks && !this.allBlobChunksQueued) {
+        // Keep the highlight and reading position until the next chunk arrives
+        this.updateFloatingPlayerCallback({ currentTime: 0, duration: 0, isPlaying: false, isLoading: true });
+        return;
+      }
+
+      this.stopHighlightLoop(true);
+      this.clearResumePosition(); // Read to the end, nothing to resume
       if (this.isStreamingWithMSE && this.mediaSource && this.mediaSource.readyState === 'ended') {
         // This is the end of the MSE stream, before switching to the full file.
         // The actual "finished reading" will happen after the full file plays or if no switch occurs.
@@ -184,6 +271,8 @@ export class AudioPlaybackManager {
 
     this.audioElement.onpause = () => {
       this.isPaused = true; // isPaused is critical for our logic
+      this.stopHighlightLoop(false);
+      this.saveResumePosition();
       this.updateStatusBarCallback(true);
       if (!this.settings.disablePlaybackControlPopover) {
         this.updateFloatingPlayerCallback({
@@ -202,6 +291,7 @@ export class AudioPlaybackManager {
 
     this.audioElement.onplay = () => {
       this.isPaused = false;
+      this.startHighlightLoop();
       // isLoading state is handled by the updateFloatingPlayerCallback
       this.updateStatusBarCallback(true);
       if (!this.settings.disablePlaybackControlPopover) {
@@ -240,14 +330,14 @@ export class AudioPlaybackManager {
   private setupAutoPauseListeners(): void {
     // Auto-pause when user switches away from Obsidian
     window.addEventListener('blur', () => {
-      if (this.settings.autoPauseOnWindowBlur && !this.audioElement.paused) {
+      if (this.settings.autoPauseOnWindowBlur && this.isPlaying()) {
         this.wasPlayingBeforeBlur = true;
         this.pausePlayback();
       }
     });
 
     window.addEventListener('focus', () => {
-      if (this.settings.autoPauseOnWindowBlur && this.wasPlayingBeforeBlur && this.audioElement.paused) {
+      if (this.settings.autoPauseOnWindowBlur && this.wasPlayingBeforeBlur && !this.isPlaying()) {
         this.wasPlayingBeforeBlur = false;
         this.resumePlayback();
       }
@@ -319,20 +409,22 @@ export class AudioPlaybackManager {
         }
       });
 
-      // Queue navigation handlers (if queue is enabled)
-      if (this.settings.enableQueueFeature) {
-        navigator.mediaSession.setActionHandler('previoustrack', () => {
-          if (this.isPlayingFromQueue && this.currentQueueIndex > 0) {
-            this.playQueueItem(this.currentQueueIndex - 1);
-          }
-        });
+      // Previous/next move through the queue when playing from it, and by paragraph otherwise
+      navigator.mediaSession.setActionHandler('previoustrack', () => {
+        if (this.isPlayingFromQueue) {
+          if (this.currentQueueIndex > 0) this.playQueueItem(this.currentQueueIndex - 1);
+        } else {
+          this.skipBy('paragraph', -1);
+        }
+      });
 
-        navigator.mediaSession.setActionHandler('nexttrack', () => {
-          if (this.isPlayingFromQueue && this.currentQueueIndex < this.playbackQueue.length - 1) {
-            this.playQueueItem(this.currentQueueIndex + 1);
-          }
-        });
-      }
+      navigator.mediaSession.setActionHandler('nexttrack', () => {
+        if (this.isPlayingFromQueue) {
+          if (this.currentQueueIndex < this.playbackQueue.length - 1) this.playQueueItem(this.currentQueueIndex + 1);
+        } else {
+          this.skipBy('paragraph', 1);
+        }
+      });
     } catch (error) {
       console.warn('Failed to set up Media Session handlers:', error);
     }
@@ -497,18 +589,24 @@ export class AudioPlaybackManager {
       'MediaSource' in window &&
       typeof MediaSource !== 'undefined' &&
       MediaSource.isTypeSupported &&
-      MediaSource.isTypeSupported('audio/mpeg');
+      MediaSource.isTypeSupported('audio/mpeg') &&
+      getTTSProvider(this.settings).audioMimeType === 'audio/mpeg'; // MP3 is the only format streamed via MSE
   }
 
   /**
    * Start text-to-speech playback
-   * @param selectedText Text to read aloud
+   * @param selectedText Text to read aloud, or text already mapped to its source (e.g. with embeds resolved)
+   * @param options Per-playback options such as note overrides
    */
-  async startPlayback(selectedText: string): Promise<void> {
+  async startPlayback(selectedText: string | TrackedText, options: PlaybackOptions = {}): Promise<void> {
+    const sourceText = typeof selectedText === 'string' ? TrackedText.fromSource(selectedText) : selectedText;
+
     // 1. Stop any existing playback and clean up resources
     this.stopPlaybackInternal(); // This also resets MSE vars and currentPlaybackId
     this.currentPlaybackId++; // Create a new ID for this playback attempt
     const activePlaybackAttemptId = this.currentPlaybackId;
+    this.noteOverrides = options.overrides || {};
+    this.lastPlayback = { text: sourceText, options: { ...options, resumeFrom: undefined } };
 
     // Check if we should use MSE or fallback approach
     const useMSE = this.isMSESupported();
@@ -516,6 +614,9 @@ export class AudioPlaybackManager {
 
     this.isPaused = false; // Reset isPaused for the new playback session
     this.completeMp3BufferArray = [];
+    this.receivedAudioBytes = 0;
+    this.receivedAudioSeconds = 0;
+    this.playedAudioTrimmed = false;
     this.mseAudioQueue = [];
     this.isAppendingBuffer = false;
 
@@ -530,13 +631,25 @@ export class AudioPlaybackManager {
     }
 
     // 3. Validate and clean text
-    if (!selectedText.trim()) {
+    if (!sourceText.text.trim()) {
       if (shouldShowNotices(this.settings)) new Notice('No text selected or available.');
       if (!this.settings.disablePlaybackControlPopover) this.hideFloatingPlayerCallback();
       this.isStreamingWithMSE = false; // Reset flag
       return;
     }
-    let cleanText = this.settings ? filterMarkdown(filterFrontmatter(selectedText), this.settings.textFiltering, this.settings.symbolReplacement) : filterMarkdown(filterFrontmatter(selectedText));
+    // Keep track of where the filtered text came from so it can be highlighted while spoken
+    let filteredText = applyPronunciationTracked(
+      filterMarkdownTracked(filterFrontmatterTracked(sourceText), resolveTextFiltering(this.settings, this.noteOverrides), this.settings.symbolReplacement),
+      this.settings
+    );
+
+    // Skip to where an earlier session stopped
+    const fullCleanText = filteredText.text;
+    const startOffset = options.resumeFrom ? findResumeOffset(fullCleanText, options.resumeFrom) : 0;
+    if (startOffset > 0) {
+      filteredText = filteredText.slice(startOffset);
+    }
+    const cleanText = filteredText.text;
     if (!cleanText.trim()) {
       if (this.settings.showNotices) new Notice('No readable text after filtering.');
       if (!this.settings.disablePlaybackControlPopover) this.hideFloatingPlayerCallback();
@@ -544,32 +657,27 @@ export class AudioPlaybackManager {
       return;
     }
 
-    // 3.4 Apply content limits and truncate if necessary
-    const truncationResult = checkAndTruncateContent(cleanText);
-    if (truncationResult.wasTruncated) {
-      const limitValue = truncationResult.truncationReason === 'words' ? '2,500 words' : '15,000 characters';
+    this.highlighter.begin(cleanText, filteredText, options.source);
+    this.playedText = cleanText;
+    if (options.resumeKey) {
+      this.resumeSession = { filePath: options.resumeKey, cleanText: fullCleanText, startOffset };
+      this.lastResumeSave = Date.now();
+    }
 
-      if (shouldShowNotices(this.settings)) {
-        new Notice(
-          `Content exceeds playback limit (${limitValue}). ` +
-          `Playing first ${truncationResult.finalWordCount.toLocaleString()} words ` +
-          `(${truncationResult.finalCharCount.toLocaleString()} characters). ` +
-          `Original content had ${truncationResult.originalWordCount.toLocaleString()} words.`,
-          8000 // Show notice for 8 seconds
-        );
-        new Notice(
-          `For now, select the next part of the text to play, right click, and select Read note aloud`,
-          10000 // Show notice for 10 seconds
-        );
-      }
+    // 3.45 Read with the system voice instead of the TTS provider if configured to
+    if (this.settings.webSpeechFallback === 'always') {
+      if (this.startSpeechSynthesisPlayback(cleanText)) return;
+      if (shouldShowNotices(this.settings)) new Notice('System voices are not available. Using the TTS provider instead.');
     }
-    cleanText = truncationResult.content;
 
     // 3.5 Check if text exceeds 4096 byte limit and chunk if necessary
     const textByteSize = new Blob([cleanText]).size;
-    const MAX_TTS_BYTES = 4096 - 100; // Safety buffer for encoding differences
+    const MAX_TTS_BYTES = getTTSProvider(this.settings).limits.maxTextBytes - 100; // Safety buffer for encoding differences
+
+    // Paragraphs in different languages or by different speakers are also played as chunks, each with its own voice
+    const switchesVoice = (isLanguageSwitchingEnabled(this.settings) || hasSpeakerMarkers(cleanText)) && this.splitTextIntoChunks(cleanText).length > 1;
 
-    if (textByteSize > MAX_TTS_BYTES) {
+    if (textByteSize > MAX_TTS_BYTES || switchesVoice) {
       // Text is too long, need to process in chunks
       await this.processChunkedPlayback(cleanText, activePlaybackAttemptId, useMSE);
       return;
@@ -674,26 +782,32 @@ export class AudioPlaybackManager {
       }
       this.updateStatusBarCallback(true);
 
-      const tts = new EdgeTTSClient();
-      const voiceToUse = this.settings.customVoice.trim() || this.settings.selectedVoice;
-      await tts.setMetadata(voiceToUse, outputFormat);
-
-      const prosodyOptions = new ProsodyOptions();
-      prosodyOptions.rate = this.settings.playbackSpeed;
-
-      const readable = tts.toStream(cleanText, prosodyOptions);
+      const provider = getTTSProvider(this.settings);
+      const { text, voice } = resolveChunkVoice(cleanText, this.settings, provider, this.noteOverrides);
+      const readable = provider.synthesizeStream(text, {
+        voice,
+        outputFormat,
+        ...resolveProsody(this.settings, this.noteOverrides)
+      });
 
       readable.on('data', (data: Uint8Array) => {
         if (this.currentPlaybackId !== activePlaybackAttemptId) {
           return;
         }
         this.completeMp3BufferArray.push(data);
+        this.receivedAudioBytes += data.length;
         if (useMSE) {
+          this.receivedAudioSeconds += data.length / MP3_BYTES_PER_SECOND; // Only MP3 is streamed
           this.mseAudioQueue.push(data);
           this.appendNextChunkToSourceBuffer();
         }
       });
 
+      readable.on('boundary', (boundary) => {
+        if (this.currentPlaybackId !== activePlaybackAttemptId) return;
+        this.highlighter.addBoundary(boundary, 0);
+      });
+
       readable.on('end', async () => {
         if (this.currentPlaybackId !== activePlaybackAttemptId) return;
 
@@ -702,13 +816,23 @@ export class AudioPlaybackManager {
           await this.finishMSEPlayback(activePlaybackAttemptId);
         } else {
           // Fallback end logic
+          this.receivedAudioSeconds = this.getAudioDuration(this.completeMp3BufferArray);
           await this.finishFallbackPlayback(activePlaybackAttemptId);
         }
       });
 
+      readable.on('error', (error: unknown) => {
+        console.error('TTS stream error:', error);
+        if (this.currentPlaybackId !== activePlaybackAttemptId) return;
+        if (this.tryWebSpeechFallback(cleanText)) return;
+        if (this.settings.showNotices) new Notice('Failed to read note aloud.');
+        this.stopPlaybackInternal();
+      });
+
     } catch (error) {
       console.error('Error processing TTS stream:', error);
       if (this.currentPlaybackId === activePlaybackAttemptId) {
+        if (this.tryWebSpeechFallback(cleanText)) return;
         if (this.settings.showNotices) new Notice('Failed to read note aloud.');
         this.stopPlaybackInternal();
       }
@@ -746,7 +870,7 @@ export class AudioPlaybackManager {
     }
 
     // Handle empty stream
-    if (this.completeMp3BufferArray.length === 0) {
+    if (this.receivedAudioBytes === 0) {
       if (this.settings.showNotices) new Notice('TTS stream was empty.');
       if (!this.settings.disablePlaybackControlPopover) {
         this.updateFloatingPlayerCallback({ currentTime: 0, duration: 0, isPlaying: false, isLoading: false });
@@ -757,17 +881,19 @@ export class AudioPlaybackManager {
       return;
     }
 
-    // Save complete buffer for replay functionality
-    const completeBuffer = Buffer.concat(this.completeMp3BufferArray);
-    const tempFilePath = await this.fileManager.saveTempAudioFile(completeBuffer);
+    // Save complete buffer for replay functionality (streamed chunks aren't kept)
+    if (this.completeMp3BufferArray.length > 0) {
+      const completeBuffer = Buffer.concat(this.completeMp3BufferArray);
+      const tempFilePath = await this.fileManager.saveTempAudioFile(completeBuffer);
 
-    if (this.currentPlaybackId !== activePlaybackAttemptId) {
-      this.isStreamingWithMSE = false;
-      return;
-    }
+      if (this.currentPlaybackId !== activePlaybackAttemptId) {
+        this.isStreamingWithMSE = false;
+        return;
+      }
 
-    if (!tempFilePath && this.settings.showNotices && !Platform.isMobile) {
-      new Notice('Failed to save temporary audio for playback.');
+      if (!tempFilePath && this.settings.showNotices && !Platform.isMobile) {
+        new Notice('Failed to save temporary audio for playback.');
+      }
     }
 
     if (!this.settings.disablePlaybackControlPopover) {
@@ -894,8 +1020,8 @@ export class AudioPlaybackManager {
       // Convert to a true ArrayBuffer for blob (avoids SAB typing issues)
       const arrayBuffer: ArrayBuffer = toArrayBuffer(buffer);
 
-      // Create blob and play - use MP3 MIME type
-      const audioBlob = new Blob([arrayBuffer], { type: 'audio/mpeg' });
+      // Create blob and play - use the provider's MIME type (MP3 unless a local command outputs WAV)
+      const audioBlob = new Blob([arrayBuffer], { type: getTTSProvider(this.settings).audioMimeType });
       const audioUrl = URL.createObjectURL(audioBlob);
 
       this.audioElement.src = audioUrl;
@@ -974,6 +1100,12 @@ export class AudioPlaybackManager {
    * Pause current playback 
    */
   pausePlayback(): void {
+    if (this.speechPlayer.isActive()) {
+      this.speechPlayer.pause();
+      this.isPaused = true;
+      this.updateStatusBarCallback(true);
+      return;
+    }
     if (this.audioElement && !this.audioElement.paused) {
       this.audioElement.pause();
     }
@@ -983,6 +1115,14 @@ export class AudioPlaybackManager {
    * Resume paused playback
    */
   resumePlayback(): void {
+    if (this.speechPlayer.isActive()) {
+      this.speechPlayer.resume();
+      this.isPaused = false;
+      this.updateStatusBarCallback(true);
+      return;
+    }
+    // The next chunk starts by itself once it's synthesized
+    if (this.isAwaitingBlobChunk && !this.allBlobChunksQueued) return;
     if (this.audioElement && this.audioElement.paused) {
       this.audioElement.play().catch(e => console.error("Error resuming playback:", e));
     }
@@ -997,13 +1137,28 @@ export class AudioPlaybackManager {
   }
 
   private stopPlaybackInternal(): void {
+    this.saveResumePosition();
+    this.resumeSession = null;
+    this.chunkTimeline = [];
+    this.playedText = '';
     this.currentPlaybackId++; // Invalidate ongoing TTS fetches or MSE operations
     this.isStreamingWithMSE = false;
     this.isSwitchingToFullFile = false;
     this.streamedPlaybackTimeBeforeSwitch = 0;
     this.mseAudioQueue = [];
     this.isAppendingBuffer = false;
+    if (this.isPlayingBlobChunks && this.audioElement.src.startsWith('blob:')) {
+      URL.revokeObjectURL(this.audioElement.src);
+    }
+    this.isPlayingBlobChunks = false;
+    this.blobChunkQueue = [];
+    this.blobChunkStartTime = 0;
+    this.isAwaitingBlobChunk = false;
+    this.allBlobChunksQueued = false;
     this.cancelSleepTimer(); // Cancel sleep timer when stopping
+    this.speechPlayer.stop();
+    this.isUsingSpeechSynthesis = false;
+    this.stopHighlightLoop(true);
 
     if (this.mediaSource) {
       if (this.mediaSource.readyState === 'open' && this.sourceBuffer && this.sourceBuffer.updating) {
@@ -1046,6 +1201,9 @@ export class AudioPlaybackManager {
       this.updateStatusBarCallback(false);
     }
     this.completeMp3BufferArray = []; // Clear the MP3 buffer
+    this.receivedAudioBytes = 0;
+    this.receivedAudioSeconds = 0;
+    this.playedAudioTrimmed = false;
 
     // Clear Media Session
     this.clearMediaSession();
@@ -1067,6 +1225,17 @@ export class AudioPlaybackManager {
    * Replays the current audio from the beginning.
    */
   replayPlayback(): void {
+    if (this.isUsingSpeechSynthesis) {
+      this.isPaused = false;
+      this.updateStatusBarCallback(true);
+      this.speechPlayer.restart();
+      return;
+    }
+    if ((this.playedAudioTrimmed || this.isPlayingBlobChunks) && this.lastPlayback) {
+      // The start of the stream (or the chunks played before the last one) is gone, so synthesize it again
+      this.startPlayback(this.lastPlayback.text, this.lastPlayback.options);
+      return;
+    }
     if (this.audioElement && this.audioElement.src && this.audioElement.duration > 0) {
       this.audioElement.currentTime = 0;
       this.isPaused = false; // Ensure onplay event sets correct UI state
@@ -1094,6 +1263,9 @@ export class AudioPlaybackManager {
    * Check if audio is currently playing
    */
   isPlaying(): boolean {
+    if (this.speechPlayer.isActive()) {
+      return !this.speechPlayer.isPaused();
+    }
     return this.audioElement !== null && !this.audioElement.paused;
   }
 
@@ -1101,6 +1273,10 @@ export class AudioPlaybackManager {
    * Jumps playback forward by a specified amount of time (default 10 seconds).
    */
   jumpForward(seconds = 10): void {
+    if (this.speechPlayer.isActive()) {
+      this.speechPlayer.seek(this.speechPlayer.getCurrentTime() + seconds);
+      return;
+    }
     if (this.audioElement && this.audioElement.duration > 0) {
       const newTime = Math.min(this.audioElement.currentTime + seconds, this.audioElement.duration);
       this.seekPlayback(newTime);
@@ -1111,17 +1287,105 @@ export class AudioPlaybackManager {
    * Jumps playback backward by a specified amount of time (default 10 seconds).
    */
   jumpBackward(seconds = 10): void {
+    if (this.speechPlayer.isActive()) {
+      this.speechPlayer.seek(Math.max(this.speechPlayer.getCurrentTime() - seconds, 0));
+      return;
+    }
     if (this.audioElement && this.audioElement.duration > 0) {
       const newTime = Math.max(this.audioElement.currentTime - seconds, 0);
       this.seekPlayback(newTime);
     }
   }
 
+  /**
+   * Skip to the next or previous sentence or paragraph. Word timings from the TTS provider
+   * place the skip precisely; without them it is estimated from where each chunk starts.
+   */
+  skipBy(unit: NavigationUnit, direction: 1 | -1): void {
+    if (this.isUsingSpeechSynthesis || !this.playedText || !this.audioElement.src) return;
+
+    const time = this.getPlaybackTime();
+    const { offset } = this.getSpokenPosition(this.playedText.length);
+    const starts = findUnitStarts(this.playedText, unit);
+    let target = findUnitStart(starts, offset, direction);
+
+    // Going back from just after the start of a sentence or paragraph goes to the one before it
+    if (direction === -1 && target !== null) {
+      const startTime = this.getTimeAtOffset(target);
+      if (startTime === null || time - startTime < RESTART_THRESHOLD_SECONDS) {
+        target = findUnitStart(starts, offset, -1, false);
+      }
+    }
+
+    if (target === null) {
+      if (direction === -1) this.seekToSessionTime(0, unit);
+      return;
+    }
+
+    const targetTime = this.getTimeAtOffset(target);
+    if (targetTime === null || targetTime > this.getBufferedAudioDuration()) {
+      if (shouldShowNotices(this.settings)) new Notice(`That ${unit} hasn't loaded yet.`);
+      return;
+    }
+    this.seekToSessionTime(targetTime, unit);
+  }
+
+  /**
+   * Seek to a time in the session's audio. Without MSE the audio element only holds the playing
+   * chunk: later chunks that were synthesized are skipped to, but earlier chunks' audio is gone.
+   */
+  private seekToSessionTime(time: number, unit: NavigationUnit): void {
+    if (!this.isPlayingBlobChunks) {
+      this.seekPlayback(time);
+      return;
+    }
+
+    if (time < this.blobChunkStartTime) {
+      if (shouldShowNotices(this.settings)) new Notice(`That ${unit} was played in an earlier part and is no longer loaded.`);
+      return;
+    }
+
+    // Drop the queued chunks before the one holding the time, and play that one
+    let index = -1;
+    for (let i = 0; i < this.blobChunkQueue.length && this.blobChunkQueue[i].startTime <= time; i++) index = i;
+    if (index === -1) {
+      this.seekPlayback(time - this.blobChunkStartTime);
+      return;
+    }
+    this.blobChunkQueue.splice(0, index);
+    this.playNextBlobChunk();
+    const chunkTime = time - this.blobChunkStartTime;
+    this.audioElement.addEventListener('loadedmetadata', () => this.seekPlayback(chunkTime), { once: true });
+  }
+
+  /**
+   * Playback time at which the given position in the played text is spoken: from word timings,
+   * or else interpolated between chunk starts and, once all audio is loaded, its end
+   */
+  private getTimeAtOffset(offset: number): number | null {
+    const wordTime = this.highlighter.getTimeAtOffset(offset);
+    if (wordTime !== null) return wordTime;
+
+    const points = [{ time: 0, offset: 0 }, ...this.chunkTimeline];
+    const duration = this.audioElement.duration;
+    // Without MSE the audio element only holds the playing chunk, so its duration isn't the session's
+    const isStillLoading = (this.mediaSource !== null && this.mediaSource.readyState === 'open') || this.isPlayingBlobChunks;
+    if (!isStillLoading && isFinite(duration) && duration > 0) {
+      points.push({ time: duration, offset: this.playedText.length });
+    }
+
+    const before = points.filter(point => point.offset <= offset).pop();
+    const after = points.find(point => point.offset > offset);
+    if (!before || !after) return null;
+    return before.time + (offset - before.offset) / (after.offset - before.offset) * (after.time - before.time);
+  }
+
   /**
    * Update settings reference
    */
   updateSettings(settings: EdgeTTSPluginSettings): void {
     this.settings = settings;
+    this.highlighter.updateSettings(settings);
 
     // Re-initialize Media Session if experimental features were toggled
     this.initializeMediaSession();
@@ -1132,8 +1396,14 @@ export class AudioPlaybackManager {
    * @param time Time in seconds to seek to
    */
   seekPlayback(time: number): void {
+    if (this.speechPlayer.isActive()) {
+      this.speechPlayer.seek(time);
+      return;
+    }
     if (this.audioElement && this.audioElement.seekable && this.audioElement.seekable.length > 0) {
-      const newTime = Math.max(0, Math.min(time, this.audioElement.duration));
+      // Audio trimmed from the start of a long stream can't be played again
+      const earliestTime = this.playedAudioTrimmed && this.sourceBuffer?.buffered.length ? this.sourceBuffer.buffered.start(0) : 0;
+      const newTime = Math.max(earliestTime, Math.min(time, this.audioElement.duration));
       if (isFinite(newTime) && isFinite(this.audioElement.duration) && this.audioElement.duration > 0) {
         this.audioElement.currentTime = newTime;
       } else {
@@ -1158,6 +1428,210 @@ export class AudioPlaybackManager {
     }
   }
 
+  /**
+   * Length in seconds of the audio received so far in this session
+   */
+  private getBufferedAudioDuration(): number {
+    return this.receivedAudioSeconds;
+  }
+
+  /**
+   * Length in seconds of complete audio in the provider's format: from the header of WAV,
+   * and from the size of MP3, which is constant bitrate
+   */
+  private getAudioDuration(data: Uint8Array[]): number {
+    if (getTTSProvider(this.settings).audioMimeType === 'audio/wav') {
+      const duration = getWavDuration(data);
+      if (duration !== null) return duration;
+    }
+    return data.reduce((sum, part) => sum + part.length, 0) / MP3_BYTES_PER_SECOND;
+  }
+
+  /**
+   * Position in seconds in the session's audio. Without MSE, chunked playback starts
+   * the audio element's time from zero for each chunk.
+   */
+  private getPlaybackTime(): number {
+    return this.blobChunkStartTime + this.audioElement.currentTime;
+  }
+
+  /**
+   * Remove audio that was played a while ago from a long stream, so the MediaSource
+   * doesn't run out of space. Removes in batches to avoid constant small updates.
+   */
+  private trimPlayedAudio(): void {
+    const sourceBuffer = this.sourceBuffer;
+    if (!sourceBuffer || sourceBuffer.updating || this.isAppendingBuffer || sourceBuffer.buffered.length === 0) return;
+
+    const trimEnd = this.audioElement.currentTime - PLAYED_AUDIO_KEPT_SECONDS;
+    if (trimEnd - sourceBuffer.buffered.start(0) < PLAYED_AUDIO_KEPT_SECONDS) return;
+
+    try {
+      // Appends wait until the removal's updateend, like they do for other appends
+      this.isAppendingBuffer = true;
+      sourceBuffer.remove(0, trimEnd);
+      this.playedAudioTrimmed = true;
+    } catch (e) {
+      this.isAppendingBuffer = false;
+      console.warn('Error removing played audio from the stream:', e);
+    }
+  }
+
+  /**
+   * Wait until playback is close enough to the end of the synthesized audio to synthesize
+   * the next chunk. Resolves false if the playback was stopped meanwhile.
+   * @param chunkStartTimes Start time of each chunk synthesized so far
+   */
+  private async waitForPlaybackToCatchUp(chunkStartTimes: number[], activePlaybackAttemptId: number): Promise<boolean> {
+    while (this.currentPlaybackId === activePlaybackAttemptId) {
+      const currentTime = this.getPlaybackTime();
+      const chunksAhead = chunkStartTimes.filter(time => time > currentTime).length;
+      if (chunksAhead < STREAM_CHUNKS_AHEAD) return true;
+
+      this.trimPlayedAudio();
+      await new Promise(resolve => setTimeout(resolve, 500));
+    }
+    return false;
+  }
+
+  /**
+   * Keep the editor highlight in sync with the audio while it plays
+   */
+  private startHighlightLoop(): void {
+    if (this.highlightFrame !== null || this.settings.highlightMode === 'off') return;
+
+    const step = () => {
+      this.highlighter.update(this.getPlaybackTime());
+      this.highlightFrame = window.requestAnimationFrame(step);
+    };
+    this.highlightFrame = window.requestAnimationFrame(step);
+  }
+
+  private stopHighlightLoop(clearHighlight: boolean): void {
+    if (this.highlightFrame !== null) {
+      window.cancelAnimationFrame(this.highlightFrame);
+      this.highlightFrame = null;
+    }
+    if (clearHighlight) {
+      this.highlighter.clear();
+    }
+  }
+
+  /**
+   * Offset into the played text of what is being spoken, and the chunk being played in chunked playback
+   */
+  private getSpokenPosition(textLength: number): { offset: number, chunkIndex?: number } {
+    if (this.isUsingSpeechSynthesis) {
+      const duration = this.speechPlayer.getDuration();
+      return { offset: duration > 0 ? Math.floor(this.speechPlayer.getCurrentTime() / duration * textLength) : 0 };
+    }
+
+    const time = this.getPlaybackTime();
+    let chunk: { time: number, offset: number, index: number } | undefined;
+    for (const entry of this.chunkTimeline) {
+      if (entry.time > time) break;
+      chunk = entry;
+    }
+
+    // Word timings are exact; otherwise use the chunk start, or estimate from the playback progress
+    const wordOffset = this.highlighter.getSpokenOffset(time);
+    if (wordOffset !== null) return { offset: wordOffset, chunkIndex: chunk?.index };
+    if (chunk) return { offset: chunk.offset, chunkIndex: chunk.index };
+    const duration = this.audioElement.duration;
+    if (isFinite(duration) && duration > 0) return { offset: Math.floor(time / duration * textLength) };
+    return { offset: 0 };
+  }
+
+  /**
+   * Store the current reading position for the note being read
+   */
+  private saveResumePosition(): void {
+    this.lastResumeSave = Date.now();
+    const session = this.resumeSession;
+    if (!session || !this.resumePositionCallback) return;
+
+    const position = this.getSpokenPosition(session.cleanText.length - session.startOffset);
+    const offset = Math.min(session.startOffset + position.offset, session.cleanText.length);
+    this.resumePositionCallback(session.filePath, createResumePosition(session.cleanText, offset, position.chunkIndex));
+  }
+
+  /**
+   * Forget the reading position of a note that was read to the end
+   */
+  private clearResumePosition(): void {
+    if (this.resumeSession && this.resumePositionCallback) {
+      this.resumePositionCallback(this.resumeSession.filePath, null);
+    }
+    this.resumeSession = null;
+  }
+
+  /**
+   * Fall back to the system voice after the TTS provider failed, if enabled in settings,
+   * from where playback got to. Returns true if the fallback took over playback.
+   */
+  private tryWebSpeechFallback(cleanText: string): boolean {
+    if (this.settings.webSpeechFallback === 'off' || !isSpeechSynthesisSupported()) {
+      return false;
+    }
+
+    // Continue from the start of the sentence being spoken, not from the start of the text
+    const { offset } = this.getSpokenPosition(cleanText.length);
+    const from = findUnitStart(findUnitStarts(cleanText, 'sentence'), offset, -1) ?? 0;
+
+    // Release the failed stream before speaking, but keep tracking the reading position
+    const resumeSession = this.resumeSession;
+    this.stopPlaybackInternal();
+    this.resumeSession = resumeSession && { ...resumeSession, startOffset: resumeSession.startOffset + from };
+    if (shouldShowNotices(this.settings)) new Notice('Could not generate audio. Reading with the system voice instead.');
+    return this.startSpeechSynthesisPlayback(cleanText.slice(from));
+  }
+
+  /**
+   * Read cleaned text with the browser's speechSynthesis voices.
+   * Returns false if speechSynthesis is not available.
+   */
+  private startSpeechSynthesisPlayback(cleanText: string): boolean {
+    if (!isSpeechSynthesisSupported()) {
+      return false;
+    }
+
+    this.isStreamingWithMSE = false;
+    this.isUsingSpeechSynthesis = true;
+    this.isPaused = false;
+    this.showFloatingPlayerCallback({ currentTime: 0, duration: 0, isPlaying: true, isLoading: false });
+    this.updateStatusBarCallback(true);
+
+    // Use a system voice matching the locale of the configured voice (e.g. "en-US" from "en-US-AvaNeural")
+    const localeMatch = getTTSProvider(this.settings).getDefaultVoice().match(/^([a-z]{2,3}-[A-Za-z]{2,4})-/);
+    this.speechPlayer.start(cleanText, resolveProsody(this.settings, this.noteOverrides).rate, localeMatch ? localeMatch[1] : undefined);
+    return true;
+  }
+
+  /**
+   * Mirrors the audio element's onended handling for system voice playback
+   */
+  private handleSpeechSynthesisEnded(): void {
+    this.clearResumePosition();
+    if (shouldShowNotices(this.settings)) new Notice('Finished reading aloud.');
+
+    // Check if we should play next item in queue
+    if (this.isPlayingFromQueue) {
+      setTimeout(() => this.playNextInQueue(), 1000);
+      return;
+    }
+
+    if (this.settings.enableReplayOption && !this.settings.disablePlaybackControlPopover) {
+      const duration = this.speechPlayer.getDuration();
+      this.isPaused = true;
+      this.updateStatusBarCallback(false);
+      this.updateFloatingPlayerCallback({ currentTime: duration, duration, isPlaying: false, isLoading: false });
+    } else {
+      this.isUsingSpeechSynthesis = false;
+      this.resetPlaybackStateAndHidePlayer();
+      this.updateStatusBarCallback(false);
+    }
+  }
+
   /**
    * Setter for floating player callbacks, to avoid circular dependency issues during instantiation.
    */
@@ -1183,6 +1657,20 @@ export class AudioPlaybackManager {
     };
   }
 
+  /**
+   * Set callback for storing reading positions (null removes the stored position)
+   */
+  public setResumePositionCallback(callback: (filePath: string, position: ResumePosition | null) => void): void {
+    this.resumePositionCallback = callback;
+  }
+
+  /**
+   * Whether the note at the given path is being read
+   */
+  isReadingFile(filePath: string): boolean {
+    return this.resumeSession?.filePath === filePath;
+  }
+
   /**
    * Set callback for queue changes
    */
@@ -1218,8 +1706,8 @@ export class AudioPlaybackManager {
   /**
    * Add text to playback queue
    */
-  addToQueue(text: string, title?: string): void {
-    this.playbackQueue.push({ text, title });
+  addToQueue(text: string, title?: string, filePath?: string): void {
+    this.playbackQueue.push({ text, title, filePath });
     if (this.settings.showNotices) {
       new Notice(`Added "${title || 'text'}" to playback queue (${this.playbackQueue.length} items)`);
     }
@@ -1277,7 +1765,20 @@ export class AudioPlaybackManager {
       if (this.settings.showNotices) {
         new Notice(`Playing ${this.currentQueueIndex + 1}/${this.playbackQueue.length}: ${item.title || 'Untitled'}`);
       }
-      await this.startPlayback(item.text);
+      const overrides = getNoteOverrides(this.app, item.filePath);
+      // Notes marked "tts-skip: true" are passed over
+      if (overrides.skip) {
+        if (this.playbackQueue.every(queued => getNoteOverrides(this.app, queued.filePath).skip)) {
+          this.isPlayingFromQueue = false;
+          this.currentQueueIndex = -1;
+          this.notifyQueueUIUpdate();
+          if (this.settings.showNotices) new Notice('Every note in the queue is marked tts-skip.');
+          return;
+        }
+        await this.playNextInQueue();
+        return;
+      }
+      await this.startPlayback(item.text, { overrides });
     }
   }
 
@@ -1445,7 +1946,9 @@ export class AudioPlaybackManager {
   }
 
   /**
-   * Process chunked playback for text exceeding 4096 bytes
+   * Process chunked playback for text exceeding 4096 bytes. The chunks form a pipeline, so notes
+   * of any length play without holding all their audio: with MSE they're streamed, and without it
+   * each chunk plays as a file of its own once it's synthesized.
    */
   private async processChunkedPlayback(cleanText: string, activePlaybackAttemptId: number, useMSE: boolean): Promise<void> {
     try {
@@ -1462,19 +1965,48 @@ export class AudioPlaybackManager {
       if (shouldShowNotices(this.settings)) {
         new Notice(`Playing ${textChunks.length} chunks of text...`);
       }
+      if (!useMSE) {
+        this.isPlayingBlobChunks = true;
+        this.isAwaitingBlobChunk = true; // The first chunk plays as soon as it's synthesized
+      }
 
-      // Process each chunk sequentially
+      // Process each chunk in order, synthesizing only a few chunks ahead of playback.
+      // The chunks after the current one are synthesized alongside it, so they're ready in time.
+      let chunkSearchFrom = 0;
+      const chunkStartTimes: number[] = [];
+      const concurrency = getChunkConcurrency(this.settings);
+      const prefetched = new Map<number, Promise<SynthesizedChunk>>();
       for (let i = 0; i < textChunks.length; i++) {
+        if (!(await this.waitForPlaybackToCatchUp(chunkStartTimes, activePlaybackAttemptId))) {
+          return; // Playback was stopped
+        }
         if (this.currentPlaybackId !== activePlaybackAttemptId) {
           return; // Playback was stopped
         }
+        chunkStartTimes.push(this.getBufferedAudioDuration());
 
         const chunk = textChunks[i];
 
-        if (useMSE) {
-          await this.processChunkMSE(chunk, activePlaybackAttemptId, i === 0);
+        // Remember where the chunk starts in the text and on the timeline, for resuming
+        const chunkOffset = cleanText.indexOf(stripSpeakerMarkers(chunk).slice(0, 30), chunkSearchFrom);
+        if (chunkOffset !== -1) {
+          chunkSearchFrom = chunkOffset;
+          this.chunkTimeline.push({ time: this.getBufferedAudioDuration(), offset: chunkOffset, index: i });
+        }
+
+        for (let next = i + 1; next < Math.min(i + concurrency, textChunks.length); next++) {
+          if (!prefetched.has(next)) prefetched.set(next, this.prefetchChunk(textChunks[next]));
+        }
+
+        // Without MSE a chunk can only play once all its audio is there
+        const prefetchedChunk = prefetched.get(i) || (useMSE ? undefined : this.prefetchChunk(chunk));
+        if (prefetchedChunk) {
+          prefetched.delete(i);
+          const audio = await prefetchedChunk;
+          if (this.currentPlaybackId !== activePlaybackAttemptId) return;
+          this.appendSynthesizedChunk(audio, activePlaybackAttemptId, useMSE);
         } else {
-          await this.processChunkFallback(chunk, activePlaybackAttemptId, i === 0);
+          await this.streamChunk(chunk, activePlaybackAttemptId, i === 0);
         }
       }
 
@@ -1482,181 +2014,179 @@ export class AudioPlaybackManager {
       if (useMSE) {
         await this.finishMSEPlayback(activePlaybackAttemptId);
       } else {
-        await this.finishFallbackPlayback(activePlaybackAttemptId);
+        this.finishBlobChunkPlayback();
       }
 
     } catch (error) {
       console.error('Error in chunked playback:', error);
+      if (this.currentPlaybackId !== activePlaybackAttemptId) return; // A newer playback took over
+      if (this.tryWebSpeechFallback(cleanText)) return;
       if (shouldShowNotices(this.settings)) {
         new Notice('Error processing chunked audio playback.');
       }
-      if (!this.settings.disablePlaybackControlPopover) {
-        this.hideFloatingPlayerCallback();
-      }
-      this.isStreamingWithMSE = false;
+      // End the session, so the chunk still playing doesn't wait for chunks that won't come
+      this.stopPlaybackInternal();
     }
   }
 
   /**
-   * Split text into chunks of max 4096 bytes each
+   * Split text into chunks that fit in a single request to the TTS provider
    */
   private splitTextIntoChunks(text: string): string[] {
-    const maxBytes = 4096 - 100; // Safety buffer
-    const chunks: string[] = [];
-    let currentChunk = '';
-
-    // Helper function to get byte size
-    const getByteSize = (str: string): number => new Blob([str]).size;
-
-    // Split by paragraphs first
-    const paragraphs = text.split(/\n\s*\n/);
-
-    for (const paragraph of paragraphs) {
-      if (getByteSize(paragraph) > maxBytes) {
-        // If current chunk has content, save it
-        if (currentChunk.trim()) {
-          chunks.push(currentChunk.trim());
-          currentChunk = '';
-        }
-
-        // Split large paragraph by sentences
-        const sentences = paragraph.split(/(?<=[.!?])\s+/);
-        for (const sentence of sentences) {
-          if (getByteSize(sentence) > maxBytes) {
-            // Split very long sentences by words
-            const words = sentence.split(/\s+/);
-            let wordChunk = '';
-
-            for (const word of words) {
-              const potentialChunk = wordChunk + (wordChunk ? ' ' : '') + word;
-              if (getByteSize(potentialChunk) > maxBytes) {
-                if (wordChunk.trim()) {
-                  chunks.push(wordChunk.trim());
-                }
-                wordChunk = word;
-              } else {
-                wordChunk = potentialChunk;
-              }
-            }
+    const maxBytes = getTTSProvider(this.settings).limits.maxTextBytes - 100; // Safety buffer
+    return splitTextIntoChunks(text, maxBytes, isLanguageSwitchingEnabled(this.settings));
+  }
 
-            if (wordChunk.trim()) {
-              currentChunk = wordChunk.trim();
-            }
-          } else {
-            const potentialChunk = currentChunk + (currentChunk ? ' ' : '') + sentence;
-            if (getByteSize(potentialChunk) > maxBytes) {
-              if (currentChunk.trim()) {
-                chunks.push(currentChunk.trim());
-              }
-              currentChunk = sentence;
-            } else {
-              currentChunk = potentialChunk;
-            }
-          }
-        }
-      } else {
-        const potentialChunk = currentChunk + (currentChunk ? '\n\n' : '') + paragraph;
-        if (getByteSize(potentialChunk) > maxBytes && currentChunk.trim()) {
-          chunks.push(currentChunk.trim());
-          currentChunk = paragraph;
-        } else {
-          currentChunk = potentialChunk;
-        }
-      }
-    }
+  /**
+   * Stream a chunk's audio as it arrives, retrying if it fails before any audio was received
+   * (audio that was already played or buffered can't be taken back)
+   */
+  private async streamChunk(chunk: string, activePlaybackAttemptId: number, isFirstChunk: boolean): Promise<void> {
+    const bytesBefore = this.receivedAudioBytes;
+    await withRetry(() => this.processChunkMSE(chunk, activePlaybackAttemptId, isFirstChunk), CHUNK_RETRIES, {
+      shouldRetry: (error) => this.receivedAudioBytes === bytesBefore && this.currentPlaybackId === activePlaybackAttemptId && isRetryableTTSError(error, chunk),
+      delayMs: getRetryDelay,
+      onRetry: (error, attempt) => console.warn(`Retrying chunk (attempt ${attempt} of ${CHUNK_RETRIES}):`, error),
+    });
+  }
 
-    // Add final chunk
-    if (currentChunk.trim()) {
-      chunks.push(currentChunk.trim());
-    }
+  /**
+   * Synthesize a chunk ahead of playback, retrying if it fails
+   */
+  private prefetchChunk(chunk: string): Promise<SynthesizedChunk> {
+    const provider = getTTSProvider(this.settings);
+    const { text, voice } = resolveChunkVoice(chunk, this.settings, provider, this.noteOverrides);
+    const synthesize = () => synthesizeChunk(provider, text, {
+      voice,
+      outputFormat: OUTPUT_FORMAT.AUDIO_24KHZ_48KBITRATE_MONO_MP3,
+      ...resolveProsody(this.settings, this.noteOverrides)
+    });
 
-    return chunks;
+    const audio = withRetry(synthesize, CHUNK_RETRIES, {
+      shouldRetry: (error) => isRetryableTTSError(error, text),
+      delayMs: getRetryDelay,
+      onRetry: (error, attempt) => console.warn(`Retrying prefetched chunk (attempt ${attempt} of ${CHUNK_RETRIES}):`, error),
+    });
+    // The result is only awaited once the chunk's turn comes, so don't report a failure as unhandled before then
+    audio.catch(() => undefined);
+    return audio;
   }
 
   /**
-   * Process a single chunk with MSE
+   * Add the audio of a prefetched chunk after the audio received so far
    */
-  private async processChunkMSE(chunk: string, activePlaybackAttemptId: number, isFirstChunk: boolean): Promise<void> {
-    return new Promise((resolve, reject) => {
-      try {
-        const tts = new EdgeTTSClient();
-        const voiceToUse = this.settings.customVoice.trim() || this.settings.selectedVoice;
-
-        tts.setMetadata(voiceToUse, OUTPUT_FORMAT.AUDIO_24KHZ_48KBITRATE_MONO_MP3).then(() => {
-          const prosodyOptions = new ProsodyOptions();
-          prosodyOptions.rate = this.settings.playbackSpeed;
+  private appendSynthesizedChunk(audio: SynthesizedChunk, activePlaybackAttemptId: number, useMSE: boolean): void {
+    const chunkStartTime = this.getBufferedAudioDuration();
+    for (const boundary of audio.boundaries) {
+      this.highlighter.addBoundary(boundary, chunkStartTime);
+    }
 
-          const readable = tts.toStream(chunk, prosodyOptions);
+    for (const data of audio.data) {
+      this.receivedAudioBytes += data.length;
+      if (useMSE) this.mseAudioQueue.push(data);
+    }
+    this.receivedAudioSeconds += this.getAudioDuration(audio.data);
 
-          readable.on('data', (data: Uint8Array) => {
-            if (this.currentPlaybackId !== activePlaybackAttemptId) {
-              return;
-            }
-            this.completeMp3BufferArray.push(data);
-            this.mseAudioQueue.push(data);
+    if (useMSE) {
+      if (!this.sourceBuffer) this.setupMSEForChunks(activePlaybackAttemptId);
+      this.appendNextChunkToSourceBuffer();
+    } else if (audio.data.length > 0) {
+      this.blobChunkQueue.push({ data: audio.data, startTime: chunkStartTime });
+      if (this.isAwaitingBlobChunk) this.playNextBlobChunk();
+    }
+  }
 
-            // Set up MSE if this is the first chunk
-            if (isFirstChunk && !this.sourceBuffer) {
-              this.setupMSEForChunks(activePlaybackAttemptId);
-            }
+  /**
+   * Play the next chunk of chunked playback without MSE. Returns false if it hasn't been synthesized yet.
+   */
+  private playNextBlobChunk(): boolean {
+    const next = this.blobChunkQueue.shift();
+    if (!next) {
+      this.isAwaitingBlobChunk = true;
+      return false;
+    }
+    this.isAwaitingBlobChunk = false;
 
-            this.appendNextChunkToSourceBuffer();
-          });
+    if (this.audioElement.src.startsWith('blob:')) {
+      URL.revokeObjectURL(this.audioElement.src);
+    }
+    const audioBlob = new Blob(next.data.map(data => toArrayBuffer(data)), { type: getTTSProvider(this.settings).audioMimeType });
+    this.blobChunkStartTime = next.startTime;
+    this.audioElement.src = URL.createObjectURL(audioBlob);
+    this.audioElement.play().catch(error => {
+      console.error('Error starting chunk playback:', error);
+      if (this.settings.showNotices) new Notice('Error starting audio playback.');
+      this.stopPlaybackInternal();
+    });
+    return true;
+  }
 
-          readable.on('end', () => {
-            resolve();
-          });
+  /**
+   * All chunks of chunked playback without MSE were synthesized
+   */
+  private finishBlobChunkPlayback(): void {
+    this.allBlobChunksQueued = true;
 
-          // Add error handling if possible
-          try {
-            (readable as any).on('error', (error: any) => {
-              reject(error);
-            });
-          } catch (e) {
-            // Error listener couldn't be attached, continue
-          }
-        });
-      } catch (error) {
-        reject(error);
-      }
-    });
+    if (this.receivedAudioBytes === 0) {
+      if (this.settings.showNotices) new Notice('TTS stream was empty.');
+      this.stopPlaybackInternal();
+      return;
+    }
+    // The last chunk with audio already ended while the remaining chunks were synthesized
+    if (this.isAwaitingBlobChunk) {
+      this.audioElement.dispatchEvent(new Event('ended'));
+    }
   }
 
   /**
-   * Process a single chunk with fallback method
+   * Process a single chunk with MSE
    */
-  private async processChunkFallback(chunk: string, activePlaybackAttemptId: number, isFirstChunk: boolean): Promise<void> {
+  private async processChunkMSE(chunk: string, activePlaybackAttemptId: number, isFirstChunk: boolean): Promise<void> {
+    const chunkStartTime = this.getBufferedAudioDuration();
     return new Promise((resolve, reject) => {
       try {
-        const tts = new EdgeTTSClient();
-        const voiceToUse = this.settings.customVoice.trim() || this.settings.selectedVoice;
+        const provider = getTTSProvider(this.settings);
+        const { text, voice } = resolveChunkVoice(chunk, this.settings, provider, this.noteOverrides);
+        const readable = provider.synthesizeStream(text, {
+          voice,
+          outputFormat: OUTPUT_FORMAT.AUDIO_24KHZ_48KBITRATE_MONO_MP3,
+          ...resolveProsody(this.settings, this.noteOverrides)
+        });
 
-        tts.setMetadata(voiceToUse, OUTPUT_FORMAT.AUDIO_24KHZ_48KBITRATE_MONO_MP3).then(() => {
-          const prosodyOptions = new ProsodyOptions();
-          prosodyOptions.rate = this.settings.playbackSpeed;
+        readable.on('data', (data: Uint8Array) => {
+          if (this.currentPlaybackId !== activePlaybackAttemptId) {
+            return;
+          }
+          // Streamed audio isn't kept after it's appended, so long notes don't pile up in memory
+          this.receivedAudioBytes += data.length;
+          this.receivedAudioSeconds += data.length / MP3_BYTES_PER_SECOND;
+          this.mseAudioQueue.push(data);
 
-          const readable = tts.toStream(chunk, prosodyOptions);
+          // Set up MSE if this is the first chunk
+          if (isFirstChunk && !this.sourceBuffer) {
+            this.setupMSEForChunks(activePlaybackAttemptId);
+          }
 
-          readable.on('data', (data: Uint8Array) => {
-            if (this.currentPlaybackId !== activePlaybackAttemptId) {
-              return;
-            }
-            this.completeMp3BufferArray.push(data);
-          });
+          this.appendNextChunkToSourceBuffer();
+        });
 
-          readable.on('end', () => {
-            resolve();
-          });
+        readable.on('boundary', (boundary) => {
+          if (this.currentPlaybackId !== activePlaybackAttemptId) return;
+          this.highlighter.addBoundary(boundary, chunkStartTime);
+        });
 
-          // Add error handling if possible
-          try {
-            (readable as any).on('error', (error: any) => {
-              reject(error);
-            });
-          } catch (e) {
-            // Error listener couldn't be attached, continue
-          }
+        readable.on('end', () => {
+          resolve();
         });
+
+        // Add error handling if possible
+        try {
+          (readable as any).on('error', (error: any) => {
+            reject(error);
+          });
+        } catch (e) {
+          // Error listener couldn't be attached, continue
+        }
       } catch (error) {
         reject(error);
       }
@@ -0,0 +1,68 @@
+import { afterEach, describe, expect, it, vi } from 'vitest';
+import { synthesizeChunk } from './chunk-synthesis';
+import { TTSStreamEmitter } from './tts-provider';
+import type { TTSProvider } from './tts-provider';
+
+// Provider whose streams are driven by the test
+function createProvider(produce: (emitter: TTSStreamEmitter) => Promise<void>): { provider: TTSProvider, streams: TTSStreamEmitter[] } {
+  const streams: TTSStreamEmitter[] = [];
+  const provider: TTSProvider = {
+    id: 'test',
+    name: 'Test',
+    supportedFormats: ['mp3'],
+    limits: { maxTextBytes: 1000 },
+    audioMimeType: 'audio/mpeg',
+    getDefaultVoice: () => 'voice',
+    listVoices: async () => [],
+    synthesizeStream: () => {
+      const stream = new TTSStreamEmitter(produce);
+      streams.push(stream);
+      return stream;
+    },
+  };
+  return { provider, streams };
+}
+
+describe('synthesizeChunk', () => {
+  afterEach(() => {
+    vi.useRealTimers();
+  });
+
+  it('collects the audio and word boundaries of a chunk', async () => {
+    const { provider } = createProvider(async (emitter) => {
+      // Like a real provider, answer after the listeners are attached
+      await Promise.resolve();
+      emitter.emit('boundary', { offset: 0, duration: 0.5, text: 'Hello' });
+      emitter.emit('data', new Uint8Array([1, 2]));
+      emitter.emit('data', new Uint8Array([3]));
+      emitter.emit('end');
+    });
+
+    const received: number[] = [];
+    const chunk = await synthesizeChunk(provider, 'Hello', { outputFormat: 'mp3' }, bytes => received.push(bytes));
+    expect(chunk.data.map(data => Array.from(data))).toEqual([[1, 2], [3]]);
+    expect(chunk.boundaries).toEqual([{ offset: 0, duration: 0.5, text: 'Hello' }]);
+    expect(received).toEqual([2, 3]);
+  });
+
+  it('rejects with the stream error', async () => {
+    const { provider } = createProvider(async () => {
+      throw new Error('socket closed');
+    });
+    vi.spyOn(console, 'error').mockImplementation(() => undefined);
+
+    await expect(synthesizeChunk(provider, 'Hello', { outputFormat: 'mp3' })).rejects.toThrow('socket closed');
+  });
+
+  it('cancels the stream when the service does not answer in time', async () => {
+    vi.useFakeTimers();
+    const { provider, streams } = createProvider(() => new Promise<void>(() => undefined));
+
+    const result = synthesizeChunk(provider, 'Hello', { outputFormat: 'mp3' });
+    const rejected = expect(result).rejects.toThrow('Timed out');
+    await vi.advanceTimersByTimeAsync(120000);
+    await rejected;
+
+    expect(streams[0].isCancelled).toBe(true);
+  });
+});
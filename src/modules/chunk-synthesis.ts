@@ -0,0 +1,78 @@
+import type { EdgeTTSPluginSettings } from './settings';
+import type { TTSAudioStream, TTSProvider, TTSSynthesisOptions, TTSWordBoundary } from './tts-provider';
+
+/**
+ * Audio of a fully synthesized chunk, with the timing of its words
+ */
+export interface SynthesizedChunk {
+  data: Uint8Array[];
+  boundaries: TTSWordBoundary[]; // Relative to the start of the chunk
+}
+
+// Times a failed chunk is synthesized again before giving up on it
+export const CHUNK_RETRIES = 2;
+
+// Allowed range for the number of chunks synthesized at once
+export const MIN_CHUNK_CONCURRENCY = 1;
+export const MAX_CHUNK_CONCURRENCY = 4;
+
+// A chunk that takes longer than this to synthesize has failed
+const CHUNK_TIMEOUT_MS = 120000;
+
+/**
+ * Number of chunks to synthesize at once, as set in settings
+ */
+export function getChunkConcurrency(settings: EdgeTTSPluginSettings): number {
+  const concurrency = Math.round(settings.chunkConcurrency || MIN_CHUNK_CONCURRENCY);
+  return Math.max(MIN_CHUNK_CONCURRENCY, Math.min(MAX_CHUNK_CONCURRENCY, concurrency));
+}
+
+/**
+ * Synthesize a chunk of text and collect all of its audio
+ * @param onData Called with the number of bytes received so far, for progress reporting
+ */
+export function synthesizeChunk(
+  provider: TTSProvider,
+  text: string,
+  options: TTSSynthesisOptions,
+  onData?: (receivedBytes: number) => void
+): Promise<SynthesizedChunk> {
+  return new Promise((resolve, reject) => {
+    const chunk: SynthesizedChunk = { data: [], boundaries: [] };
+    let receivedBytes = 0;
+    let readable: TTSAudioStream | null = null;
+
+    const timeout = setTimeout(() => {
+      // Stop the request, so a retry doesn't run alongside it
+      readable?.cancel();
+      reject(new Error('Timed out waiting for the TTS service'));
+    }, CHUNK_TIMEOUT_MS);
+
+    try {
+      readable = provider.synthesizeStream(text, options);
+
+      readable.on('data', (data: Uint8Array) => {
+        chunk.data.push(data);
+        receivedBytes += data.length;
+        onData?.(receivedBytes);
+      });
+
+      readable.on('boundary', (boundary: TTSWordBoundary) => {
+        chunk.boundaries.push(boundary);
+      });
+
+      readable.on('end', () => {
+        clearTimeout(timeout);
+        resolve(chunk);
+      });
+
+      readable.on('error', (error: unknown) => {
+        clearTimeout(timeout);
+        reject(error instanceof Error ? error : new Error(String(error)));
+      });
+    } catch (error) {
+      clearTimeout(timeout);
+      reject(error);
+    }
+  });
+}
@@ -1,26 +1,31 @@
-import { UniversalTTSClient as EdgeTTSClient, OUTPUT_FORMAT, createProsodyOptions } from './tts-client-wrapper';
-
-// Create a ProsodyOptions class that matches the old API
-class ProsodyOptions {
-  rate?: number;
-
-  constructor() {
-    // Initialize with defaults
-  }
-}
+import { OUTPUT_FORMAT } from './tts-client-wrapper';
+import { getTTSProvider } from './tts-provider';
 import { EdgeTTSPluginSettings } from './settings';
 import { filterFrontmatter, filterMarkdown, checkAndTruncateContent } from '../utils';
+import { applyPronunciation } from './pronunciation';
 import { ChunkStatus } from '../ui/ChunkedProgressUI';
 import type { ChunkedProgressManager } from './ChunkedProgressManager';
 import { MP3_GENERATION_LIMITS } from './constants';
+import { resolveProsody, resolveTextFiltering } from './note-overrides';
+import type { NoteOverrides } from './note-overrides';
+import { isLanguageSwitchingEnabled } from './language-voices';
+import { resolveChunkVoice } from './speaker-voices';
+import { hasSpeakerMarkers } from '../lib/speakers';
+import { splitTextIntoChunks } from '../lib/text-chunks';
+import { mapWithConcurrency, withRetry } from '../lib/concurrency';
+import { CHUNK_RETRIES, getChunkConcurrency, synthesizeChunk } from './chunk-synthesis';
+import { classifyTTSError, describeTTSError, getRetryDelay, isRetryableTTSError } from './tts-errors';
+import type { TTSErrorKind } from './tts-errors';
 
 interface ChunkInfo {
   id: string;
   text: string;
+  voice?: string; // Voice for the chunk's speaker or language; the provider's voice when unset
   status: ChunkStatus;
   progress: number;
   buffer?: Buffer;
   error?: string;
+  errorKind?: TTSErrorKind; // Why the chunk's last attempt failed
 }
 
 export interface ChunkedGenerationOptions {
@@ -28,119 +33,60 @@ export interface ChunkedGenerationOptions {
   settings: EdgeTTSPluginSettings;
   progressManager: ChunkedProgressManager;
   noteTitle?: string;
+  overrides?: NoteOverrides; // Per-note settings from frontmatter
 }
 
+export const MP3_OUTPUT_REQUIRED_MESSAGE =
+  'The selected TTS provider does not output MP3 audio. Change its output format to MP3 to generate files.';
+
 export class ChunkedGenerator {
-  private static readonly MAX_CHUNK_BYTES = 4096; // 4096 bytes as enforced by TTS API
+  private static readonly DEFAULT_MAX_TEXT_BYTES = 4096; // Edge TTS's limit, for checks made without settings
   private static readonly SAFETY_BUFFER = 100; // Safety buffer for encoding differences
-  private static readonly EFFECTIVE_MAX_BYTES = ChunkedGenerator.MAX_CHUNK_BYTES - ChunkedGenerator.SAFETY_BUFFER;
 
   /**
-   * Split text into manageable chunks (max 4096 bytes) while trying to preserve sentence boundaries
+   * The text as it will be read, with the same filtering as the generated audio
    */
-  private static splitTextIntoChunks(text: string): string[] {
-    const maxBytes = ChunkedGenerator.EFFECTIVE_MAX_BYTES;
-    const chunks: string[] = [];
-    let currentChunk = '';
-
-    // Helper function to get byte size of a string
-    const getByteSize = (str: string): number => new Blob([str]).size;
-
-    // Split by paragraphs first to try to maintain logical breaks
-    const paragraphs = text.split(/\n\s*\n/);
-
-    for (const paragraph of paragraphs) {
-      // If a single paragraph is too long, we need to split it further
-      if (getByteSize(paragraph) > maxBytes) {
-        // If we have content in currentChunk, save it first
-        if (currentChunk.trim()) {
-          chunks.push(currentChunk.trim());
-          currentChunk = '';
-        }
-
-        // Split long paragraph by sentences
-        const sentences = paragraph.split(/(?<=[.!?])\s+/);
-
-        for (const sentence of sentences) {
-          if (getByteSize(sentence) > maxBytes) {
-            // If even a single sentence is too long, split by words
-            const words = sentence.split(/\s+/);
-            let wordChunk = '';
-
-            for (const word of words) {
-              const potentialChunk = wordChunk + (wordChunk ? ' ' : '') + word;
-              if (getByteSize(potentialChunk) > maxBytes) {
-                if (wordChunk.trim()) {
-                  chunks.push(wordChunk.trim());
-                }
-                wordChunk = word;
-              } else {
-                wordChunk = potentialChunk;
-              }
-            }
-
-            if (wordChunk.trim()) {
-              currentChunk = wordChunk.trim();
-            }
-          } else {
-            const potentialChunk = currentChunk + (currentChunk ? ' ' : '') + sentence;
-            if (getByteSize(potentialChunk) > maxBytes) {
-              if (currentChunk.trim()) {
-                chunks.push(currentChunk.trim());
-              }
-              currentChunk = sentence;
-            } else {
-              currentChunk = potentialChunk;
-            }
-          }
-        }
-      } else {
-        // Check if adding this paragraph would exceed the limit
-        const potentialChunk = currentChunk + (currentChunk ? '\n\n' : '') + paragraph;
-
-        if (getByteSize(potentialChunk) > maxBytes && currentChunk.trim()) {
-          // Save current chunk and start a new one
-          chunks.push(currentChunk.trim());
-          currentChunk = paragraph;
-        } else {
-          currentChunk = potentialChunk;
-        }
-      }
-    }
-
-    // Add the last chunk if it has content
-    if (currentChunk.trim()) {
-      chunks.push(currentChunk.trim());
-    }
-
-    return chunks.filter(chunk => chunk.trim().length > 0);
+  private static cleanText(text: string, settings?: EdgeTTSPluginSettings, overrides?: NoteOverrides): string {
+    return settings ?
+      applyPronunciation(filterMarkdown(
+        filterFrontmatter(text, settings.textFiltering.filterFrontmatter),
+        resolveTextFiltering(settings, overrides),
+        settings.symbolReplacement
+      ), settings) :
+      filterMarkdown(filterFrontmatter(text));
   }
 
   /**
-   * Check if text needs to be chunked (exceeds 4096 bytes)
+   * Check if text needs to be chunked (exceeds the provider's request size, or switches voices between languages or speakers)
    */
-  static needsChunking(text: string, settings?: EdgeTTSPluginSettings): boolean {
+  static needsChunking(text: string, settings?: EdgeTTSPluginSettings, overrides?: NoteOverrides): boolean {
     // Clean the text first to get accurate byte size
-    const cleanText = settings ?
-      filterMarkdown(
-        filterFrontmatter(text, settings.textFiltering.filterFrontmatter),
-        settings.textFiltering,
-        settings.symbolReplacement
-      ) :
-      filterMarkdown(filterFrontmatter(text));
+    const cleanText = ChunkedGenerator.cleanText(text, settings, overrides);
+
+    // Paragraphs in different languages or by different speakers are generated as separate chunks, each with its own voice
+    const maxBytes = ChunkedGenerator.getMaxChunkBytes(settings);
+    const switchesVoice = settings && (isLanguageSwitchingEnabled(settings) || hasSpeakerMarkers(cleanText));
+    if (switchesVoice && splitTextIntoChunks(cleanText, maxBytes, isLanguageSwitchingEnabled(settings!)).length > 1) {
+      return true;
+    }
 
     // Check byte size instead of character count
     const byteSize = new Blob([cleanText]).size;
-    return byteSize > ChunkedGenerator.EFFECTIVE_MAX_BYTES;
+    return byteSize > maxBytes;
   }
 
   /**
-   * Generate MP3 in chunks (4096 bytes each)
+   * Generate MP3 in chunks, each small enough for one request to the provider
    */
   static async generateChunkedMP3(options: ChunkedGenerationOptions): Promise<Buffer | null> {
-    const { text, settings, progressManager, noteTitle = 'Note' } = options;
+    const { text, settings, progressManager, noteTitle = 'Note', overrides } = options;
 
     try {
+      // The chunks are joined and saved as an .mp3 file, so other audio formats can't be used
+      if (getTTSProvider(settings).audioMimeType !== 'audio/mpeg') {
+        throw new Error(MP3_OUTPUT_REQUIRED_MESSAGE);
+      }
+
       // Check content limits and truncate if necessary
       const truncationResult = checkAndTruncateContent(text);
 
@@ -178,26 +124,23 @@ export class ChunkedGenerator {
         errorMessage: undefined // Clear any truncation message
       });
 
-      const cleanText = filterMarkdown(
-        filterFrontmatter(truncationResult.content, settings.textFiltering.filterFrontmatter),
-        settings.textFiltering,
-        settings.symbolReplacement
-      );
+      const cleanText = ChunkedGenerator.cleanText(truncationResult.content, settings, overrides);
 
       if (!cleanText.trim()) {
         throw new Error('No readable text after filtering');
       }
 
-      const textChunks = ChunkedGenerator.splitTextIntoChunks(cleanText);
+      const textChunks = splitTextIntoChunks(cleanText, ChunkedGenerator.getMaxChunkBytes(settings), isLanguageSwitchingEnabled(settings));
 
       if (textChunks.length === 0) {
         throw new Error('No valid chunks created from text');
       }
 
-      // Create chunk info objects
+      // Create chunk info objects, choosing each chunk's voice and removing its speaker marker
+      const provider = getTTSProvider(settings);
       const chunks: ChunkInfo[] = textChunks.map((chunkText, index) => ({
         id: `chunk-${index}`,
-        text: chunkText,
+        ...resolveChunkVoice(chunkText, settings, provider, overrides),
         status: ChunkStatus.PENDING,
         progress: 0
       }));
@@ -208,80 +151,49 @@ export class ChunkedGenerator {
         chunks: chunks
       });
 
-      // Phase 2: Generate audio for each chunk
-      const voiceToUse = settings.customVoice.trim() || settings.selectedVoice;
-      const outputFormat = OUTPUT_FORMAT.AUDIO_24KHZ_48KBITRATE_MONO_MP3;
-
-      const prosodyOptions = new ProsodyOptions();
-      prosodyOptions.rate = settings.playbackSpeed;
-
-      const audioBuffers: Buffer[] = [];
+      // Phase 2: Generate audio for each chunk, stitched into one MP3 below
+      const synthesisOptions = {
+        voice: provider.getDefaultVoice(),
+        outputFormat: OUTPUT_FORMAT.AUDIO_24KHZ_48KBITRATE_MONO_MP3,
+        ...resolveProsody(settings, overrides)
+      };
 
-      for (let i = 0; i < chunks.length; i++) {
+      // Generate one chunk, retrying transient errors. Returns null if it still failed.
+      const generateChunk = async (i: number): Promise<Buffer | null> => {
         const chunk = chunks[i];
 
         try {
           // Update chunk status to processing
           progressManager.updateChunk(chunk.id, {
             status: ChunkStatus.PROCESSING,
-            progress: 0
+            progress: 0,
+            error: undefined
           });
 
-          // Trigger progress recalculation
-          progressManager.updateState({});
-
-          const tts = new EdgeTTSClient();
-          await tts.setMetadata(voiceToUse, outputFormat);
-
-          const readable = tts.toStream(chunk.text, prosodyOptions);
-          const chunkBuffers: Uint8Array[] = [];
-
           // Track progress for this chunk
           const estimatedSize = chunk.text.length * 50; // Rough estimate
-          let receivedSize = 0;
-
-          readable.on('data', (data: Uint8Array) => {
-            chunkBuffers.push(data);
-            receivedSize += data.length;
-
-            // Update chunk progress (cap at 99% until complete)
-            const chunkProgress = Math.min(99, Math.floor((receivedSize / estimatedSize) * 100));
-            progressManager.updateChunk(chunk.id, { progress: chunkProgress });
-
-            // Trigger progress recalculation every 10% increment to avoid too many updates
-            if (chunkProgress % 10 === 0) {
-              progressManager.updateState({});
-            }
-          });
 
-          // Wait for chunk completion
-          const chunkBuffer = await new Promise<Buffer>((resolve, reject) => {
-            readable.on('end', () => {
-              const completeBuffer = Buffer.concat(chunkBuffers);
-              resolve(completeBuffer);
-            });
-
-            // Add error handling for the stream
-            const onError = (error: any) => {
-              console.error(`Stream error for chunk ${i + 1}:`, error);
-              reject(error);
-            };
-
-            // "error" does not exist as a valid event, given the edge-tts package
-            //    Keeping this code below in case that changes in the future.
-            // Try to attach error listener
-            try {
-              (readable as any).on('error', onError);
-            } catch (e) {
-              // If error listener can't be attached, that's okay
-              // console.warn('Could not attach error listener to TTS stream');
+          const audio = await withRetry(
+            () => synthesizeChunk(provider, chunk.text, {
+              ...synthesisOptions,
+              voice: chunk.voice || synthesisOptions.voice
+            }, (receivedSize) => {
+              // Update chunk progress (cap at 99% until complete)
+              const chunkProgress = Math.min(99, Math.floor((receivedSize / estimatedSize) * 100));
+              if (chunkProgress !== progressManager.getChunk(chunk.id)?.progress) {
+                progressManager.updateChunk(chunk.id, { progress: chunkProgress });
+              }
+            }),
+            CHUNK_RETRIES,
+            {
+              shouldRetry: (error) => isRetryableTTSError(error, chunk.text),
+              delayMs: getRetryDelay,
+              onRetry: (error, attempt) => {
+                console.warn(`Retrying chunk ${i + 1} (attempt ${attempt} of ${CHUNK_RETRIES}):`, error);
+                progressManager.updateChunk(chunk.id, { progress: 0 });
+              }
             }
-
-            // Timeout after 2 minutes for a single chunk
-            setTimeout(() => {
-              reject(new Error(`Timeout generating chunk ${i + 1}`));
-            }, 120000);
-          });
+          );
 
           // Mark chunk as completed
           progressManager.updateChunk(chunk.id, {
@@ -289,31 +201,47 @@ export class ChunkedGenerator {
             progress: 100
           });
 
-          // Force a state update to trigger progress recalculation
-          progressManager.updateState({});
-
-          audioBuffers.push(chunkBuffer);
+          return Buffer.concat(audio.data);
 
         } catch (error) {
           console.error(`Error generating chunk ${i + 1}:`, error);
+          chunk.errorKind = classifyTTSError(error, chunk.text);
           progressManager.updateChunk(chunk.id, {
             status: ChunkStatus.FAILED,
-            error: error instanceof Error ? error.message : 'Unknown error'
+            error: `Chunk ${i + 1}: ${describeTTSError(chunk.errorKind)}`
           });
-
-          // Continue with other chunks instead of failing completely
-          // We'll skip this chunk in the final combination
+          return null;
         }
+      };
+
+      // Several chunks are synthesized at once; their audio is combined in order below.
+      // Chunks that fail can be retried from the progress UI, without regenerating the others.
+      const audioBuffers: Array<Buffer | null> = chunks.map(() => null);
+      let pendingChunks = chunks.map((_, index) => index);
 
-        // Add a small delay between chunks to avoid overwhelming the service
-        if (i < chunks.length - 1) {
-          await new Promise(resolve => setTimeout(resolve, 500)); // 500ms delay
+      while (pendingChunks.length > 0) {
+        const batch = pendingChunks;
+        await mapWithConcurrency(batch.length, getChunkConcurrency(settings), async (n) => {
+          audioBuffers[batch[n]] = await generateChunk(batch[n]);
+        });
+
+        pendingChunks = batch.filter(index => audioBuffers[index] === null);
+        if (pendingChunks.length === 0) break;
+
+        progressManager.updateState({
+          currentPhase: 'error',
+          errorMessage: ChunkedGenerator.describeFailures(pendingChunks.map(index => chunks[index]), chunks.length)
+        });
+
+        if (!(await progressManager.waitForRetry())) {
+          // Closed without retrying
+          return null;
         }
-      }
 
-      // Check if we have any successful chunks
-      if (audioBuffers.length === 0) {
-        throw new Error('Failed to generate any audio chunks');
+        progressManager.updateState({
+          currentPhase: 'generating',
+          errorMessage: undefined
+        });
       }
 
       // Phase 3: Combine audio buffers
@@ -322,7 +250,7 @@ export class ChunkedGenerator {
       });
 
       // Simple concatenation of MP3 buffers (this works for MP3 format)
-      const combinedBuffer = Buffer.concat(audioBuffers);
+      const combinedBuffer = Buffer.concat(audioBuffers as Buffer[]);
 
       // Phase 4: Completed
       progressManager.updateState({
@@ -342,23 +270,28 @@ export class ChunkedGenerator {
   }
 
   /**
-   * Estimate the number of chunks that would be created
+   * Summary of the chunks that failed, for the progress UI
    */
-  static estimateChunkCount(text: string, settings?: EdgeTTSPluginSettings): number {
-    const cleanText = settings ?
-      filterMarkdown(
-        filterFrontmatter(text, settings.textFiltering.filterFrontmatter),
-        settings.textFiltering
-      ) :
-      filterMarkdown(filterFrontmatter(text));
-    const byteSize = new Blob([cleanText]).size;
-    return Math.ceil(byteSize / ChunkedGenerator.EFFECTIVE_MAX_BYTES);
+  private static describeFailures(failedChunks: ChunkInfo[], totalChunks: number): string {
+    const reasons = Array.from(new Set(failedChunks.map(chunk => describeTTSError(chunk.errorKind || 'unknown'))));
+    return `${failedChunks.length} of ${totalChunks} chunks failed (${reasons.join('; ')}). ` +
+      'Retry them, or close to cancel. Chunks that succeeded are kept.';
+  }
+
+  /**
+   * Estimate the number of chunks that would be created, split the same way as in generateChunkedMP3
+   */
+  static estimateChunkCount(text: string, settings?: EdgeTTSPluginSettings, overrides?: NoteOverrides): number {
+    const cleanText = ChunkedGenerator.cleanText(checkAndTruncateContent(text).content, settings, overrides);
+    const splitByLanguage = settings ? isLanguageSwitchingEnabled(settings) : false;
+    return splitTextIntoChunks(cleanText, ChunkedGenerator.getMaxChunkBytes(settings), splitByLanguage).length;
   }
 
   /**
-   * Get the maximum chunk size in bytes (always 4096 - safety buffer)
+   * Get the maximum chunk size in bytes (the selected provider's request limit - safety buffer)
    */
-  static getMaxChunkBytes(): number {
-    return ChunkedGenerator.EFFECTIVE_MAX_BYTES;
+  static getMaxChunkBytes(settings?: EdgeTTSPluginSettings): number {
+    const maxTextBytes = settings ? getTTSProvider(settings).limits.maxTextBytes : ChunkedGenerator.DEFAULT_MAX_TEXT_BYTES;
+    return maxTextBytes - ChunkedGenerator.SAFETY_BUFFER;
   }
 } 
\ No newline at end of file
@@ -0,0 +1,93 @@
+import { UniversalTTSClient, OUTPUT_FORMAT, MP3_BYTES_PER_SECOND, createSilentMp3, listEdgeVoices } from './tts-client-wrapper';
+import type { EdgeTTSPluginSettings } from './settings';
+import { TTSStreamEmitter } from './tts-provider';
+import type { TTSProvider, TTSProviderLimits, TTSSynthesisOptions, TTSAudioStream, TTSVoice, TTSWordBoundary } from './tts-provider';
+import { hasPauseMarkers, splitAtPauses, stripPauseMarkers } from '../lib/pauses';
+
+/**
+ * TTS provider backed by Microsoft Edge's online service (via edge-tts-universal)
+ */
+export class EdgeTTSProvider implements TTSProvider {
+  readonly id = 'edge';
+  readonly name = 'Microsoft Edge (online)';
+  readonly supportedFormats = [
+    OUTPUT_FORMAT.AUDIO_24KHZ_48KBITRATE_MONO_MP3,
+    OUTPUT_FORMAT.WEBM_24KHZ_16BIT_MONO_OPUS,
+  ];
+  readonly limits: TTSProviderLimits = { maxTextBytes: 4096 }; // 4096 bytes as enforced by TTS API
+  readonly audioMimeType = 'audio/mpeg';
+
+  private settings: EdgeTTSPluginSettings;
+
+  constructor(settings: EdgeTTSPluginSettings) {
+    this.settings = settings;
+  }
+
+  getDefaultVoice(): string {
+    return this.settings.customVoice.trim() || this.settings.selectedVoice;
+  }
+
+  async listVoices(): Promise<TTSVoice[]> {
+    const voices = await listEdgeVoices();
+    return voices.map(voice => ({
+      id: voice.ShortName,
+      name: voice.FriendlyName || voice.ShortName,
+      locale: voice.Locale,
+      gender: voice.Gender,
+    }));
+  }
+
+  synthesizeStream(text: string, options: TTSSynthesisOptions): TTSAudioStream {
+    if (!hasPauseMarkers(text)) {
+      return this.synthesizeSegment(text, options);
+    }
+    // Silence can only be spliced into the constant-bitrate MP3 format
+    if (options.outputFormat !== OUTPUT_FORMAT.AUDIO_24KHZ_48KBITRATE_MONO_MP3) {
+      return this.synthesizeSegment(stripPauseMarkers(text), options);
+    }
+
+    // Synthesize the text between pauses one request at a time, with silent frames in between
+    return new TTSStreamEmitter(async (emitter) => {
+      let elapsed = 0; // Seconds of audio emitted so far
+
+      for (const segment of splitAtPauses(text)) {
+        if (emitter.isCancelled) return;
+
+        if (segment.text.trim()) {
+          const segmentStart = elapsed;
+          await new Promise<void>((resolve, reject) => {
+            const stream = this.synthesizeSegment(segment.text, options);
+            emitter.onCancel(() => {
+              stream.cancel();
+              resolve();
+            });
+            stream.on('boundary', (boundary: TTSWordBoundary) => {
+              emitter.emit('boundary', { ...boundary, offset: boundary.offset + segmentStart });
+            });
+            stream.on('data', (data: Uint8Array) => {
+              elapsed += data.length / MP3_BYTES_PER_SECOND;
+              emitter.emit('data', data);
+            });
+            stream.on('end', () => resolve());
+            stream.on('error', reject);
+          });
+        }
+
+        if (segment.pauseMs > 0) {
+          const silence = createSilentMp3(segment.pauseMs / 1000);
+          elapsed += silence.length / MP3_BYTES_PER_SECOND;
+          emitter.emit('data', silence);
+        }
+      }
+
+      emitter.emit('end');
+    });
+  }
+
+  private synthesizeSegment(text: string, options: TTSSynthesisOptions): TTSAudioStream {
+    const client = new UniversalTTSClient();
+    // setMetadata only stores the values, so there is no need to await it before streaming
+    client.setMetadata(options.voice || this.getDefaultVoice(), options.outputFormat);
+    return client.toStream(text, { rate: options.rate, pitch: options.pitch, volume: options.volume });
+  }
+}
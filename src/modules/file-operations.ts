@@ -1,5 +1,7 @@
-import { Editor, FileSystemAdapter, getLanguage, MarkdownView, Notice, TFile, normalizePath, Platform } from 'obsidian';
+import { Editor, FileSystemAdapter, getLanguage, MarkdownView, Notice, TFile, normalizePath, Platform, parseLinktext, resolveSubpath } from 'obsidian';
 import { toArrayBuffer } from '../utils';
+import { TrackedText } from '../lib/source-map';
+import { findEmbeds, findFrontmatterEnd } from '../lib/markdown-parser';
 import { EdgeTTSPluginSettings, defaultSelectedTextMp3Name } from './settings';
 
 // Mobile-compatible path helpers (only import path/os on desktop)
@@ -87,6 +89,66 @@ export class FileOperationsManager {
     }
   }
 
+  /**
+   * Write the content of embedded notes (![[Note]], ![[Note#Heading]], ![[Note#^block]]) in
+   * place of their embeds, so they are read as part of the note. The embedded text is mapped
+   * to its embed in the original text. Embeds in embedded notes are resolved too, up to the
+   * depth set in the settings; a note embedded in itself (directly or through other notes) is left as a link.
+   * @param sourcePath Path of the note the text comes from, for resolving relative links
+   */
+  async resolveEmbeds(text: TrackedText, sourcePath = '', ancestors: string[] = [sourcePath], depth = 0): Promise<TrackedText> {
+    const maxDepth = this.settings.textFiltering.readEmbeddedNotes ? this.settings.textFiltering.embedDepth : 0;
+    if (depth >= maxDepth) return text;
+
+    const pieces: TrackedText[] = [];
+    let cursor = 0;
+
+    for (const embed of findEmbeds(text.text)) {
+      const { path, subpath } = parseLinktext(embed.target);
+      const file = this.app.metadataCache.getFirstLinkpathDest(path, sourcePath);
+      // Images, audio and other attachments keep their embed
+      if (!(file instanceof TFile) || file.extension !== 'md') continue;
+
+      if (ancestors.includes(file.path)) continue;
+
+      const content = await this.readEmbeddedContent(file, subpath);
+      if (content === null) continue;
+
+      const expanded = await this.resolveEmbeds(TrackedText.fromSource(content), file.path, [...ancestors, file.path], depth + 1);
+      pieces.push(text.slice(cursor, embed.span.from), text.substitute(expanded.text, embed.span.from, embed.span.to));
+      cursor = embed.span.to;
+    }
+
+    if (pieces.length === 0) return text;
+    pieces.push(text.slice(cursor));
+    return TrackedText.concat(text.source, pieces, text.toSourceOffset(text.length));
+  }
+
+  // Text of an embedded note, or of the heading section or block the subpath points to
+  private async readEmbeddedContent(file: TFile, subpath: string): Promise<string | null> {
+    let content: string;
+    try {
+      content = await this.app.vault.cachedRead(file);
+    } catch (error) {
+      console.error('Error reading embedded note:', error);
+      return null;
+    }
+
+    if (subpath) {
+      const cache = this.app.metadataCache.getFileCache(file);
+      const result = cache ? resolveSubpath(cache, subpath) : null;
+      if (!result) return null;
+      content = content.slice(result.start.offset, result.end ? result.end.offset : content.length);
+    } else {
+      // Obsidian doesn't show the frontmatter of embedded notes either
+      const frontmatterEnd = findFrontmatterEnd(content);
+      if (frontmatterEnd !== -1) content = content.slice(frontmatterEnd);
+    }
+
+    // Block IDs (" ^id") only mark the block, they aren't read
+    return content.replace(/[ \t]+\^[A-Za-z0-9-]+[ \t]*$/gm, '').replace(/^\s*\n/, '').replace(/\s+$/, '');
+  }
+
   /**
    * Embeds an MP3 file link in a note
    */
@@ -0,0 +1,43 @@
+import type { EdgeTTSPluginSettings } from './settings';
+import type { TTSProvider } from './tts-provider';
+import { detectLanguage } from '../lib/language-detection';
+
+/**
+ * Voice used for text detected to be in a language
+ */
+export interface LanguageVoice {
+  language: string; // Two-letter code, e.g. "es"
+  voice: string;    // Provider voice, e.g. "es-MX-DaliaNeural"
+}
+
+// Edge voice that can read most languages, used when no voice is set for a language
+export const MULTILINGUAL_VOICE = 'en-US-AvaMultilingualNeural';
+
+/**
+ * Whether text should be split into chunks where its language changes
+ */
+export function isLanguageSwitchingEnabled(settings: EdgeTTSPluginSettings): boolean {
+  return !!settings.languageVoices?.enabled;
+}
+
+/**
+ * Voice for a chunk of text, based on its detected language. Returns undefined to use
+ * the default voice: when switching is off, the language isn't clear, or the default
+ * voice already speaks it. Languages without a voice of their own are read by a
+ * multilingual Edge voice.
+ * @param defaultVoice Voice the text is otherwise read with (the note's or the provider's)
+ */
+export function getVoiceForText(text: string, settings: EdgeTTSPluginSettings, provider: TTSProvider, defaultVoice = provider.getDefaultVoice()): string | undefined {
+  if (!isLanguageSwitchingEnabled(settings)) return undefined;
+
+  const language = detectLanguage(text);
+  if (!language) return undefined;
+
+  const mapped = settings.languageVoices.voices.find(entry => entry.language.trim().toLowerCase() === language && entry.voice.trim());
+  if (mapped) return mapped.voice.trim();
+
+  if (defaultVoice.split('-')[0].toLowerCase() === language) return undefined;
+
+  if (provider.id === 'edge' && !/Multilingual/i.test(defaultVoice)) return MULTILINGUAL_VOICE;
+  return undefined;
+}
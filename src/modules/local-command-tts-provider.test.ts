@@ -0,0 +1,125 @@
+import { chmodSync, existsSync, mkdtempSync, readFileSync, rmSync, writeFileSync } from 'fs';
+import { tmpdir } from 'os';
+import { join } from 'path';
+import { afterAll, afterEach, beforeEach, describe, expect, it, vi } from 'vitest';
+import { LocalCommandTTSProvider, buildCommandArgs } from './local-command-tts-provider';
+import { synthesizeChunk } from './chunk-synthesis';
+import { OUTPUT_FORMAT } from './tts-client-wrapper';
+import { PAUSE_MARKER } from '../lib/pauses';
+import type { EdgeTTSPluginSettings } from './settings';
+
+// Shell scripts standing in for a TTS engine such as Piper
+const dir = mkdtempSync(join(tmpdir(), 'edge-tts-local-command-'));
+
+function writeScript(name: string, body: string): string {
+  const path = join(dir, name);
+  writeFileSync(path, `#!/bin/sh\n${body}\n`);
+  chmodSync(path, 0o755);
+  return path;
+}
+
+// Records its arguments and input, then answers with a WAV header followed by the text
+const ECHO_SCRIPT = writeScript('echo.sh', `printf '%s\\n' "$@" > "${dir}/args.txt"\ncat > "${dir}/input.txt"\nprintf 'RIFF'\ncat "${dir}/input.txt"`);
+const FAILING_SCRIPT = writeScript('fail.sh', `cat > /dev/null\necho "voice model not found" >&2\nexit 3`);
+const HANGING_SCRIPT = writeScript('hang.sh', `echo $$ > "${dir}/pid.txt"\nexec sleep 30`);
+
+afterAll(() => {
+  rmSync(dir, { recursive: true, force: true });
+});
+
+beforeEach(() => {
+  // Keep the failing, missing and hanging commands below out of the test output
+  vi.spyOn(console, 'error').mockImplementation(() => undefined);
+});
+
+afterEach(() => {
+  vi.useRealTimers();
+});
+
+function createProvider(options: Partial<EdgeTTSPluginSettings['localCommandTTS']> = {}): LocalCommandTTSProvider {
+  const settings = {
+    localCommandTTS: { command: ECHO_SCRIPT, args: '--model {voice} --length_scale {length_scale}', voice: 'en_US-amy', outputFormat: 'wav', ...options },
+  } as EdgeTTSPluginSettings;
+  return new LocalCommandTTSProvider(settings);
+}
+
+// Run the command set up by `options` on the text, reading 1.25 times as fast (a length scale of 0.80)
+function runCommand(options: Partial<EdgeTTSPluginSettings['localCommandTTS']> = {}, text = 'Hello there') {
+  const provider = createProvider(options);
+  return synthesizeChunk(provider, text, { outputFormat: provider.supportedFormats[0], rate: 1.25 });
+}
+
+// Let the event loop run (fake timers leave setImmediate alone) until the condition holds
+async function waitFor(condition: () => boolean): Promise<void> {
+  for (let i = 0; i < 5000 && !condition(); i++) {
+    await new Promise(resolve => setImmediate(resolve));
+  }
+  expect(condition()).toBe(true);
+}
+
+function isRunning(pid: number): boolean {
+  try {
+    process.kill(pid, 0);
+    return true;
+  } catch {
+    return false;
+  }
+}
+
+describe('buildCommandArgs', () => {
+  it('keeps quoted values and substituted values with spaces as one argument', () => {
+    expect(buildCommandArgs('--model "{voice}" \'a b\' --unknown {other}', { voice: 'my voice' }))
+      .toEqual(['--model', 'my voice', 'a b', '--unknown', '{other}']);
+  });
+});
+
+describe('LocalCommandTTSProvider with a stand-in command', () => {
+  it('writes the text to stdin and returns the WAV output', async () => {
+    const chunk = await runCommand();
+
+    expect(Buffer.concat(chunk.data).toString()).toBe('RIFFHello there');
+    expect(readFileSync(join(dir, 'args.txt'), 'utf8')).toBe('--model\nen_US-amy\n--length_scale\n0.80\n');
+
+    const provider = createProvider();
+    expect(provider.audioMimeType).toBe('audio/wav');
+    expect(provider.supportedFormats).not.toContain(OUTPUT_FORMAT.AUDIO_24KHZ_48KBITRATE_MONO_MP3);
+  });
+
+  it('declares MP3 output when the command is set to write MP3', () => {
+    const provider = createProvider({ outputFormat: 'mp3' });
+
+    expect(provider.audioMimeType).toBe('audio/mpeg');
+    expect(provider.supportedFormats).toEqual([OUTPUT_FORMAT.AUDIO_24KHZ_48KBITRATE_MONO_MP3]);
+  });
+
+  it('strips pause markers before writing the text', async () => {
+    await runCommand({}, `One.${PAUSE_MARKER}Two.`);
+
+    expect(readFileSync(join(dir, 'input.txt'), 'utf8')).toBe('One.Two.');
+  });
+
+  it('reports the exit code and stderr of a failing command', async () => {
+    await expect(runCommand({ command: FAILING_SCRIPT }))
+      .rejects.toThrow('TTS command exited with code 3: voice model not found');
+  });
+
+  it('reports a missing executable or an empty command', async () => {
+    await expect(runCommand({ command: join(dir, 'missing.sh') })).rejects.toThrow('ENOENT');
+    await expect(runCommand({ command: '  ' })).rejects.toThrow('No executable configured');
+  });
+
+  it('stops the command when it does not answer in time', async () => {
+    vi.useFakeTimers({ toFake: ['setTimeout', 'clearTimeout'] });
+    const result = runCommand({ command: HANGING_SCRIPT });
+    const rejected = expect(result).rejects.toThrow('Timed out');
+
+    const pidFile = join(dir, 'pid.txt');
+    await waitFor(() => existsSync(pidFile) && readFileSync(pidFile, 'utf8').trim() !== '');
+    const pid = Number(readFileSync(pidFile, 'utf8'));
+    expect(isRunning(pid)).toBe(true);
+
+    await vi.advanceTimersByTimeAsync(120000);
+    await rejected;
+    await waitFor(() => !isRunning(pid));
+  });
+});
@@ -0,0 +1,132 @@
+import { Platform } from 'obsidian';
+import { OUTPUT_FORMAT } from './tts-client-wrapper';
+import type { EdgeTTSPluginSettings } from './settings';
+import { TTSStreamEmitter } from './tts-provider';
+import type { TTSProvider, TTSProviderLimits, TTSSynthesisOptions, TTSAudioStream, TTSVoice } from './tts-provider';
+import { stripPauseMarkers } from '../lib/pauses';
+
+// Format name of 16-bit PCM WAV output, which the Edge formats don't include
+const WAV_OUTPUT_FORMAT = 'riff-24khz-16bit-mono-pcm';
+
+// Node's child_process is only available on desktop
+let childProcess: any = null;
+
+if (!Platform.isMobile) {
+  try {
+    childProcess = require('child_process');
+  } catch (e) {
+    console.warn('Node.js child_process module not available:', e);
+  }
+}
+
+/**
+ * Split an argument template into arguments (honouring single and double quotes)
+ * and substitute the {voice}, {rate}, {length_scale}, {pitch} and {volume} placeholders in each one.
+ * Substitution happens after splitting so values containing spaces stay a single argument.
+ */
+export function buildCommandArgs(template: string, values: Record<string, string>): string[] {
+  const args: string[] = [];
+  const tokenRegex = /"([^"]*)"|'([^']*)'|(\S+)/g;
+  let match: RegExpExecArray | null;
+
+  while ((match = tokenRegex.exec(template)) !== null) {
+    const token = match[1] ?? match[2] ?? match[3];
+    args.push(token.replace(/\{(\w+)\}/g, (placeholder, name) => values[name] ?? placeholder));
+  }
+
+  return args;
+}
+
+/**
+ * TTS provider that runs a local executable (e.g. Piper or espeak-ng).
+ * Text is written to the process's stdin and audio is read from its stdout.
+ */
+export class LocalCommandTTSProvider implements TTSProvider {
+  readonly id = 'local-command';
+  readonly name = 'Local command (desktop only)';
+  // Local engines have no request limit; this is above the playback truncation limit so notes are sent in one go
+  readonly limits: TTSProviderLimits = { maxTextBytes: 64 * 1024 };
+
+  private settings: EdgeTTSPluginSettings;
+
+  constructor(settings: EdgeTTSPluginSettings) {
+    this.settings = settings;
+  }
+
+  // The command writes whichever format it is configured for, whatever format is requested
+  get supportedFormats(): string[] {
+    return this.settings.localCommandTTS.outputFormat === 'wav'
+      ? [WAV_OUTPUT_FORMAT]
+      : [OUTPUT_FORMAT.AUDIO_24KHZ_48KBITRATE_MONO_MP3];
+  }
+
+  get audioMimeType(): string {
+    return this.settings.localCommandTTS.outputFormat === 'wav' ? 'audio/wav' : 'audio/mpeg';
+  }
+
+  getDefaultVoice(): string {
+    return this.settings.localCommandTTS.voice.trim();
+  }
+
+  async listVoices(): Promise<TTSVoice[]> {
+    // Local engines don't share a way to enumerate voices, so only the configured one is offered
+    const voice = this.getDefaultVoice();
+    return voice ? [{ id: voice, name: voice }] : [];
+  }
+
+  synthesizeStream(text: string, options: TTSSynthesisOptions): TTSAudioStream {
+    const { command, args } = this.settings.localCommandTTS;
+    const rate = options.rate ?? 1.0;
+
+    return new TTSStreamEmitter((emitter) => new Promise<void>((resolve, reject) => {
+      if (!childProcess) {
+        reject(new Error('Local command TTS is only available on desktop.'));
+        return;
+      }
+      if (!command.trim()) {
+        reject(new Error('No executable configured for the local command TTS provider.'));
+        return;
+      }
+
+      const commandArgs = buildCommandArgs(args, {
+        voice: options.voice || this.getDefaultVoice(),
+        rate: String(rate),
+        length_scale: (1 / rate).toFixed(2), // Piper expresses speed as phoneme length
+        pitch: String(options.pitch ?? 0),
+        volume: String(options.volume ?? 0),
+      });
+
+      const child = childProcess.spawn(command.trim(), commandArgs, { stdio: ['pipe', 'pipe', 'pipe'] });
+      let stderrOutput = '';
+      emitter.onCancel(() => child.kill());
+
+      child.stdout.on('data', (data: Uint8Array) => {
+        emitter.emit('data', new Uint8Array(data));
+      });
+
+      child.stderr.on('data', (data: Uint8Array) => {
+        stderrOutput += data.toString();
+      });
+
+      // Raised when the executable cannot be started (e.g. not found)
+      child.on('error', (error: Error) => {
+        reject(error);
+      });
+
+      child.on('close', (code: number | null) => {
+        if (code === 0 || emitter.isCancelled) {
+          emitter.emit('end');
+          resolve();
+        } else {
+          reject(new Error(`TTS command exited with code ${code}: ${stderrOutput.trim().slice(0, 200)}`));
+        }
+      });
+
+      child.stdin.on('error', (error: Error) => {
+        console.warn('Local command TTS: could not write text to stdin:', error);
+      });
+      child.stdin.write(stripPauseMarkers(text));
+      child.stdin.end();
+    }));
+  }
+}
@@ -0,0 +1,125 @@
+import type { App } from 'obsidian';
+import type { EdgeTTSPluginSettings } from './settings';
+
+/**
+ * Per-note settings read from frontmatter, e.g.
+ *
+ * ---
+ * tts-voice: en-GB-SoniaNeural
+ * tts-rate: 1.2
+ * tts-pitch: +5Hz
+ * tts-volume: -20%
+ * tts-skip: true
+ * tts-filters:
+ *   filterTables: false
+ * tts-speakers:
+ *   Alice: en-US-AvaNeural
+ *   Bob: en-GB-RyanNeural
+ * ---
+ */
+export interface NoteOverrides {
+  voice?: string;
+  rate?: number;    // Speed multiplier
+  pitch?: number;   // Hz offset
+  volume?: number;  // Percent offset
+  skip?: boolean;   // Leave the note out when reading whole notes, generating MP3s and playing the queue
+  textFiltering?: Partial<EdgeTTSPluginSettings['textFiltering']>; // Text filtering settings for this note
+  speakerVoices?: Record<string, string>; // Voices for dialogue speakers; turns on dialogue mode for the note
+}
+
+/**
+ * Prosody values sent to the TTS provider
+ */
+export interface ProsodySettings {
+  rate: number;
+  pitch: number;
+  volume: number;
+}
+
+// Parse values like 5, "+5", "+5Hz" or "-20%" into a number
+function parseNumericValue(value: unknown): number | undefined {
+  if (typeof value === 'number') {
+    return isFinite(value) ? value : undefined;
+  }
+  if (typeof value === 'string') {
+    const parsed = parseFloat(value.trim());
+    return isNaN(parsed) ? undefined : parsed;
+  }
+  return undefined;
+}
+
+// Parse a speed like 1.2, "1.2x" or "+20%" into a multiplier
+function parseRate(value: unknown): number | undefined {
+  const parsed = parseNumericValue(value);
+  if (parsed === undefined) return undefined;
+  const rate = typeof value === 'string' && value.trim().endsWith('%') ? 1 + parsed / 100 : parsed;
+  return rate > 0 ? rate : undefined;
+}
+
+/**
+ * Read TTS overrides from a note's frontmatter
+ */
+export function getNoteOverrides(app: App, filePath?: string): NoteOverrides {
+  if (!filePath) return {};
+
+  const frontmatter = app.metadataCache.getCache(filePath)?.frontmatter;
+  if (!frontmatter) return {};
+
+  const overrides: NoteOverrides = {};
+  const voice = frontmatter['tts-voice'];
+  if (typeof voice === 'string' && voice.trim()) overrides.voice = voice.trim();
+  const rate = parseRate(frontmatter['tts-rate']);
+  if (rate !== undefined) overrides.rate = rate;
+  const pitch = parseNumericValue(frontmatter['tts-pitch']);
+  if (pitch !== undefined) overrides.pitch = pitch;
+  const volume = parseNumericValue(frontmatter['tts-volume']);
+  if (volume !== undefined) overrides.volume = volume;
+  if (frontmatter['tts-skip'] === true || frontmatter['tts-skip'] === 'true') overrides.skip = true;
+
+  const filters = frontmatter['tts-filters'];
+  if (filters && typeof filters === 'object' && !Array.isArray(filters)) {
+    overrides.textFiltering = filters;
+  }
+
+  const speakers = frontmatter['tts-speakers'];
+  if (speakers && typeof speakers === 'object' && !Array.isArray(speakers)) {
+    const speakerVoices: Record<string, string> = {};
+    for (const speaker of Object.keys(speakers)) {
+      if (typeof speakers[speaker] === 'string' && speakers[speaker].trim()) speakerVoices[speaker] = speakers[speaker].trim();
+    }
+    if (Object.keys(speakerVoices).length > 0) overrides.speakerVoices = speakerVoices;
+  }
+
+  return overrides;
+}
+
+/**
+ * Text filtering settings for a note: the note's "tts-filters" over the plugin settings.
+ * Unknown options and values of the wrong type are ignored. Notes with speaker voices
+ * are read in dialogue mode.
+ */
+export function resolveTextFiltering(settings: EdgeTTSPluginSettings, overrides: NoteOverrides = {}): EdgeTTSPluginSettings['textFiltering'] {
+  if (!overrides.textFiltering && !overrides.speakerVoices) return settings.textFiltering;
+
+  const textFiltering: Record<string, unknown> = { ...settings.textFiltering };
+  const noteFiltering: Record<string, unknown> = overrides.textFiltering || {};
+  for (const key of Object.keys(noteFiltering)) {
+    if (key in textFiltering && typeof noteFiltering[key] === typeof textFiltering[key]) {
+      textFiltering[key] = noteFiltering[key];
+    }
+  }
+  if (overrides.speakerVoices) textFiltering.dialogueMode = true;
+
+  return textFiltering as EdgeTTSPluginSettings['textFiltering'];
+}
+
+/**
+ * Combine the plugin settings with a note's overrides
+ */
+export function resolveProsody(settings: EdgeTTSPluginSettings, overrides: NoteOverrides = {}): ProsodySettings {
+  return {
+    rate: overrides.rate ?? settings.playbackSpeed,
+    pitch: overrides.pitch ?? settings.pitch,
+    volume: overrides.volume ?? settings.volume,
+  };
+}
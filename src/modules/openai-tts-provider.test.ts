@@ -0,0 +1,128 @@
+import { createServer } from 'http';
+import type { IncomingHttpHeaders, Server } from 'http';
+import type { AddressInfo } from 'net';
+import { afterAll, beforeAll, beforeEach, describe, expect, it, vi } from 'vitest';
+import { OpenAITTSProvider, buildSpeechEndpoint } from './openai-tts-provider';
+import { synthesizeChunk } from './chunk-synthesis';
+import { OUTPUT_FORMAT } from './tts-client-wrapper';
+import { PAUSE_MARKER } from '../lib/pauses';
+import type { EdgeTTSPluginSettings } from './settings';
+import type { TTSSynthesisOptions } from './tts-provider';
+
+// The JSON body of a speech request
+interface SpeechRequestBody {
+  model: string;
+  input: string;
+  voice: string;
+  response_format: string;
+  speed: number;
+}
+
+// What the mock server received, and how it answers the next request
+interface RecordedRequest {
+  url: string;
+  headers: IncomingHttpHeaders;
+  body: SpeechRequestBody;
+}
+
+const AUDIO = Buffer.from([0xff, 0xf3, 0x44, 0xc4, 0x00, 0x01]);
+
+let server: Server;
+let baseUrl: string;
+let requests: RecordedRequest[] = [];
+let reply: { status: number, body: Buffer | string } = { status: 200, body: AUDIO };
+
+beforeAll(async () => {
+  server = createServer((request, response) => {
+    let body = '';
+    request.on('data', data => body += data);
+    request.on('end', () => {
+      requests.push({ url: request.url || '', headers: request.headers, body: JSON.parse(body) });
+      response.writeHead(reply.status, { 'Content-Type': reply.status === 200 ? 'audio/mpeg' : 'application/json' });
+      response.end(reply.body);
+    });
+  });
+  await new Promise<void>(resolve => server.listen(0, '127.0.0.1', resolve));
+  baseUrl = `http://127.0.0.1:${(server.address() as AddressInfo).port}`;
+});
+
+afterAll(async () => {
+  await new Promise(resolve => server.close(resolve));
+});
+
+beforeEach(() => {
+  requests = [];
+  reply = { status: 200, body: AUDIO };
+  // Keep the error replies below out of the test output
+  vi.spyOn(console, 'error').mockImplementation(() => undefined);
+});
+
+function createProvider(options: Partial<EdgeTTSPluginSettings['openAITTS']> = {}): OpenAITTSProvider {
+  const settings = {
+    openAITTS: { baseUrl, apiKey: 'secret', model: 'tts-1', voice: 'nova', ...options },
+  } as EdgeTTSPluginSettings;
+  return new OpenAITTSProvider(settings);
+}
+
+// Send one speech request to the mock server, with the provider set up by `options`
+function requestSpeech(options: Partial<EdgeTTSPluginSettings['openAITTS']> = {}, text = 'Hello there', request: Partial<TTSSynthesisOptions> = {}) {
+  return synthesizeChunk(createProvider(options), text, { outputFormat: OUTPUT_FORMAT.AUDIO_24KHZ_48KBITRATE_MONO_MP3, rate: 1.25, ...request });
+}
+
+describe('buildSpeechEndpoint', () => {
+  it('appends the speech path with or without /v1', () => {
+    expect(buildSpeechEndpoint('http://host:8880')).toBe('http://host:8880/v1/audio/speech');
+    expect(buildSpeechEndpoint('http://host:8880/v1/')).toBe('http://host:8880/v1/audio/speech');
+  });
+});
+
+describe('OpenAITTSProvider against a mock server', () => {
+  it('posts the text and returns the MP3 bytes', async () => {
+    const chunk = await requestSpeech();
+
+    expect(Buffer.concat(chunk.data)).toEqual(AUDIO);
+    expect(requests).toHaveLength(1);
+    expect(requests[0].url).toBe('/v1/audio/speech');
+    expect(requests[0].headers['authorization']).toBe('Bearer secret');
+    expect(requests[0].body).toEqual({ model: 'tts-1', input: 'Hello there', voice: 'nova', response_format: 'mp3', speed: 1.25 });
+  });
+
+  it('asks for MP3 audio, the only format the plugin plays and saves', async () => {
+    const provider = createProvider();
+    expect(provider.supportedFormats).toEqual([OUTPUT_FORMAT.AUDIO_24KHZ_48KBITRATE_MONO_MP3]);
+    expect(provider.audioMimeType).toBe('audio/mpeg');
+
+    await requestSpeech();
+    expect(requests[0].body.response_format).toBe('mp3');
+  });
+
+  it('sends the voice of the request instead of the configured one', async () => {
+    await requestSpeech({}, 'Hi', { voice: 'onyx' });
+    expect(requests[0].body.voice).toBe('onyx');
+  });
+
+  it('sends no Authorization header without an API key', async () => {
+    await requestSpeech({ apiKey: '  ' });
+    expect(requests[0].headers['authorization']).toBeUndefined();
+  });
+
+  it('reports the status and message of client errors', async () => {
+    reply = { status: 401, body: '{"error":"Missing API key"}' };
+    await expect(requestSpeech({ apiKey: '' })).rejects.toThrow('status 401: {"error":"Missing API key"}');
+  });
+
+  it('reports server errors', async () => {
+    reply = { status: 503, body: 'Model is loading' };
+    await expect(requestSpeech()).rejects.toThrow('status 503: Model is loading');
+  });
+
+  it('fails without a base URL, before sending anything', async () => {
+    await expect(requestSpeech({ baseUrl: '' })).rejects.toThrow('No base URL configured');
+    expect(requests).toHaveLength(0);
+  });
+
+  it('does not send pause markers to the server', async () => {
+    await requestSpeech({}, `One.${PAUSE_MARKER.repeat(3)}\nTwo`);
+    expect(requests[0].body.input).toBe('One.\nTwo');
+  });
+});
@@ -0,0 +1,82 @@
+import { requestUrl } from 'obsidian';
+import { OUTPUT_FORMAT } from './tts-client-wrapper';
+import type { EdgeTTSPluginSettings } from './settings';
+import { TTSStreamEmitter } from './tts-provider';
+import type { TTSProvider, TTSProviderLimits, TTSSynthesisOptions, TTSAudioStream, TTSVoice } from './tts-provider';
+import { stripPauseMarkers } from '../lib/pauses';
+
+// Voices exposed by the reference /v1/audio/speech API. Self-hosted servers usually accept these as aliases.
+const OPENAI_VOICES = ['alloy', 'ash', 'coral', 'echo', 'fable', 'nova', 'onyx', 'sage', 'shimmer'];
+
+/**
+ * Build the speech endpoint URL, accepting base URLs with or without the /v1 suffix
+ */
+export function buildSpeechEndpoint(baseUrl: string): string {
+  const trimmed = baseUrl.trim().replace(/\/+$/, '');
+  return trimmed.endsWith('/v1') ? `${trimmed}/audio/speech` : `${trimmed}/v1/audio/speech`;
+}
+
+/**
+ * TTS provider for servers implementing the OpenAI-compatible /v1/audio/speech API
+ */
+export class OpenAITTSProvider implements TTSProvider {
+  readonly id = 'openai-compatible';
+  readonly name = 'OpenAI-compatible server';
+  readonly supportedFormats = [OUTPUT_FORMAT.AUDIO_24KHZ_48KBITRATE_MONO_MP3];
+  readonly limits: TTSProviderLimits = { maxTextBytes: 4096 }; // The reference API accepts up to 4096 characters
+  readonly audioMimeType = 'audio/mpeg';
+
+  private settings: EdgeTTSPluginSettings;
+
+  constructor(settings: EdgeTTSPluginSettings) {
+    this.settings = settings;
+  }
+
+  getDefaultVoice(): string {
+    return this.settings.openAITTS.voice.trim() || OPENAI_VOICES[0];
+  }
+
+  async listVoices(): Promise<TTSVoice[]> {
+    const voices = new Set([this.getDefaultVoice(), ...OPENAI_VOICES]);
+    return Array.from(voices).map(voice => ({ id: voice, name: voice }));
+  }
+
+  synthesizeStream(text: string, options: TTSSynthesisOptions): TTSAudioStream {
+    const { baseUrl, apiKey, model } = this.settings.openAITTS;
+
+    return new TTSStreamEmitter(async (emitter) => {
+      if (!baseUrl.trim()) {
+        throw new Error('No base URL configured for the OpenAI-compatible TTS provider.');
+      }
+
+      const headers: Record<string, string> = { 'Content-Type': 'application/json' };
+      if (apiKey.trim()) {
+        headers['Authorization'] = `Bearer ${apiKey.trim()}`;
+      }
+
+      // requestUrl is used instead of fetch so that local servers do not need CORS headers.
+      // It can't be aborted, so a cancelled request runs to completion and its audio is dropped.
+      const response = await requestUrl({
+        url: buildSpeechEndpoint(baseUrl),
+        method: 'POST',
+        headers,
+        body: JSON.stringify({
+          model: model.trim(),
+          input: stripPauseMarkers(text), // Pauses can't be added to this provider's audio
+          voice: options.voice || this.getDefaultVoice(),
+          response_format: 'mp3',
+          speed: options.rate ?? 1.0,
+        }),
+        throw: false,
+      });
+
+      if (response.status < 200 || response.status >= 300) {
+        throw new Error(`Speech server responded with status ${response.status}: ${response.text.slice(0, 200)}`);
+      }
+
+      // The whole response is buffered by requestUrl, so it is emitted as a single chunk
+      emitter.emit('data', new Uint8Array(response.arrayBuffer));
+      emitter.emit('end');
+    });
+  }
+}
@@ -0,0 +1,133 @@
+import { Extension, RangeSet, RangeSetBuilder, StateEffect, StateField, Text } from '@codemirror/state';
+import { EditorView, GutterMarker, ViewPlugin, ViewUpdate, gutter } from '@codemirror/view';
+import { setIcon, setTooltip } from 'obsidian';
+import type { MarkdownPostProcessorContext } from 'obsidian';
+import { findBlockStarts } from '../lib/markdown-parser';
+
+/**
+ * Starts reading at a block of a note in reading view
+ * @param text The whole note
+ * @param from Offset of the block in the note
+ * @param toSectionEnd Stop at the end of the block's section instead of the end of the note
+ */
+export type PlayFromBlockHandler = (text: string, from: number, toSectionEnd: boolean) => void;
+
+/**
+ * Starts reading at a block of the note open in an editor
+ */
+export type PlayFromEditorBlockHandler = (view: EditorView, from: number, toSectionEnd: boolean) => void;
+
+const PLAY_BUTTON_TOOLTIP = 'Read from here (Alt-click: to the end of the section)';
+
+// Finding the blocks of a long note takes a while, so it waits until typing pauses
+const MARKER_REBUILD_DELAY = 300;
+
+// Reading view sections that start with one of these get a play button
+const READABLE_SECTION_SELECTOR = 'p, h1, h2, h3, h4, h5, h6, ul, ol, blockquote, pre, table, .callout, .math-block';
+
+function createPlayButton(el: HTMLElement): void {
+  setIcon(el, 'play');
+  setTooltip(el, PLAY_BUTTON_TOOLTIP);
+}
+
+class PlayButtonMarker extends GutterMarker {
+  toDOM(): Node {
+    const el = document.createElement('div');
+    el.className = 'edge-tts-play-button';
+    createPlayButton(el);
+    return el;
+  }
+}
+
+const playButtonMarker = new PlayButtonMarker();
+
+function buildMarkers(doc: Text): RangeSet<GutterMarker> {
+  const builder = new RangeSetBuilder<GutterMarker>();
+  for (const start of findBlockStarts(doc.toString())) {
+    const line = doc.lineAt(start.from);
+    builder.add(line.from, line.from, playButtonMarker);
+  }
+  return builder.finish();
+}
+
+const rebuildMarkers = StateEffect.define<RangeSet<GutterMarker>>();
+
+// Play buttons for the blocks of the note. Edits move the existing buttons along with the text,
+// until they are rebuilt for the new blocks.
+const playButtonMarkersField = StateField.define<RangeSet<GutterMarker>>({
+  create: state => buildMarkers(state.doc),
+  update: (markers, tr) => {
+    for (const effect of tr.effects) {
+      if (effect.is(rebuildMarkers)) return effect.value;
+    }
+    return tr.docChanged ? markers.map(tr.changes) : markers;
+  },
+});
+
+// Rebuilds the play buttons once the note stops changing
+const markerRebuildScheduler = ViewPlugin.fromClass(class {
+  private timeout: number | null = null;
+
+  constructor(private view: EditorView) {}
+
+  update(update: ViewUpdate) {
+    if (!update.docChanged) return;
+    if (this.timeout !== null) window.clearTimeout(this.timeout);
+    this.timeout = window.setTimeout(() => {
+      this.timeout = null;
+      this.view.dispatch({ effects: rebuildMarkers.of(buildMarkers(this.view.state.doc)) });
+    }, MARKER_REBUILD_DELAY);
+  }
+
+  destroy() {
+    if (this.timeout !== null) window.clearTimeout(this.timeout);
+  }
+});
+
+/**
+ * Editor extension (live preview and source mode) that adds a play button to the gutter
+ * next to each paragraph and heading
+ */
+export function createGutterPlayButtons(onPlay: PlayFromEditorBlockHandler): Extension {
+  return [
+    playButtonMarkersField,
+    markerRebuildScheduler,
+    gutter({
+      class: 'edge-tts-play-gutter',
+      markers: view => view.state.field(playButtonMarkersField),
+      domEventHandlers: {
+        mousedown: (view: EditorView, line, event) => {
+          if (!(event.target instanceof Element) || !event.target.closest('.edge-tts-play-button')) return false;
+          // Keep the cursor and selection where they are
+          event.preventDefault();
+          onPlay(view, line.from, (event as MouseEvent).altKey);
+          return true;
+        },
+      },
+    }),
+  ];
+}
+
+/**
+ * Add a play button to a rendered section of a note in reading view
+ */
+export function addReadingViewPlayButton(el: HTMLElement, ctx: MarkdownPostProcessorContext, onPlay: PlayFromBlockHandler): void {
+  const first = el.firstElementChild;
+  if (!first || !first.matches(READABLE_SECTION_SELECTOR)) return;
+
+  const button = el.createDiv({ cls: 'edge-tts-reading-play-button' });
+  el.prepend(button);
+  el.addClass('edge-tts-has-play-button');
+  createPlayButton(button);
+
+  button.addEventListener('click', (event) => {
+    event.preventDefault();
+    event.stopPropagation();
+    // Look the section up on click, so edits since rendering are taken into account
+    const info = ctx.getSectionInfo(el);
+    if (!info) return;
+    const lines = info.text.split('\n');
+    const from = lines.slice(0, info.lineStart).reduce((offset, line) => offset + line.length + 1, 0);
+    onPlay(info.text, from, event.altKey);
+  });
+}
@@ -0,0 +1,235 @@
+import { StateEffect, StateField } from '@codemirror/state';
+import { Decoration, DecorationSet, EditorView } from '@codemirror/view';
+import type { Editor } from 'obsidian';
+import type { EdgeTTSPluginSettings } from './settings';
+import type { TTSWordBoundary } from './tts-provider';
+import type { TrackedText } from '../lib/source-map';
+
+/**
+ * The CodeMirror view that Obsidian's Editor keeps as `cm` (not part of Obsidian's typings)
+ */
+function getEditorView(editor: Editor): EditorView | undefined {
+  return (editor as Editor & { cm?: EditorView }).cm;
+}
+
+/**
+ * Where the text being read comes from in an open editor
+ */
+export interface PlaybackSource {
+  editor: Editor;
+  offset: number; // Document offset of the first character passed to startPlayback
+}
+
+/**
+ * A spoken word placed on the playback timeline
+ */
+interface WordTiming {
+  start: number;     // Seconds into the playback audio
+  end: number;
+  cleanFrom: number; // Position of the word in the cleaned text
+  cleanTo: number;
+}
+
+// How far ahead to look for a reported word before treating it as missing
+const SEARCH_WINDOW = 1000;
+
+// CodeMirror state for the highlighted range
+const setPlaybackHighlight = StateEffect.define<{ from: number, to: number } | null>();
+
+const playbackHighlightMark = Decoration.mark({ class: 'edge-tts-playback-highlight' });
+
+const playbackHighlightField = StateField.define<DecorationSet>({
+  create() {
+    return Decoration.none;
+  },
+  update(highlight, tr) {
+    highlight = highlight.map(tr.changes);
+    for (const effect of tr.effects) {
+      if (effect.is(setPlaybackHighlight)) {
+        highlight = effect.value && effect.value.to > effect.value.from
+          ? Decoration.set([playbackHighlightMark.range(effect.value.from, effect.value.to)])
+          : Decoration.none;
+      }
+    }
+    return highlight;
+  },
+  provide: field => EditorView.decorations.from(field),
+});
+
+/**
+ * Editor extension that renders the playback highlight. Registered once by the plugin.
+ */
+export const playbackHighlightExtension = [playbackHighlightField];
+
+/**
+ * Highlights the word or sentence being spoken in the editor the text was read from.
+ * Word timings come from the TTS provider's word boundary events.
+ */
+export class PlaybackHighlighter {
+  private settings: EdgeTTSPluginSettings;
+  private source: PlaybackSource | null = null;
+  private cleanText = '';
+  private sourceMap: TrackedText | null = null;
+  private timings: WordTiming[] = [];
+  private boundarySearchCursor = 0;
+  private currentRange: { from: number, to: number } | null = null;
+
+  constructor(settings: EdgeTTSPluginSettings) {
+    this.settings = settings;
+  }
+
+  updateSettings(settings: EdgeTTSPluginSettings): void {
+    this.settings = settings;
+    if (this.settings.highlightMode === 'off') {
+      this.clear();
+    }
+  }
+
+  /**
+   * Start tracking a new playback session
+   * @param sourceMap Filtered text tracked against the text passed to startPlayback
+   */
+  begin(cleanText: string, sourceMap: TrackedText, source?: PlaybackSource): void {
+    this.clear();
+    this.cleanText = cleanText;
+    this.timings = [];
+    this.boundarySearchCursor = 0;
+    // Truncation may have rejoined words, in which case positions no longer line up
+    const mapsCleanText = sourceMap.text.startsWith(cleanText);
+    this.source = mapsCleanText && source ? source : null;
+    this.sourceMap = mapsCleanText ? sourceMap : null;
+  }
+
+  /**
+   * Record a word boundary reported by the TTS provider
+   * @param timeOffset Start of the synthesis request on the playback timeline, in seconds
+   */
+  addBoundary(boundary: TTSWordBoundary, timeOffset: number): void {
+    // Boundaries arrive in reading order, so search forward from the previous word
+    const index = this.cleanText.indexOf(boundary.text, this.boundarySearchCursor);
+    if (index === -1 || index - this.boundarySearchCursor > SEARCH_WINDOW) return;
+
+    this.boundarySearchCursor = index + boundary.text.length;
+    this.timings.push({
+      start: timeOffset + boundary.offset,
+      end: timeOffset + boundary.offset + boundary.duration,
+      cleanFrom: index,
+      cleanTo: index + boundary.text.length,
+    });
+  }
+
+  /**
+   * Move the highlight to the word spoken at the given playback time
+   */
+  update(currentTime: number): void {
+    if (!this.source || this.settings.highlightMode === 'off' || this.timings.length === 0) return;
+
+    const timing = this.findTiming(currentTime);
+    if (!timing) return;
+
+    const range = this.settings.highlightMode === 'sentence'
+      ? this.getSentenceSourceRange(timing.cleanFrom)
+      : this.mapCleanRange(timing.cleanFrom, timing.cleanTo);
+    if (!range) return;
+
+    if (this.currentRange && this.currentRange.from === range.from && this.currentRange.to === range.to) return;
+    this.currentRange = range;
+    this.dispatch(range);
+  }
+
+  /**
+   * Position in the cleaned text of the word spoken at the given playback time,
+   * or null when the TTS provider doesn't report word timings
+   */
+  getSpokenOffset(currentTime: number): number | null {
+    const timing = this.findTiming(currentTime);
+    return timing ? timing.cleanFrom : null;
+  }
+
+  /**
+   * Playback time at which the word at or after the given position in the cleaned text is
+   * spoken, or null when no timing for it was reported (yet)
+   */
+  getTimeAtOffset(cleanOffset: number): number | null {
+    let low = 0;
+    let high = this.timings.length - 1;
+    let result: WordTiming | null = null;
+    while (low <= high) {
+      const mid = (low + high) >> 1;
+      if (this.timings[mid].cleanTo > cleanOffset) {
+        result = this.timings[mid];
+        high = mid - 1;
+      } else {
+        low = mid + 1;
+      }
+    }
+    return result ? result.start : null;
+  }
+
+  /**
+   * Remove the highlight from the editor
+   */
+  clear(): void {
+    if (this.currentRange) {
+      this.currentRange = null;
+      this.dispatch(null);
+    }
+  }
+
+  // Last word that started at or before the given time
+  private findTiming(time: number): WordTiming | null {
+    let low = 0;
+    let high = this.timings.length - 1;
+    let result: WordTiming | null = null;
+    while (low <= high) {
+      const mid = (low + high) >> 1;
+      if (this.timings[mid].start <= time) {
+        result = this.timings[mid];
+        low = mid + 1;
+      } else {
+        high = mid - 1;
+      }
+    }
+    return result;
+  }
+
+  // Map a range of the cleaned text to document offsets
+  private mapCleanRange(cleanFrom: number, cleanTo: number): { from: number, to: number } | null {
+    if (!this.sourceMap || cleanTo <= cleanFrom) return null;
+    const range = this.sourceMap.toSourceRange(cleanFrom, cleanTo);
+    return {
+      from: this.source!.offset + range.from,
+      to: this.source!.offset + range.to,
+    };
+  }
+
+  // Map the sentence containing the given clean position
+  private getSentenceSourceRange(cleanOffset: number): { from: number, to: number } | null {
+    const text = this.cleanText;
+    let start = cleanOffset;
+    while (start > 0 && !/[.!?\n]/.test(text[start - 1])) start--;
+    let end = cleanOffset;
+    while (end < text.length && !/[.!?\n]/.test(text[end])) end++;
+    if (end < text.length && text[end] !== '\n') end++; // Include the sentence's punctuation
+
+    return this.mapCleanRange(start, end);
+  }
+
+  private dispatch(range: { from: number, to: number } | null): void {
+    if (!this.source) return;
+
+    const view = getEditorView(this.source.editor);
+    if (!view || !view.dom.isConnected) return;
+
+    const docLength = view.state.doc.length;
+    const clamped = range && range.from < docLength
+      ? { from: range.from, to: Math.min(range.to, docLength) }
+      : null;
+
+    const effects: StateEffect<unknown>[] = [setPlaybackHighlight.of(clamped)];
+    if (clamped && this.settings.autoScrollHighlight) {
+      effects.push(EditorView.scrollIntoView(clamped.from, { y: 'nearest', yMargin: 80 }));
+    }
+    view.dispatch({ effects });
+  }
+}
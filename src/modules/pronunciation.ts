@@ -0,0 +1,135 @@
+import type { EdgeTTSPluginSettings } from './settings';
+import { TrackedText } from '../lib/source-map';
+import { findFrontmatterEnd } from '../lib/markdown-parser';
+
+/**
+ * A word or pattern and how it should be pronounced
+ */
+export interface PronunciationRule {
+  pattern: string;      // Literal text, or a regular expression when isRegex is set
+  replacement: string;  // Spoken text; regex rules may use $1, $2, ... for groups
+  isRegex: boolean;
+  wholeWord: boolean;   // Only match when not part of a longer word
+  caseSensitive: boolean;
+}
+
+// Rules read from the pronunciation note set in the settings
+let vaultRules: PronunciationRule[] = [];
+
+// Characters that make up a word for whole-word matching
+const WORD_CHAR = '[\\p{L}\\p{N}_]';
+
+/**
+ * Replace the rules loaded from the vault pronunciation note
+ */
+export function setVaultPronunciationRules(rules: PronunciationRule[]): void {
+  vaultRules = rules;
+}
+
+/**
+ * Rules from the settings followed by the rules from the vault note
+ */
+export function getPronunciationRules(settings: EdgeTTSPluginSettings): PronunciationRule[] {
+  return [...(settings.pronunciation?.rules || []), ...vaultRules];
+}
+
+/**
+ * Read rules from a note, one "pattern => replacement" per line. Lines without "=>" are ignored,
+ * so the note can have headings and explanations. "/regex/flags => replacement" adds a regex rule
+ * (the "i" flag makes it case-insensitive). Plain patterns match whole words, and only match
+ * case-sensitively when they contain an uppercase letter.
+ */
+export function parsePronunciationNote(content: string): PronunciationRule[] {
+  const frontmatterEnd = findFrontmatterEnd(content);
+  const body = frontmatterEnd === -1 ? content : content.slice(frontmatterEnd);
+  const rules: PronunciationRule[] = [];
+
+  for (const rawLine of body.split('\n')) {
+    const line = rawLine.replace(/^\s*(?:[-*+]\s+)?/, '').replace(/\s+$/, '');
+
+    const regexRule = /^\/(.+)\/([a-z]*)\s*=>\s*(.*)$/.exec(line);
+    if (regexRule) {
+      rules.push({
+        pattern: regexRule[1],
+        replacement: regexRule[3],
+        isRegex: true,
+        wholeWord: false,
+        caseSensitive: regexRule[2].indexOf('i') === -1,
+      });
+      continue;
+    }
+
+    const literalRule = /^(.+?)\s*=>\s*(.*)$/.exec(line);
+    if (literalRule) {
+      rules.push({
+        pattern: literalRule[1],
+        replacement: literalRule[2],
+        isRegex: false,
+        wholeWord: true,
+        caseSensitive: literalRule[1] !== literalRule[1].toLowerCase(),
+      });
+    }
+  }
+
+  return rules;
+}
+
+/**
+ * Error message for a rule that can't be used, or null when the rule is valid
+ */
+export function validatePronunciationRule(rule: PronunciationRule): string | null {
+  if (!rule.pattern) return 'Pattern is empty';
+  try {
+    compileRule(rule);
+    return null;
+  } catch (error) {
+    return error instanceof Error ? error.message : 'Invalid pattern';
+  }
+}
+
+/**
+ * Apply the pronunciation rules to cleaned text. Runs after filterMarkdown.
+ */
+export function applyPronunciation(text: string, settings: EdgeTTSPluginSettings): string {
+  return applyPronunciationTracked(TrackedText.fromSource(text), settings).text;
+}
+
+/**
+ * Same as applyPronunciation, keeping track of where the text is in the original note
+ */
+export function applyPronunciationTracked(text: TrackedText, settings: EdgeTTSPluginSettings): TrackedText {
+  for (const rule of getPronunciationRules(settings)) {
+    if (!rule.pattern) continue;
+
+    let regex: RegExp;
+    try {
+      regex = compileRule(rule);
+    } catch (error) {
+      continue; // Invalid rules are reported in the settings and skipped here
+    }
+
+    // Literal replacements are spoken as typed, so "$" has no special meaning
+    const replacement = rule.isRegex ? rule.replacement : rule.replacement.replace(/\$/g, '$$$$');
+    text = text.replace(regex, replacement);
+  }
+  return text;
+}
+
+// Build the regular expression for a rule; throws for invalid regex patterns
+function compileRule(rule: PronunciationRule): RegExp {
+  const source = rule.isRegex ? rule.pattern : rule.pattern.replace(/[.*+?^${}()|[\]\\]/g, '\\$&');
+  const flags = rule.caseSensitive ? 'g' : 'gi';
+
+  const regex = rule.wholeWord ? compileWholeWord(source, flags) : new RegExp(source, flags);
+  if (regex.test('')) throw new Error('Pattern matches empty text');
+  return regex;
+}
+
+function compileWholeWord(source: string, flags: string): RegExp {
+  try {
+    return new RegExp(`(?<!${WORD_CHAR})(?:${source})(?!${WORD_CHAR})`, flags + 'u');
+  } catch (error) {
+    // Patterns that aren't valid in Unicode mode (or engines without lookbehind) use ASCII word boundaries
+    return new RegExp(`\\b(?:${source})\\b`, flags);
+  }
+}
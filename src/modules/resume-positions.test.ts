@@ -0,0 +1,60 @@
+import { describe, expect, it } from 'vitest';
+import { createResumePosition, findResumeOffset, isWorthResuming } from './resume-positions';
+
+const note = 'The first sentence is here. The second sentence follows it. A third one ends the note.';
+const startOf = (text: string, part: string) => text.indexOf(part);
+
+describe('createResumePosition', () => {
+  it('keeps the text at the offset as a snippet, and the chunk when given', () => {
+    const offset = startOf(note, 'second');
+    const position = createResumePosition(note, offset, 2);
+
+    expect(position.offset).toBe(offset);
+    expect(note.startsWith(position.snippet, offset)).toBe(true);
+    expect(position.snippet.length).toBeGreaterThan(0);
+    expect(position.chunkIndex).toBe(2);
+    expect('chunkIndex' in createResumePosition(note, offset)).toBe(false);
+  });
+});
+
+describe('isWorthResuming', () => {
+  it('only offers positions some way into the note', () => {
+    expect(isWorthResuming(undefined)).toBe(false);
+    expect(isWorthResuming(createResumePosition(note, 3))).toBe(false);
+    expect(isWorthResuming(createResumePosition(note, startOf(note, 'second')))).toBe(true);
+  });
+});
+
+describe('findResumeOffset', () => {
+  it('backs up to the start of the sentence', () => {
+    const position = createResumePosition(note, startOf(note, 'sentence follows'));
+    expect(findResumeOffset(note, position)).toBe(startOf(note, 'The second'));
+  });
+
+  it('finds the snippet again after text was added before it', () => {
+    const position = createResumePosition(note, startOf(note, 'A third'));
+    const edited = 'A new opening sentence was added. ' + note;
+    expect(findResumeOffset(edited, position)).toBe(startOf(edited, 'A third'));
+  });
+
+  it('finds the snippet again after text before it was removed', () => {
+    const position = createResumePosition(note, startOf(note, 'A third'));
+    const edited = note.replace('The first sentence is here. ', '');
+    expect(findResumeOffset(edited, position)).toBe(startOf(edited, 'A third'));
+  });
+
+  it('picks the copy of the snippet closest to the stored offset', () => {
+    const repeated = 'Again and again. Again and again. Again and again.';
+    const second = repeated.indexOf('Again', 1);
+    const position = createResumePosition(repeated, second);
+    const edited = 'Hi. ' + repeated;
+    expect(findResumeOffset(edited, position)).toBe('Hi. '.length + second);
+  });
+
+  it('clamps an offset past the end of a shortened note', () => {
+    const position = createResumePosition(note, startOf(note, 'A third'));
+    const shortened = 'Only this sentence is left';
+    expect(findResumeOffset(shortened, position)).toBe(0);
+    expect(findResumeOffset('Short. Text', position)).toBe(startOf('Short. Text', 'Text'));
+  });
+});
@@ -0,0 +1,57 @@
+/**
+ * Where reading of a note stopped, stored per file path in plugin data
+ */
+export interface ResumePosition {
+  offset: number;     // Character offset into the note's cleaned (filtered) text
+  chunkIndex?: number; // Chunk being played when the note was read in chunks
+  snippet: string;    // Cleaned text at the offset, used to find the position again after edits
+  updatedAt: number;
+}
+
+// Length of the text kept to find the position again after the note was edited
+const SNIPPET_LENGTH = 40;
+// Positions this close to the start aren't worth resuming from
+const MIN_RESUME_OFFSET = 20;
+
+/**
+ * Build a resume position for the given offset into the cleaned text
+ */
+export function createResumePosition(cleanText: string, offset: number, chunkIndex?: number): ResumePosition {
+  const position: ResumePosition = {
+    offset,
+    snippet: cleanText.slice(offset, offset + SNIPPET_LENGTH),
+    updatedAt: Date.now(),
+  };
+  if (chunkIndex !== undefined) position.chunkIndex = chunkIndex;
+  return position;
+}
+
+/**
+ * Whether a position is far enough into the note to offer resuming
+ */
+export function isWorthResuming(position: ResumePosition | undefined): position is ResumePosition {
+  return !!position && position.offset >= MIN_RESUME_OFFSET;
+}
+
+/**
+ * Find where to resume in the (possibly edited) cleaned text. Prefers the stored
+ * snippet closest to the stored offset, then backs up to the start of the sentence.
+ */
+export function findResumeOffset(cleanText: string, position: ResumePosition): number {
+  let offset = Math.min(position.offset, cleanText.length);
+
+  if (position.snippet && cleanText.slice(offset, offset + position.snippet.length) !== position.snippet) {
+    const before = cleanText.lastIndexOf(position.snippet, offset);
+    const after = cleanText.indexOf(position.snippet, offset);
+    if (before !== -1 && (after === -1 || offset - before <= after - offset)) {
+      offset = before;
+    } else if (after !== -1) {
+      offset = after;
+    }
+  }
+
+  // Start of the sentence or line containing the offset
+  while (offset > 0 && !/[.!?\n]/.test(cleanText[offset - 1])) offset--;
+  while (offset < cleanText.length && /\s/.test(cleanText[offset])) offset++;
+  return offset;
+}
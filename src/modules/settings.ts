@@ -1,8 +1,20 @@
 import { App, Notice, PluginSettingTab, Setting, Platform } from 'obsidian';
 import EdgeTTSPlugin from '../main';
 import { APP_STORE_LINKS } from './constants';
-import { detectUserLanguage } from '../utils';
+import { detectUserLanguage, filterMarkdown } from '../utils';
 import { COMPARISON_SYMBOL_TRANSLATIONS } from '../lib/translations';
+import { DEFAULT_TTS_PROVIDER_ID, getRegisteredTTSProviders } from './tts-provider';
+import type { TTSVoice } from './tts-provider';
+import { VoicePickerModal } from './voice-picker-modal';
+import type { ResumePosition } from './resume-positions';
+import { applyPronunciation, validatePronunciationRule } from './pronunciation';
+import type { PronunciationRule } from './pronunciation';
+import type { LanguageVoice } from './language-voices';
+import { MULTILINGUAL_VOICE } from './language-voices';
+import type { SpeakerVoice } from './speaker-voices';
+import { stripPauseMarkers } from '../lib/pauses';
+import { stripSpeakerMarkers } from '../lib/speakers';
+import { MAX_CHUNK_CONCURRENCY, MIN_CHUNK_CONCURRENCY } from './chunk-synthesis';
 
 // Import SVG content as strings
 // eslint-disable-next-line @typescript-eslint/no-var-requires
@@ -12,9 +24,29 @@ const appleAppStoreIconSvg = require('../assets/apple-app-store.svg');
 
 // Settings interface and default settings
 export interface EdgeTTSPluginSettings {
+  ttsProvider: string; // Id of the registered TTS provider used for synthesis
   selectedVoice: string;
   customVoice: string;
   playbackSpeed: number;
+  pitch: number; // Hz offset (0 = voice default)
+  volume: number; // Percent offset (0 = voice default)
+  voiceCache: Record<string, { fetchedAt: number; voices: TTSVoice[] }>; // Voice lists per provider, kept for offline use
+
+  // OpenAI-compatible speech server (used when ttsProvider is 'openai-compatible')
+  openAITTS: {
+    baseUrl: string; // e.g. http://localhost:8880 — "/v1/audio/speech" is appended
+    apiKey: string;
+    model: string;
+    voice: string;
+  };
+
+  // Local executable (used when ttsProvider is 'local-command', desktop only)
+  localCommandTTS: {
+    command: string; // Path to the executable
+    args: string; // Argument template; supports {voice}, {rate}, {length_scale}, {pitch} and {volume}
+    voice: string;
+    outputFormat: 'mp3' | 'wav'; // Format the command writes to stdout
+  };
 
   showNotices: boolean;
   showStatusBarButton: boolean;
@@ -30,17 +62,31 @@ export interface EdgeTTSPluginSettings {
     filterFrontmatter: boolean;
     filterMarkdownLinks: boolean;
     filterCodeBlocks: boolean;
+    announceCodeBlocks: boolean; // Say "Code block in TypeScript, 24 lines, skipped" for filtered code blocks
+    readShortCodeBlocks: number; // Read filtered code blocks up to this many lines, symbols as words (0 = off)
     filterInlineCode: boolean;
     filterHtmlTags: boolean;
     filterTables: boolean;
+    tableNarration: 'cells' | 'rows'; // How tables are read when they aren't filtered
+    tableRowLimit: number; // Rows read in 'rows' mode before summarizing the rest (0 = all)
     filterImages: boolean;
     filterFootnotes: boolean;
     filterComments: boolean;
     filterMathExpressions: boolean;
+    speakMath: boolean; // Read LaTeX math as words ("a over b") instead of as written
     filterWikiLinks: boolean;
     filterHighlights: boolean;
     filterCallouts: boolean;
     replaceComparisonSymbols: boolean;
+    verbalizeNumbers: boolean; // Read dates, amounts, units, versions and fractions in words
+    announceHeadings: boolean; // Say "Section:" before headings
+    announceListItems: boolean; // Say "Item 1 of 4:" before list items
+    announceCallouts: boolean; // Say "Warning callout:" before callout titles
+    pauseAfterHeadings: number; // Milliseconds of silence after headings (Edge MP3 audio only)
+    pauseBetweenParagraphs: number; // Milliseconds of silence between paragraphs (Edge MP3 audio only)
+    readEmbeddedNotes: boolean; // Read the content of embedded notes (![[Note]]) in place
+    embedDepth: number; // How many levels of embeds within embeds are read
+    dialogueMode: boolean; // Read "**Alice:**" lines and "> [!quote] Bob" callouts with the speakers' voices
   };
 
   // Symbol replacement settings
@@ -55,6 +101,21 @@ export interface EdgeTTSPluginSettings {
     };
   };
 
+  // Pronunciation lexicon, applied to the cleaned text before synthesis
+  pronunciation: {
+    rules: PronunciationRule[];
+    notePath: string; // Vault note with more rules, one "pattern => replacement" per line
+  };
+
+  // Voices for paragraphs detected to be in other languages
+  languageVoices: {
+    enabled: boolean;
+    voices: LanguageVoice[];
+  };
+
+  // Voices for speakers in dialogue mode; notes can set their own with "tts-speakers" in frontmatter
+  speakerVoices: SpeakerVoice[];
+
   // overrideAmpersandEscape: boolean; // No longer needed - edge-tts-universal handles XML escaping internally
   floatingPlayerPosition: { x: number; y: number } | null;
   disablePlaybackControlPopover: boolean;
@@ -62,6 +123,13 @@ export interface EdgeTTSPluginSettings {
   enableQueueFeature: boolean;
   queueManagerPosition: { x: number; y: number } | null;
   autoPauseOnWindowBlur: boolean;
+  webSpeechFallback: 'off' | 'on-failure' | 'always'; // Read with the system voice (speechSynthesis) instead of the TTS provider
+  highlightMode: 'off' | 'word' | 'sentence'; // Highlight the spoken text in the editor during playback
+  autoScrollHighlight: boolean;
+  offerResumeOnOpen: boolean; // Offer to continue reading when a partly read note is opened
+  showPlayButtons: boolean; // Play buttons next to paragraphs and headings, in the editor gutter and reading view
+  resumePositions: Record<string, ResumePosition>; // Where reading stopped, per file path
+  chunkConcurrency: number; // Chunks of long text synthesized at once, for playback and MP3 generation
 
   // Experimental and mobile-specific features
   enableExperimentalFeatures: boolean;
@@ -85,9 +153,27 @@ export const TOP_VOICES = [
 ];
 
 export const DEFAULT_SETTINGS: EdgeTTSPluginSettings = {
+  ttsProvider: DEFAULT_TTS_PROVIDER_ID,
   selectedVoice: 'en-US-AvaNeural',
   customVoice: '',
   playbackSpeed: 1.0,
+  pitch: 0,
+  volume: 0,
+  voiceCache: {},
+
+  openAITTS: {
+    baseUrl: '',
+    apiKey: '',
+    model: 'tts-1',
+    voice: 'alloy',
+  },
+
+  localCommandTTS: {
+    command: '',
+    args: '',
+    voice: '',
+    outputFormat: 'wav',
+  },
 
   showNotices: true,
   showStatusBarButton: true,
@@ -103,17 +189,31 @@ export const DEFAULT_SETTINGS: EdgeTTSPluginSettings = {
     filterFrontmatter: true,
     filterMarkdownLinks: false, // Disabled by default
     filterCodeBlocks: true,
+    announceCodeBlocks: false,
+    readShortCodeBlocks: 0,
     filterInlineCode: true,
     filterHtmlTags: true,
     filterTables: true, // This might be one the user wants to adjust
+    tableNarration: 'cells',
+    tableRowLimit: 20,
     filterImages: true,
     filterFootnotes: true,
     filterComments: true,
     filterMathExpressions: false,
+    speakMath: false,
     filterWikiLinks: false,
     filterHighlights: true, // (this just removes the == — the text should remain)
     filterCallouts: false, // Keep callouts by default
     replaceComparisonSymbols: true, // Enable by default to prevent XML issues
+    verbalizeNumbers: false,
+    announceHeadings: false,
+    announceListItems: false,
+    announceCallouts: false,
+    pauseAfterHeadings: 0,
+    pauseBetweenParagraphs: 0,
+    readEmbeddedNotes: false,
+    embedDepth: 2,
+    dialogueMode: false,
   },
 
   // Symbol replacement settings
@@ -128,6 +228,18 @@ export const DEFAULT_SETTINGS: EdgeTTSPluginSettings = {
     },
   },
 
+  pronunciation: {
+    rules: [],
+    notePath: '',
+  },
+
+  languageVoices: {
+    enabled: false,
+    voices: [],
+  },
+
+  speakerVoices: [],
+
   // overrideAmpersandEscape: false, // No longer needed - edge-tts-universal handles XML escaping internally
   floatingPlayerPosition: null,
   disablePlaybackControlPopover: false,
@@ -135,6 +247,13 @@ export const DEFAULT_SETTINGS: EdgeTTSPluginSettings = {
   enableQueueFeature: true,
   queueManagerPosition: null,
   autoPauseOnWindowBlur: false,
+  webSpeechFallback: 'on-failure',
+  highlightMode: 'off',
+  autoScrollHighlight: true,
+  offerResumeOnOpen: false,
+  showPlayButtons: false,
+  resumePositions: {},
+  chunkConcurrency: 2,
 
   // Experimental and mobile-specific features
   enableExperimentalFeatures: false,
@@ -169,20 +288,52 @@ export class EdgeTTSPluginSettingTab extends PluginSettingTab {
 
     inbetweenInfo.appendChild(infoText)
 
+    // Dropdown for the TTS provider
+    new Setting(containerEl)
+      .setName('TTS provider')
+      .setDesc('Choose the speech engine used for playback and MP3 generation.')
+      .addDropdown(dropdown => {
+        getRegisteredTTSProviders().forEach(provider => {
+          dropdown.addOption(provider.id, provider.name);
+        });
+        dropdown.setValue(this.plugin.settings.ttsProvider);
+        dropdown.onChange(async (value) => {
+          this.plugin.settings.ttsProvider = value;
+          await this.plugin.saveSettings();
+          this.display(); // Refresh to show provider-specific options
+        });
+      });
+
+    if (this.plugin.settings.ttsProvider === 'openai-compatible') {
+      this.displayOpenAISettings(containerEl);
+    } else if (this.plugin.settings.ttsProvider === 'local-command') {
+      this.displayLocalCommandSettings(containerEl);
+    }
+
     // Dropdown for top voices
     new Setting(containerEl)
       .setName('Select voice')
-      .setDesc('Choose from the top voices.')
+      .setDesc('Choose from the top voices, or browse the full voice list.')
       .setClass('default-style')
       .addDropdown(dropdown => {
         TOP_VOICES.forEach(voice => {
           dropdown.addOption(voice, voice);
         });
+        // Keep a voice picked from the full list selectable
+        if (!TOP_VOICES.includes(this.plugin.settings.selectedVoice)) {
+          dropdown.addOption(this.plugin.settings.selectedVoice, this.plugin.settings.selectedVoice);
+        }
         dropdown.setValue(this.plugin.settings.selectedVoice);
         dropdown.onChange(async (value) => {
           this.plugin.settings.selectedVoice = value;
           await this.plugin.saveSettings();
         });
+      })
+      .addButton(button => {
+        button.setButtonText('Browse voices');
+        button.onClick(() => {
+          new VoicePickerModal(this.app, this.plugin, voice => this.setProviderVoice(voice)).open();
+        });
       });
 
     const patternFragment = document.createDocumentFragment();
@@ -222,6 +373,98 @@ export class EdgeTTSPluginSettingTab extends PluginSettingTab {
         slider.showTooltip();
       });
 
+    // Slider for pitch
+    new Setting(containerEl)
+      .setName('Pitch')
+      .setDesc('Raise or lower the voice pitch in Hz (ex. -10 = 10 Hz lower). Can be overridden per note with the tts-pitch frontmatter property. Default = 0')
+      .addSlider(slider => {
+        slider.setLimits(-50, 50, 1);
+        slider.setValue(this.plugin.settings.pitch);
+        slider.onChange(async (value) => {
+          this.plugin.settings.pitch = value;
+          await this.plugin.saveSettings();
+        });
+        slider.setDynamicTooltip();
+      });
+
+    // Slider for volume
+    new Setting(containerEl)
+      .setName('Volume')
+      .setDesc('Make the voice louder or quieter in percent (ex. -20 = 20% quieter). Can be overridden per note with the tts-volume frontmatter property. Default = 0')
+      .addSlider(slider => {
+        slider.setLimits(-50, 50, 5);
+        slider.setValue(this.plugin.settings.volume);
+        slider.onChange(async (value) => {
+          this.plugin.settings.volume = value;
+          await this.plugin.saveSettings();
+        });
+        slider.setDynamicTooltip();
+      });
+
+    // Dropdown for the system voice fallback
+    new Setting(containerEl)
+      .setName('System voice fallback')
+      .setDesc('Read aloud with your device\'s built-in voices when the TTS provider can\'t be reached (e.g. offline). Playback only — MP3 generation always uses the TTS provider.')
+      .addDropdown(dropdown => {
+        dropdown.addOption('off', 'Off');
+        dropdown.addOption('on-failure', 'When the TTS provider fails');
+        dropdown.addOption('always', 'Always');
+        dropdown.setValue(this.plugin.settings.webSpeechFallback);
+        dropdown.onChange(async (value) => {
+          this.plugin.settings.webSpeechFallback = value as 'off' | 'on-failure' | 'always';
+          await this.plugin.saveSettings();
+        });
+      });
+
+    // Dropdown for highlighting the spoken text
+    new Setting(containerEl)
+      .setName('Highlight spoken text')
+      .setDesc('Highlight the word or sentence being read in the editor. Requires a TTS provider that reports word timings (Microsoft Edge).')
+      .addDropdown(dropdown => {
+        dropdown.addOption('off', 'Off');
+        dropdown.addOption('word', 'Word');
+        dropdown.addOption('sentence', 'Sentence');
+        dropdown.setValue(this.plugin.settings.highlightMode);
+        dropdown.onChange(async (value) => {
+          this.plugin.settings.highlightMode = value as 'off' | 'word' | 'sentence';
+          await this.plugin.saveSettings();
+        });
+      });
+
+    new Setting(containerEl)
+      .setName('Scroll to spoken text')
+      .setDesc('Keep the highlighted text in view while reading.')
+      .addToggle(toggle => {
+        toggle.setValue(this.plugin.settings.autoScrollHighlight);
+        toggle.onChange(async (value) => {
+          this.plugin.settings.autoScrollHighlight = value;
+          await this.plugin.saveSettings();
+        });
+      });
+
+    new Setting(containerEl)
+      .setName('Offer to resume reading')
+      .setDesc('When you open a note you stopped reading partway through, offer to continue from where you left off. The "Resume reading note" command works either way.')
+      .addToggle(toggle => {
+        toggle.setValue(this.plugin.settings.offerResumeOnOpen);
+        toggle.onChange(async (value) => {
+          this.plugin.settings.offerResumeOnOpen = value;
+          await this.plugin.saveSettings();
+        });
+      });
+
+    new Setting(containerEl)
+      .setName('Show play buttons next to paragraphs')
+      .setDesc('Add a play button beside each paragraph and heading, in the editor gutter and in reading view, to start reading from there. Alt-click reads to the end of the section.')
+      .addToggle(toggle => {
+        toggle.setValue(this.plugin.settings.showPlayButtons);
+        toggle.onChange(async (value) => {
+          this.plugin.settings.showPlayButtons = value;
+          await this.plugin.saveSettings();
+          this.plugin.updatePlayButtons();
+        });
+      });
+
     // Notice toggle setting
     new Setting(containerEl)
       .setName('Show notices')
@@ -334,8 +577,8 @@ export class EdgeTTSPluginSettingTab extends PluginSettingTab {
       chunkedInfoText.style.fontSize = '13px';
       chunkedInfoText.style.color = 'var(--text-muted)';
       chunkedInfoText.innerHTML = `
-        <strong>Note:</strong> For long notes (text exceeding 4096 bytes), MP3 generation will automatically use 
-        a chunked approach. This splits the text into smaller parts (max 4096 bytes each), generates audio for each part, then combines them. 
+        <strong>Note:</strong> For long notes (text exceeding what the TTS provider accepts in one request, 4096 bytes for Edge TTS), MP3 generation will automatically use 
+        a chunked approach. This splits the text into smaller parts that each fit in a request, generates audio for each part, then combines them. 
         A progress indicator will show the status of each chunk during generation.
       `;
       chunkedInfo.appendChild(chunkedInfoText);
@@ -459,6 +702,19 @@ export class EdgeTTSPluginSettingTab extends PluginSettingTab {
 
     containerEl.createEl('h3', { text: 'Advanced settings' });
 
+    new Setting(containerEl)
+      .setName('Parallel chunk synthesis')
+      .setDesc('How many chunks of a long note are synthesized at once. More avoids gaps between chunks on slow connections and speeds up MP3 generation, but sends more requests at a time. Default = 2')
+      .addSlider(slider => {
+        slider.setLimits(MIN_CHUNK_CONCURRENCY, MAX_CHUNK_CONCURRENCY, 1);
+        slider.setValue(this.plugin.settings.chunkConcurrency);
+        slider.onChange(async (value) => {
+          this.plugin.settings.chunkConcurrency = value;
+          await this.plugin.saveSettings();
+        });
+        slider.setDynamicTooltip();
+      });
+
     // Experimental features toggle
     new Setting(containerEl)
       .setName('Enable experimental features')
@@ -585,6 +841,30 @@ export class EdgeTTSPluginSettingTab extends PluginSettingTab {
         });
       });
 
+    new Setting(textFilteringContent)
+      .setName('Announce filtered code blocks')
+      .setDesc('Instead of skipping filtered code blocks silently, say what was skipped, e.g. "Code block in TypeScript, 24 lines, skipped".')
+      .addToggle(toggle => {
+        toggle.setValue(this.plugin.settings.textFiltering.announceCodeBlocks);
+        toggle.onChange(async (value) => {
+          this.plugin.settings.textFiltering.announceCodeBlocks = value;
+          await this.plugin.saveSettings();
+        });
+      });
+
+    new Setting(textFilteringContent)
+      .setName('Read short code blocks')
+      .setDesc('Read filtered code blocks with up to this many lines, with symbols said as (English) words, e.g. "a => b" as "a arrow b". 0 = off. Default = 0')
+      .addSlider(slider => {
+        slider.setLimits(0, 20, 1);
+        slider.setValue(this.plugin.settings.textFiltering.readShortCodeBlocks);
+        slider.onChange(async (value) => {
+          this.plugin.settings.textFiltering.readShortCodeBlocks = value;
+          await this.plugin.saveSettings();
+        });
+        slider.setDynamicTooltip();
+      });
+
     new Setting(textFilteringContent)
       .setName('Filter inline code')
       .setDesc('Remove backtick markers from inline code (`code`) while keeping the code text.')
@@ -608,6 +888,32 @@ export class EdgeTTSPluginSettingTab extends PluginSettingTab {
         });
       });
 
+    new Setting(textFilteringContent)
+      .setName('Read tables as')
+      .setDesc('How tables are read when they are not filtered: the cells of each row, or one sentence per row pairing each value with its column ("Price: 10, Color: red").')
+      .addDropdown(dropdown => {
+        dropdown.addOption('cells', 'Cells, row by row');
+        dropdown.addOption('rows', 'Column: value sentences');
+        dropdown.setValue(this.plugin.settings.textFiltering.tableNarration);
+        dropdown.onChange(async (value) => {
+          this.plugin.settings.textFiltering.tableNarration = value as 'cells' | 'rows';
+          await this.plugin.saveSettings();
+        });
+      });
+
+    new Setting(textFilteringContent)
+      .setName('Table row limit')
+      .setDesc('Rows read per table in "Column: value" mode. Remaining rows are summarized as "and N more rows". 0 = read all rows. Default = 20')
+      .addSlider(slider => {
+        slider.setLimits(0, 100, 5);
+        slider.setValue(this.plugin.settings.textFiltering.tableRowLimit);
+        slider.onChange(async (value) => {
+          this.plugin.settings.textFiltering.tableRowLimit = value;
+          await this.plugin.saveSettings();
+        });
+        slider.setDynamicTooltip();
+      });
+
     new Setting(textFilteringContent)
       .setName('Filter images')
       .setDesc('Remove image embeds ![alt](url) and attachments ![[image.png]].')
@@ -675,6 +981,17 @@ export class EdgeTTSPluginSettingTab extends PluginSettingTab {
         });
       });
 
+    new Setting(textFilteringContent)
+      .setName('Read math aloud')
+      .setDesc('Read LaTeX math as words, e.g. \\frac{a}{b} as "a over b" and x^2 as "x squared" (English only). Math that can\'t be read is replaced with "equation omitted". Takes precedence over filtering math expressions.')
+      .addToggle(toggle => {
+        toggle.setValue(this.plugin.settings.textFiltering.speakMath);
+        toggle.onChange(async (value) => {
+          this.plugin.settings.textFiltering.speakMath = value;
+          await this.plugin.saveSettings();
+        });
+      });
+
     new Setting(textFilteringContent)
       .setName('Filter HTML tags')
       .setDesc('Remove HTML tags while preserving the text content.')
@@ -697,6 +1014,101 @@ export class EdgeTTSPluginSettingTab extends PluginSettingTab {
         });
       });
 
+    new Setting(textFilteringContent)
+      .setName('Read numbers naturally')
+      .setDesc('Read dates (2024-05-01), amounts of money ($1.2M), measurements (5km), versions (v2.3.1) and common fractions (3/4) in words. Uses the language of the Symbol Replacement section below.')
+      .addToggle(toggle => {
+        toggle.setValue(this.plugin.settings.textFiltering.verbalizeNumbers);
+        toggle.onChange(async (value) => {
+          this.plugin.settings.textFiltering.verbalizeNumbers = value;
+          await this.plugin.saveSettings();
+        });
+      });
+
+    // Narration cues
+    new Setting(textFilteringContent)
+      .setName('Announce headings')
+      .setDesc('Say "Section:" before each heading, since the # markers are not read.')
+      .addToggle(toggle => {
+        toggle.setValue(this.plugin.settings.textFiltering.announceHeadings);
+        toggle.onChange(async (value) => {
+          this.plugin.settings.textFiltering.announceHeadings = value;
+          await this.plugin.saveSettings();
+        });
+      });
+
+    new Setting(textFilteringContent)
+      .setName('Announce list items')
+      .setDesc('Say "Item 1 of 4:" before each list item.')
+      .addToggle(toggle => {
+        toggle.setValue(this.plugin.settings.textFiltering.announceListItems);
+        toggle.onChange(async (value) => {
+          this.plugin.settings.textFiltering.announceListItems = value;
+          await this.plugin.saveSettings();
+        });
+      });
+
+    new Setting(textFilteringContent)
+      .setName('Announce callouts')
+      .setDesc('Say the callout type before callout titles, e.g. "Warning callout:" for > [!warning].')
+      .addToggle(toggle => {
+        toggle.setValue(this.plugin.settings.textFiltering.announceCallouts);
+        toggle.onChange(async (value) => {
+          this.plugin.settings.textFiltering.announceCallouts = value;
+          await this.plugin.saveSettings();
+        });
+      });
+
+    new Setting(textFilteringContent)
+      .setName('Pause after headings')
+      .setDesc('Silence after each heading, in milliseconds. Only added to audio from the Microsoft Edge provider. Default = 0')
+      .addSlider(slider => {
+        slider.setLimits(0, 2000, 100);
+        slider.setValue(this.plugin.settings.textFiltering.pauseAfterHeadings);
+        slider.onChange(async (value) => {
+          this.plugin.settings.textFiltering.pauseAfterHeadings = value;
+          await this.plugin.saveSettings();
+        });
+        slider.setDynamicTooltip();
+      });
+
+    new Setting(textFilteringContent)
+      .setName('Pause between paragraphs')
+      .setDesc('Silence between paragraphs, in milliseconds. Only added to audio from the Microsoft Edge provider. Default = 0')
+      .addSlider(slider => {
+        slider.setLimits(0, 2000, 100);
+        slider.setValue(this.plugin.settings.textFiltering.pauseBetweenParagraphs);
+        slider.onChange(async (value) => {
+          this.plugin.settings.textFiltering.pauseBetweenParagraphs = value;
+          await this.plugin.saveSettings();
+        });
+        slider.setDynamicTooltip();
+      });
+
+    new Setting(textFilteringContent)
+      .setName('Read embedded notes')
+      .setDesc('Read the content of embedded notes (![[Note]], ![[Note#Heading]], ![[Note#^block]]) where they are embedded, instead of their names. Applies when reading notes aloud and generating MP3s.')
+      .addToggle(toggle => {
+        toggle.setValue(this.plugin.settings.textFiltering.readEmbeddedNotes);
+        toggle.onChange(async (value) => {
+          this.plugin.settings.textFiltering.readEmbeddedNotes = value;
+          await this.plugin.saveSettings();
+        });
+      });
+
+    new Setting(textFilteringContent)
+      .setName('Embed depth')
+      .setDesc('How many levels of embeds within embedded notes are read. Deeper embeds are read by name, and a note embedded in itself is never read again. Default = 2')
+      .addSlider(slider => {
+        slider.setLimits(1, 5, 1);
+        slider.setValue(this.plugin.settings.textFiltering.embedDepth);
+        slider.onChange(async (value) => {
+          this.plugin.settings.textFiltering.embedDepth = value;
+          await this.plugin.saveSettings();
+        });
+        slider.setDynamicTooltip();
+      });
+
 
     // Create collapsible symbol replacement section
     const symbolReplacementHeader = containerEl.createEl('div', {
@@ -866,9 +1278,524 @@ export class EdgeTTSPluginSettingTab extends PluginSettingTab {
       `;
     }
 
+    this.displayPronunciationSettings(containerEl);
+
+    this.displayLanguageVoiceSettings(containerEl);
+
+    this.displayDialogueSettings(containerEl);
+
     // containerEl.createEl('h3', { text: 'Extra settings' });
 
     // Legacy ampersand escaping setting removed - edge-tts-universal handles XML escaping internally
     // Legacy chunk size setting removed - chunking is now fixed at 4096 bytes due to API limits
   }
+
+  /**
+   * Collapsible section for the pronunciation lexicon and its test phrase preview
+   */
+  private displayPronunciationSettings(containerEl: HTMLElement): void {
+    const pronunciationHeader = containerEl.createEl('div', {
+      cls: 'setting-item setting-item-heading edge-tts-collapsible-header',
+      attr: { style: 'cursor: pointer; user-select: none;' }
+    });
+
+    const pronunciationTitle = pronunciationHeader.createEl('div', { cls: 'setting-item-info' });
+    const pronunciationTitleContainer = pronunciationTitle.createEl('div', { cls: 'setting-item-name' });
+
+    const pronunciationArrow = pronunciationTitleContainer.createEl('span', {
+      text: '▶ ',
+      attr: { style: 'display: inline-block; transition: transform 0.2s ease; margin-right: 8px;' }
+    });
+    pronunciationTitleContainer.createSpan({ text: 'Pronunciation' });
+
+    pronunciationTitle.createEl('div', {
+      cls: 'setting-item-description',
+      text: 'Tell the voice how to say names, acronyms and jargon. Click to expand options.'
+    });
+
+    const pronunciationContent = containerEl.createEl('div', {
+      attr: {
+        style: 'display: none; margin-left: 24px; border-left: 2px solid var(--background-modifier-border); padding-left: 16px; margin-top: 8px;'
+      }
+    });
+
+    let isPronunciationExpanded = false;
+    pronunciationHeader.addEventListener('click', () => {
+      isPronunciationExpanded = !isPronunciationExpanded;
+      pronunciationContent.style.display = isPronunciationExpanded ? 'block' : 'none';
+      pronunciationArrow.style.transform = isPronunciationExpanded ? 'rotate(90deg)' : 'rotate(0deg)';
+    });
+
+    const pronunciationInfo = pronunciationContent.createEl('div', {
+      cls: 'edge-tts-info-div'
+    });
+    pronunciationInfo.createEl('p', {
+      text: 'Each rule replaces a word or pattern with the text that is spoken instead, after text filtering. ' +
+        'Rules apply in order: the ones below first, then the ones in the pronunciation note.',
+      attr: { style: 'font-size: 13px; color: var(--text-muted);' }
+    });
+
+    new Setting(pronunciationContent)
+      .setName('Pronunciation note')
+      .setDesc('Path of a note with more rules, one "pattern => replacement" per line. Use "/regex/i => replacement" for regular expressions. Plain patterns match whole words, case-sensitively when they contain capitals.')
+      .addText(text => {
+        text.setPlaceholder('Pronunciation.md')
+          .setValue(this.plugin.settings.pronunciation.notePath)
+          .onChange(async (value) => {
+            this.plugin.settings.pronunciation.notePath = value.trim();
+            await this.plugin.saveSettings();
+            await this.plugin.loadPronunciationNote();
+            updatePreview();
+          });
+      });
+
+    const rulesContainer = pronunciationContent.createEl('div');
+
+    // Test phrase preview, shown after the rules
+    let testPhrase = '';
+    const previewSetting = new Setting(pronunciationContent)
+      .setName('Test phrase')
+      .setDesc('Type a phrase to see how it will be read with the current rules.')
+      .addText(text => {
+        text.setPlaceholder('Deploy the API to k8s')
+          .onChange(value => {
+            testPhrase = value;
+            updatePreview();
+          });
+      })
+      .addButton(button => {
+        button.setButtonText('Speak')
+          .onClick(() => {
+            if (testPhrase.trim()) this.plugin.audioManager.startPlayback(testPhrase);
+          });
+      });
+
+    const previewDiv = previewSetting.settingEl.createEl('div', {
+      attr: { style: 'margin-top: 8px; padding: 8px; background-color: var(--background-secondary); border-radius: 4px; font-family: monospace; font-size: 12px;' }
+    });
+
+    const updatePreview = () => {
+      const settings = this.plugin.settings;
+      previewDiv.setText(testPhrase.trim()
+        ? stripSpeakerMarkers(stripPauseMarkers(applyPronunciation(filterMarkdown(testPhrase, settings.textFiltering, settings.symbolReplacement), settings)))
+        : 'The spoken text appears here.');
+    };
+
+    const renderRules = () => {
+      rulesContainer.empty();
+      const rules = this.plugin.settings.pronunciation.rules;
+
+      rules.forEach((rule, index) => {
+        const ruleSetting = new Setting(rulesContainer)
+          .addText(text => {
+            text.setPlaceholder('Pattern')
+              .setValue(rule.pattern)
+              .onChange(async (value) => {
+                rule.pattern = value;
+                showRuleError();
+                await this.plugin.saveSettings();
+                updatePreview();
+              });
+          })
+          .addText(text => {
+            text.setPlaceholder('Spoken as')
+              .setValue(rule.replacement)
+              .onChange(async (value) => {
+                rule.replacement = value;
+                await this.plugin.saveSettings();
+                updatePreview();
+              });
+          });
+
+        const addFlagToggle = (flag: 'isRegex' | 'wholeWord' | 'caseSensitive', tooltip: string) => {
+          ruleSetting.addToggle(toggle => {
+            toggle.setTooltip(tooltip)
+              .setValue(rule[flag])
+              .onChange(async (value) => {
+                rule[flag] = value;
+                showRuleError();
+                await this.plugin.saveSettings();
+                updatePreview();
+              });
+          });
+        };
+        addFlagToggle('isRegex', 'Regular expression');
+        addFlagToggle('wholeWord', 'Whole word');
+        addFlagToggle('caseSensitive', 'Case-sensitive');
+
+        ruleSetting.addExtraButton(button => {
+          button.setIcon('trash')
+            .setTooltip('Remove rule')
+            .onClick(async () => {
+              rules.splice(index, 1);
+              await this.plugin.saveSettings();
+              renderRules();
+              updatePreview();
+            });
+        });
+
+        const showRuleError = () => {
+          const error = rule.pattern ? validatePronunciationRule(rule) : null;
+          ruleSetting.setName(`Rule ${index + 1}`);
+          ruleSetting.setDesc(error ? `Not used: ${error}` : 'Regex · whole word · case-sensitive');
+        };
+        showRuleError();
+      });
+
+      new Setting(rulesContainer)
+        .addButton(button => {
+          button.setButtonText('Add rule')
+            .onClick(async () => {
+              const rule: PronunciationRule = { pattern: '', replacement: '', isRegex: false, wholeWord: true, caseSensitive: false };
+              rules.push(rule);
+              await this.plugin.saveSettings();
+              renderRules();
+            });
+        });
+    };
+
+    renderRules();
+    updatePreview();
+  }
+
+  /**
+   * Collapsible section mapping detected languages to voices
+   */
+  private displayLanguageVoiceSettings(containerEl: HTMLElement): void {
+    const languageVoicesHeader = containerEl.createEl('div', {
+      cls: 'setting-item setting-item-heading edge-tts-collapsible-header',
+      attr: { style: 'cursor: pointer; user-select: none;' }
+    });
+
+    const languageVoicesTitle = languageVoicesHeader.createEl('div', { cls: 'setting-item-info' });
+    const languageVoicesTitleContainer = languageVoicesTitle.createEl('div', { cls: 'setting-item-name' });
+
+    const languageVoicesArrow = languageVoicesTitleContainer.createEl('span', {
+      text: '▶ ',
+      attr: { style: 'display: inline-block; transition: transform 0.2s ease; margin-right: 8px;' }
+    });
+    languageVoicesTitleContainer.createSpan({ text: 'Language voices' });
+
+    languageVoicesTitle.createEl('div', {
+      cls: 'setting-item-description',
+      text: 'Read paragraphs in other languages with a voice for that language. Click to expand options.'
+    });
+
+    const languageVoicesContent = containerEl.createEl('div', {
+      attr: {
+        style: 'display: none; margin-left: 24px; border-left: 2px solid var(--background-modifier-border); padding-left: 16px; margin-top: 8px;'
+      }
+    });
+
+    let isLanguageVoicesExpanded = false;
+    languageVoicesHeader.addEventListener('click', () => {
+      isLanguageVoicesExpanded = !isLanguageVoicesExpanded;
+      languageVoicesContent.style.display = isLanguageVoicesExpanded ? 'block' : 'none';
+      languageVoicesArrow.style.transform = isLanguageVoicesExpanded ? 'rotate(90deg)' : 'rotate(0deg)';
+    });
+
+    new Setting(languageVoicesContent)
+      .setName('Switch voices by language')
+      .setDesc(`Detect the language of each paragraph and read it with the voice set below. Languages without a voice are read by ${MULTILINGUAL_VOICE} (Microsoft Edge provider), unless the selected voice speaks them or is multilingual itself.`)
+      .addToggle(toggle => {
+        toggle.setValue(this.plugin.settings.languageVoices.enabled);
+        toggle.onChange(async (value) => {
+          this.plugin.settings.languageVoices.enabled = value;
+          await this.plugin.saveSettings();
+        });
+      });
+
+    const voicesContainer = languageVoicesContent.createEl('div');
+
+    const renderVoices = () => {
+      voicesContainer.empty();
+      const voices = this.plugin.settings.languageVoices.voices;
+
+      voices.forEach((entry, index) => {
+        new Setting(voicesContainer)
+          .setName(`Language ${index + 1}`)
+          .setDesc('Two-letter language code and the voice that reads it.')
+          .addText(text => {
+            text.setPlaceholder('es')
+              .setValue(entry.language)
+              .onChange(async (value) => {
+                entry.language = value.trim().toLowerCase();
+                await this.plugin.saveSettings();
+              });
+          })
+          .addText(text => {
+            text.setPlaceholder('es-MX-DaliaNeural')
+              .setValue(entry.voice)
+              .onChange(async (value) => {
+                entry.voice = value.trim();
+                await this.plugin.saveSettings();
+              });
+          })
+          .addExtraButton(button => {
+            button.setIcon('trash')
+              .setTooltip('Remove language')
+              .onClick(async () => {
+                voices.splice(index, 1);
+                await this.plugin.saveSettings();
+                renderVoices();
+              });
+          });
+      });
+
+      new Setting(voicesContainer)
+        .addButton(button => {
+          button.setButtonText('Add language')
+            .onClick(async () => {
+              voices.push({ language: '', voice: '' });
+              await this.plugin.saveSettings();
+              renderVoices();
+            });
+        });
+    };
+
+    renderVoices();
+  }
+
+  /**
+   * Collapsible section for dialogue mode and the speakers' voices
+   */
+  private displayDialogueSettings(containerEl: HTMLElement): void {
+    const dialogueHeader = containerEl.createEl('div', {
+      cls: 'setting-item setting-item-heading edge-tts-collapsible-header',
+      attr: { style: 'cursor: pointer; user-select: none;' }
+    });
+
+    const dialogueTitle = dialogueHeader.createEl('div', { cls: 'setting-item-info' });
+    const dialogueTitleContainer = dialogueTitle.createEl('div', { cls: 'setting-item-name' });
+
+    const dialogueArrow = dialogueTitleContainer.createEl('span', {
+      text: '▶ ',
+      attr: { style: 'display: inline-block; transition: transform 0.2s ease; margin-right: 8px;' }
+    });
+    dialogueTitleContainer.createSpan({ text: 'Dialogue' });
+
+    dialogueTitle.createEl('div', {
+      cls: 'setting-item-description',
+      text: 'Read transcripts and scripts with a different voice for each speaker. Click to expand options.'
+    });
+
+    const dialogueContent = containerEl.createEl('div', {
+      attr: {
+        style: 'display: none; margin-left: 24px; border-left: 2px solid var(--background-modifier-border); padding-left: 16px; margin-top: 8px;'
+      }
+    });
+
+    let isDialogueExpanded = false;
+    dialogueHeader.addEventListener('click', () => {
+      isDialogueExpanded = !isDialogueExpanded;
+      dialogueContent.style.display = isDialogueExpanded ? 'block' : 'none';
+      dialogueArrow.style.transform = isDialogueExpanded ? 'rotate(90deg)' : 'rotate(0deg)';
+    });
+
+    const dialogueInfo = dialogueContent.createEl('div', {
+      cls: 'edge-tts-info-div'
+    });
+    dialogueInfo.createEl('p', {
+      text: 'Lines starting with a bold label like "**Alice:**" and "> [!quote] Bob" callouts are read with the speaker\'s voice, without the label, until the end of the paragraph. ' +
+        'Notes can set their own voices in frontmatter with "tts-speakers", which also turns on dialogue mode for the note.',
+      attr: { style: 'font-size: 13px; color: var(--text-muted);' }
+    });
+
+    new Setting(dialogueContent)
+      .setName('Dialogue mode')
+      .setDesc('Read speaker labels as voice changes in every note.')
+      .addToggle(toggle => {
+        toggle.setValue(this.plugin.settings.textFiltering.dialogueMode);
+        toggle.onChange(async (value) => {
+          this.plugin.settings.textFiltering.dialogueMode = value;
+          await this.plugin.saveSettings();
+        });
+      });
+
+    const speakersContainer = dialogueContent.createEl('div');
+
+    const renderSpeakers = () => {
+      speakersContainer.empty();
+      const speakers = this.plugin.settings.speakerVoices;
+
+      speakers.forEach((entry, index) => {
+        new Setting(speakersContainer)
+          .setName(`Speaker ${index + 1}`)
+          .setDesc('Name as written in the label, and the voice that reads their lines.')
+          .addText(text => {
+            text.setPlaceholder('Alice')
+              .setValue(entry.speaker)
+              .onChange(async (value) => {
+                entry.speaker = value.trim();
+                await this.plugin.saveSettings();
+              });
+          })
+          .addText(text => {
+            text.setPlaceholder('en-US-AvaNeural')
+              .setValue(entry.voice)
+              .onChange(async (value) => {
+                entry.voice = value.trim();
+                await this.plugin.saveSettings();
+              });
+          })
+          .addExtraButton(button => {
+            button.setIcon('trash')
+              .setTooltip('Remove speaker')
+              .onClick(async () => {
+                speakers.splice(index, 1);
+                await this.plugin.saveSettings();
+                renderSpeakers();
+              });
+          });
+      });
+
+      new Setting(speakersContainer)
+        .addButton(button => {
+          button.setButtonText('Add speaker')
+            .onClick(async () => {
+              speakers.push({ speaker: '', voice: '' });
+              await this.plugin.saveSettings();
+              renderSpeakers();
+            });
+        });
+    };
+
+    renderSpeakers();
+  }
+
+  /**
+   * Store a voice chosen in the voice picker for the active provider
+   */
+  private async setProviderVoice(voice: TTSVoice): Promise<void> {
+    const settings = this.plugin.settings;
+    if (settings.ttsProvider === 'openai-compatible') {
+      settings.openAITTS.voice = voice.id;
+    } else if (settings.ttsProvider === 'local-command') {
+      settings.localCommandTTS.voice = voice.id;
+    } else {
+      settings.selectedVoice = voice.id;
+      settings.customVoice = ''; // The custom voice would otherwise take precedence
+    }
+    await this.plugin.saveSettings();
+    new Notice(`Voice set to ${voice.id}.`);
+    this.display();
+  }
+
+  /**
+   * Connection settings for the OpenAI-compatible speech server provider
+   */
+  private displayOpenAISettings(containerEl: HTMLElement): void {
+    const openAISettings = this.plugin.settings.openAITTS;
+
+    new Setting(containerEl)
+      .setName('Server base URL')
+      .setDesc('Base URL of a server exposing /v1/audio/speech (e.g. http://localhost:8880).')
+      .addText(text => {
+        text.setPlaceholder('http://localhost:8880');
+        text.setValue(openAISettings.baseUrl);
+        text.onChange(async (value) => {
+          openAISettings.baseUrl = value.trim();
+          await this.plugin.saveSettings();
+        });
+      });
+
+    new Setting(containerEl)
+      .setName('API key')
+      .setDesc('Sent as a bearer token. Leave empty if your server does not require one.')
+      .addText(text => {
+        text.inputEl.type = 'password';
+        text.setValue(openAISettings.apiKey);
+        text.onChange(async (value) => {
+          openAISettings.apiKey = value;
+          await this.plugin.saveSettings();
+        });
+      });
+
+    new Setting(containerEl)
+      .setName('Model')
+      .setDesc('Model name passed to the speech endpoint.')
+      .addText(text => {
+        text.setPlaceholder('tts-1');
+        text.setValue(openAISettings.model);
+        text.onChange(async (value) => {
+          openAISettings.model = value.trim();
+          await this.plugin.saveSettings();
+        });
+      });
+
+    new Setting(containerEl)
+      .setName('Server voice')
+      .setDesc('Voice name understood by your server (e.g. alloy). The Edge voice settings below are not used by this provider.')
+      .addText(text => {
+        text.setPlaceholder('alloy');
+        text.setValue(openAISettings.voice);
+        text.onChange(async (value) => {
+          openAISettings.voice = value.trim();
+          await this.plugin.saveSettings();
+        });
+      });
+  }
+
+  /**
+   * Executable settings for the local command provider
+   */
+  private displayLocalCommandSettings(containerEl: HTMLElement): void {
+    const localSettings = this.plugin.settings.localCommandTTS;
+
+    if (Platform.isMobile) {
+      containerEl.createEl('p', {
+        text: 'Local command TTS is only available on desktop. Microsoft Edge will be used on this device.',
+        cls: 'setting-item-description'
+      });
+      return;
+    }
+
+    new Setting(containerEl)
+      .setName('Executable')
+      .setDesc('Path to the TTS program (e.g. /usr/bin/espeak-ng or a Piper binary). The text is written to its standard input.')
+      .addText(text => {
+        text.setPlaceholder('/usr/bin/espeak-ng');
+        text.setValue(localSettings.command);
+        text.onChange(async (value) => {
+          localSettings.command = value.trim();
+          await this.plugin.saveSettings();
+        });
+      });
+
+    new Setting(containerEl)
+      .setName('Arguments')
+      .setDesc('Arguments passed to the executable. The audio must be written to standard output. Placeholders: {voice}, {rate} (speed multiplier), {length_scale} (1 / rate, for Piper), {pitch} (Hz offset) and {volume} (percent offset).')
+      .addText(text => {
+        text.setPlaceholder('--stdin --stdout -v {voice}');
+        text.setValue(localSettings.args);
+        text.onChange(async (value) => {
+          localSettings.args = value;
+          await this.plugin.saveSettings();
+        });
+      });
+
+    new Setting(containerEl)
+      .setName('Local voice')
+      .setDesc('Value substituted for {voice} (e.g. a voice name or model path).')
+      .addText(text => {
+        text.setValue(localSettings.voice);
+        text.onChange(async (value) => {
+          localSettings.voice = value.trim();
+          await this.plugin.saveSettings();
+        });
+      });
+
+    new Setting(containerEl)
+      .setName('Output format')
+      .setDesc('Audio format the command writes. MP3 generation requires MP3 output.')
+      .addDropdown(dropdown => {
+        dropdown.addOption('wav', 'WAV');
+        dropdown.addOption('mp3', 'MP3');
+        dropdown.setValue(localSettings.outputFormat);
+        dropdown.onChange(async (value) => {
+          localSettings.outputFormat = value as 'mp3' | 'wav';
+          await this.plugin.saveSettings();
+        });
+      });
+  }
 } 
\ No newline at end of file
@@ -0,0 +1,42 @@
+import type { EdgeTTSPluginSettings } from './settings';
+import type { TTSProvider } from './tts-provider';
+import type { NoteOverrides } from './note-overrides';
+import { getVoiceForText } from './language-voices';
+import { takeSpeaker } from '../lib/speakers';
+
+/**
+ * Voice for a speaker in dialogue mode
+ */
+export interface SpeakerVoice {
+  speaker: string; // Name as written in the label, e.g. "Alice"
+  voice: string;
+}
+
+/**
+ * Voice set for a speaker in the note's frontmatter or in the settings (names are
+ * compared case-insensitively), or undefined when the speaker has none
+ */
+export function getSpeakerVoice(speaker: string, settings: EdgeTTSPluginSettings, overrides: NoteOverrides = {}): string | undefined {
+  const name = speaker.trim().toLowerCase();
+  if (!name) return undefined;
+
+  for (const noteSpeaker of Object.keys(overrides.speakerVoices || {})) {
+    if (noteSpeaker.trim().toLowerCase() === name) return overrides.speakerVoices![noteSpeaker];
+  }
+
+  const entry = (settings.speakerVoices || []).find(entry => entry.speaker.trim().toLowerCase() === name && entry.voice.trim());
+  return entry ? entry.voice.trim() : undefined;
+}
+
+/**
+ * Text to synthesize for a chunk, without its speaker marker, and the voice to read it
+ * with: the speaker's voice, else the voice for its language, else the note's voice.
+ * An undefined voice means the provider's configured voice.
+ */
+export function resolveChunkVoice(chunk: string, settings: EdgeTTSPluginSettings, provider: TTSProvider, overrides: NoteOverrides = {}): { text: string, voice?: string } {
+  const { speaker, text } = takeSpeaker(chunk);
+  const voice = getSpeakerVoice(speaker, settings, overrides)
+    || getVoiceForText(text, settings, provider, overrides.voice || provider.getDefaultVoice())
+    || overrides.voice;
+  return { text, voice };
+}
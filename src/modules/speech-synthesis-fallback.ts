@@ -0,0 +1,283 @@
+/**
+ * Playback-only fallback that reads text with the system voices exposed by the
+ * browser's speechSynthesis API. Used when the TTS provider can't be reached.
+ */
+
+import { stripPauseMarkers } from '../lib/pauses';
+import { stripSpeakerMarkers } from '../lib/speakers';
+
+// Rough speaking speed at 1.0x, used to estimate positions for the floating player
+const ESTIMATED_CHARS_PER_SECOND = 14;
+// Chromium stops speaking long utterances after ~15 seconds, so text is spoken in short segments
+const MAX_SEGMENT_LENGTH = 200;
+
+export interface SpeechSynthesisProgress {
+  currentTime: number; // Estimated seconds
+  duration: number;    // Estimated seconds
+  isPlaying: boolean;
+}
+
+export interface SpeechSynthesisCallbacks {
+  onProgress: (progress: SpeechSynthesisProgress) => void;
+  onEnd: () => void;
+  onError: (error: string) => void;
+}
+
+/**
+ * Check whether the speechSynthesis API is available in this environment
+ */
+export function isSpeechSynthesisSupported(): boolean {
+  return typeof window !== 'undefined' &&
+    'speechSynthesis' in window &&
+    typeof SpeechSynthesisUtterance !== 'undefined';
+}
+
+/**
+ * Split text into sentence-based segments of at most MAX_SEGMENT_LENGTH characters
+ */
+function splitIntoSegments(text: string): string[] {
+  const sentences = text.match(/[^.!?\n]+[.!?]*\s*|\n+/g) || [];
+  const segments: string[] = [];
+  let current = '';
+
+  const pushCurrent = () => {
+    if (current.trim()) segments.push(current.trim());
+    current = '';
+  };
+
+  for (const sentence of sentences) {
+    if (sentence.length > MAX_SEGMENT_LENGTH) {
+      // Long sentence: split by words
+      pushCurrent();
+      for (const word of sentence.split(/\s+/)) {
+        if (current.length + word.length + 1 > MAX_SEGMENT_LENGTH) pushCurrent();
+        current += (current ? ' ' : '') + word;
+      }
+      pushCurrent();
+    } else if (current.length + sentence.length > MAX_SEGMENT_LENGTH) {
+      pushCurrent();
+      current = sentence;
+    } else {
+      current += sentence;
+    }
+  }
+  pushCurrent();
+
+  return segments;
+}
+
+/**
+ * Speaks text segment by segment and reports estimated progress so the
+ * floating player controls can drive it like regular audio playback.
+ */
+export class SpeechSynthesisPlayer {
+  private callbacks: SpeechSynthesisCallbacks;
+  private segments: string[] = [];
+  private segmentStartTimes: number[] = []; // Estimated start time (seconds) of each segment
+  private totalDuration = 0;
+  private currentIndex = 0;
+  private segmentStartedAt = 0; // Date.now() when the current segment started (adjusted for pauses)
+  private pausedElapsed = 0;
+  private rate = 1.0;
+  private lang: string | undefined;
+  private sessionId = 0; // Invalidates utterance callbacks from previous sessions
+  private active = false;
+  private paused = false;
+  private progressInterval: number | null = null;
+
+  constructor(callbacks: SpeechSynthesisCallbacks) {
+    this.callbacks = callbacks;
+  }
+
+  /**
+   * Start reading text from the beginning
+   * @param lang BCP 47 language tag used to pick a matching system voice (e.g. "en-US")
+   */
+  start(text: string, rate: number, lang?: string): void {
+    this.stop();
+
+    this.segments = splitIntoSegments(stripSpeakerMarkers(stripPauseMarkers(text)));
+    this.rate = rate > 0 ? rate : 1.0;
+    this.lang = lang;
+
+    const secondsPerChar = 1 / (ESTIMATED_CHARS_PER_SECOND * this.rate);
+    let time = 0;
+    this.segmentStartTimes = this.segments.map(segment => {
+      const start = time;
+      time += segment.length * secondsPerChar;
+      return start;
+    });
+    this.totalDuration = time;
+
+    if (this.segments.length === 0) {
+      this.callbacks.onEnd();
+      return;
+    }
+
+    this.active = true;
+    this.progressInterval = window.setInterval(() => this.emitProgress(), 500);
+    this.speakFrom(0);
+  }
+
+  pause(): void {
+    if (!this.active || this.paused) return;
+    window.speechSynthesis.pause();
+    this.paused = true;
+    this.pausedElapsed = Date.now() - this.segmentStartedAt;
+    this.emitProgress();
+  }
+
+  resume(): void {
+    if (!this.active || !this.paused) return;
+    window.speechSynthesis.resume();
+    this.paused = false;
+    this.segmentStartedAt = Date.now() - this.pausedElapsed;
+    this.emitProgress();
+  }
+
+  /**
+   * Jump to the segment containing the given (estimated) time
+   */
+  seek(time: number): void {
+    if (!this.active) return;
+    let index = 0;
+    while (index < this.segments.length - 1 && this.segmentStartTimes[index + 1] <= time) {
+      index++;
+    }
+    this.leavePause();
+    this.speakFrom(index);
+  }
+
+  /**
+   * Restart from the first segment
+   */
+  restart(): void {
+    if (this.segments.length === 0) return;
+    if (!this.active) {
+      this.active = true;
+      this.progressInterval = window.setInterval(() => this.emitProgress(), 500);
+    }
+    this.leavePause();
+    this.speakFrom(0);
+  }
+
+  stop(): void {
+    this.sessionId++;
+    this.active = false;
+    this.paused = false;
+    if (this.progressInterval !== null) {
+      window.clearInterval(this.progressInterval);
+      this.progressInterval = null;
+    }
+    if (isSpeechSynthesisSupported()) {
+      window.speechSynthesis.cancel();
+    }
+  }
+
+  isActive(): boolean {
+    return this.active;
+  }
+
+  isPaused(): boolean {
+    return this.paused;
+  }
+
+  getCurrentTime(): number {
+    if (this.segments.length === 0) return 0;
+    if (this.currentIndex >= this.segments.length) return this.totalDuration;
+
+    const segmentEnd = this.currentIndex + 1 < this.segments.length
+      ? this.segmentStartTimes[this.currentIndex + 1]
+      : this.totalDuration;
+    const elapsed = (this.paused ? this.pausedElapsed : Date.now() - this.segmentStartedAt) / 1000;
+    return Math.min(this.segmentStartTimes[this.currentIndex] + elapsed, segmentEnd);
+  }
+
+  getDuration(): number {
+    return this.totalDuration;
+  }
+
+  /**
+   * Leave the paused state before speaking again. Chromium stays paused after cancel(),
+   * so utterances spoken without resuming first are never heard.
+   */
+  private leavePause(): void {
+    if (!this.paused) return;
+    window.speechSynthesis.resume();
+    this.paused = false;
+  }
+
+  private speakFrom(index: number): void {
+    this.sessionId++;
+    const session = this.sessionId;
+    window.speechSynthesis.cancel();
+    this.currentIndex = index;
+    this.speakCurrentSegment(session);
+  }
+
+  private speakCurrentSegment(session: number): void {
+    if (session !== this.sessionId) return;
+
+    if (this.currentIndex >= this.segments.length) {
+      this.stop();
+      this.callbacks.onEnd();
+      return;
+    }
+
+    const utterance = new SpeechSynthesisUtterance(this.segments[this.currentIndex]);
+    utterance.rate = this.rate;
+    const voice = this.findVoice();
+    if (voice) {
+      utterance.voice = voice;
+      utterance.lang = voice.lang;
+    } else if (this.lang) {
+      utterance.lang = this.lang;
+    }
+
+    utterance.onstart = () => {
+      if (session !== this.sessionId) return;
+      this.segmentStartedAt = Date.now();
+      this.emitProgress();
+    };
+
+    utterance.onend = () => {
+      if (session !== this.sessionId) return;
+      this.currentIndex++;
+      this.speakCurrentSegment(session);
+    };
+
+    utterance.onerror = (event: SpeechSynthesisErrorEvent) => {
+      // 'interrupted' and 'canceled' are raised by our own cancel() calls
+      if (session !== this.sessionId || event.error === 'interrupted' || event.error === 'canceled') return;
+      this.stop();
+      this.callbacks.onError(event.error);
+    };
+
+    this.segmentStartedAt = Date.now();
+    window.speechSynthesis.speak(utterance);
+  }
+
+  /**
+   * Pick a system voice matching the requested language (exact locale first, then language only)
+   */
+  private findVoice(): SpeechSynthesisVoice | null {
+    if (!this.lang) return null;
+    const voices = window.speechSynthesis.getVoices();
+    const wanted = this.lang.toLowerCase();
+    const baseLanguage = wanted.split('-')[0];
+    const normalize = (voice: SpeechSynthesisVoice) => voice.lang.replace('_', '-').toLowerCase();
+
+    return voices.find(voice => normalize(voice) === wanted) ||
+      voices.find(voice => normalize(voice).split('-')[0] === baseLanguage) ||
+      null;
+  }
+
+  private emitProgress(): void {
+    if (!this.active) return;
+    this.callbacks.onProgress({
+      currentTime: this.getCurrentTime(),
+      duration: this.totalDuration,
+      isPlaying: !this.paused,
+    });
+  }
+}
@@ -67,8 +67,33 @@ export const OUTPUT_FORMAT = TTSPackage?.OUTPUT_FORMAT || {
   WEBM_24KHZ_16BIT_MONO_OPUS: 'webm-24khz-16bit-mono-opus',
 };
 
+// Constant bitrate of AUDIO_24KHZ_48KBITRATE_MONO_MP3 (48 kbit/s), used to turn byte counts into playback time
+export const MP3_BYTES_PER_SECOND = 6000;
+
+// One frame of AUDIO_24KHZ_48KBITRATE_MONO_MP3 (MPEG-2 Layer III, 576 samples) lasts 24 ms
+const MP3_FRAME_BYTES = 144;
+const MP3_FRAME_SECONDS = 0.024;
+
+/**
+ * Silent MP3 frames in the AUDIO_24KHZ_48KBITRATE_MONO_MP3 format, lasting about the
+ * given time. They can be placed between the audio of separate synthesis requests.
+ */
+export function createSilentMp3(seconds: number): Uint8Array {
+  const frameCount = Math.max(0, Math.round(seconds / MP3_FRAME_SECONDS));
+  const audio = new Uint8Array(frameCount * MP3_FRAME_BYTES);
+  for (let frame = 0; frame < frameCount; frame++) {
+    // Header: sync, MPEG-2 Layer III without CRC, 48 kbit/s, 24 kHz, mono.
+    // The zeroed side info and main data decode to silence.
+    audio.set([0xFF, 0xF3, 0x64, 0xC0], frame * MP3_FRAME_BYTES);
+  }
+  return audio;
+}
+
+// Word boundary offsets and durations are reported in 100-nanosecond ticks
+const TICKS_PER_SECOND = 10_000_000;
+
 // Helper function to create prosody options in the new format
-export function createProsodyOptions(rate?: number): any {
+export function createProsodyOptions(rate?: number, pitch?: number, volume?: number): any {
   const prosody: any = {};
 
   if (rate !== undefined) {
@@ -79,6 +104,22 @@ export function createProsodyOptions(rate?: number): any {
     }
   }
 
+  if (pitch !== undefined) {
+    // Convert from Hz offset (e.g., 5) to string (e.g., "+5Hz")
+    const hz = Math.round(pitch);
+    if (hz !== 0) {
+      prosody.pitch = hz > 0 ? `+${hz}Hz` : `${hz}Hz`;
+    }
+  }
+
+  if (volume !== undefined) {
+    // Convert from percentage offset (e.g., -20) to string (e.g., "-20%")
+    const percentage = Math.round(volume);
+    if (percentage !== 0) {
+      prosody.volume = percentage > 0 ? `+${percentage}%` : `${percentage}%`;
+    }
+  }
+
   return prosody;
 }
 
@@ -121,11 +162,11 @@ export class UniversalTTSClient {
     }
 
     // Convert prosody options to the correct format for edge-tts-universal
-    const finalProsodyOptions: any = {};
-    if (prosodyOptions && typeof prosodyOptions.rate === 'number') {
-      const convertedProsody = createProsodyOptions(prosodyOptions.rate);
-      finalProsodyOptions.rate = convertedProsody.rate;
-    }
+    const finalProsodyOptions: any = prosodyOptions ? createProsodyOptions(
+      typeof prosodyOptions.rate === 'number' ? prosodyOptions.rate : undefined,
+      typeof prosodyOptions.pitch === 'number' ? prosodyOptions.pitch : undefined,
+      typeof prosodyOptions.volume === 'number' ? prosodyOptions.volume : undefined
+    ) : {};
 
     try {
       // Create options object - IsomorphicCommunicate supports prosody options!
@@ -175,16 +216,25 @@ export class UniversalTTSClient {
         },
 
         emit(event: string, ...args: any[]) {
+          if (this.isCancelled) return;
           const callbacks = this.listeners.get(event) || [];
           callbacks.forEach((callback: (...args: any[]) => void) => callback(...args));
         },
 
+        // The generator finishes at its next message; the service closes the WebSocket when the turn ends
+        cancel() {
+          this.isCancelled = true;
+          asyncGenerator.return(undefined).catch(() => undefined);
+        },
+
         isConsuming: false,
+        isCancelled: false,
 
         async consumeAsyncGenerator() {
           this.isConsuming = true;
           try {
             for await (const chunk of asyncGenerator) {
+              if (this.isCancelled) break;
               if (chunk.type === 'audio' && chunk.data) {
                 // Handle Buffer/ArrayBuffer differences between environments
                 let audioData: Uint8Array;
@@ -201,6 +251,12 @@ export class UniversalTTSClient {
                   audioData = new Uint8Array(0);
                 }
                 this.emit('data', audioData);
+              } else if (chunk.type === 'WordBoundary' && chunk.text !== undefined) {
+                this.emit('boundary', {
+                  offset: (chunk.offset || 0) / TICKS_PER_SECOND,
+                  duration: (chunk.duration || 0) / TICKS_PER_SECOND,
+                  text: chunk.text,
+                });
               }
             }
             this.emit('end');
@@ -217,4 +273,14 @@ export class UniversalTTSClient {
       throw new Error(`Failed to create TTS stream: ${error instanceof Error ? error.message : 'Unknown error'}`);
     }
   }
-} 
\ No newline at end of file
+}
+
+/**
+ * Fetch the full voice list from the Edge TTS service
+ */
+export async function listEdgeVoices(): Promise<any[]> {
+  if (!TTSPackage || typeof TTSPackage.listVoices !== 'function') {
+    throw new Error('Voice listing is not available in the loaded edge-tts-universal package');
+  }
+  return await TTSPackage.listVoices();
+}
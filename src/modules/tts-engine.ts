@@ -1,16 +1,12 @@
-import { UniversalTTSClient as EdgeTTSClient, OUTPUT_FORMAT, createProsodyOptions } from './tts-client-wrapper';
-
-// Create a ProsodyOptions class that matches the old API
-class ProsodyOptions {
-  rate?: number;
-
-  constructor() {
-    // Initialize with defaults
-  }
-}
+import { OUTPUT_FORMAT } from './tts-client-wrapper';
+import { getTTSProvider } from './tts-provider';
 import { Notice, Platform } from 'obsidian';
 import { EdgeTTSPluginSettings } from './settings';
 import { filterFrontmatter, filterMarkdown, checkAndTruncateContent } from '../utils';
+import { applyPronunciation } from './pronunciation';
+import { resolveProsody, resolveTextFiltering } from './note-overrides';
+import { resolveChunkVoice } from './speaker-voices';
+import type { NoteOverrides } from './note-overrides';
 
 /**
  * Status of a TTS generation task
@@ -37,6 +33,8 @@ export interface TTSTask {
   outputFormat: string;
   voice: string;
   playbackSpeed: number;
+  pitch: number;     // Hz offset
+  volume: number;    // Percent offset
 }
 
 /**
@@ -55,7 +53,7 @@ export class TTSEngine {
   /**
    * Create a new TTS task and add it to the queue
    */
-  createTask(text: string, outputFormat: string): TTSTask {
+  createTask(text: string, outputFormat: string, overrides: NoteOverrides = {}): TTSTask {
     // Check if we're on mobile - MP3 generation may not work properly
     if (Platform.isMobile) {
       throw new Error('MP3 generation is not supported on mobile devices due to file system limitations. Use audio playback instead.');
@@ -80,18 +78,21 @@ export class TTSEngine {
     }
 
     // Clean the (potentially truncated) text for TTS processing
-    const cleanText = filterMarkdown(
+    const filteredText = applyPronunciation(filterMarkdown(
       filterFrontmatter(truncationResult.content, this.settings.textFiltering.filterFrontmatter),
-      this.settings.textFiltering,
+      resolveTextFiltering(this.settings, overrides),
       this.settings.symbolReplacement
-    );
+    ), this.settings);
 
-    if (!cleanText.trim()) {
+    if (!filteredText.trim()) {
       throw new Error('No readable text after filtering');
     }
 
     const taskId = `tts-${Date.now()}-${Math.floor(Math.random() * 1000)}`;
-    const voiceToUse = this.settings.customVoice.trim() || this.settings.selectedVoice;
+    const provider = getTTSProvider(this.settings);
+    const { text: cleanText, voice } = resolveChunkVoice(filteredText, this.settings, provider, overrides);
+    const voiceToUse = voice || provider.getDefaultVoice();
+    const prosody = resolveProsody(this.settings, overrides);
 
     const task: TTSTask = {
       id: taskId,
@@ -101,7 +102,9 @@ export class TTSEngine {
       createdAt: new Date(),
       outputFormat,
       voice: voiceToUse,
-      playbackSpeed: this.settings.playbackSpeed
+      playbackSpeed: prosody.rate,
+      pitch: prosody.pitch,
+      volume: prosody.volume
     };
 
     this.tasks.set(taskId, task);
@@ -139,13 +142,14 @@ export class TTSEngine {
     this.tasks.set(taskId, task);
 
     try {
-      const tts = new EdgeTTSClient();
-      await tts.setMetadata(task.voice, task.outputFormat);
-
-      const prosodyOptions = new ProsodyOptions();
-      prosodyOptions.rate = task.playbackSpeed;
-
-      const readable = tts.toStream(task.text, prosodyOptions);
+      const provider = getTTSProvider(this.settings);
+      const readable = provider.synthesizeStream(task.text, {
+        voice: task.voice,
+        outputFormat: task.outputFormat,
+        rate: task.playbackSpeed,
+        pitch: task.pitch,
+        volume: task.volume
+      });
       const audioBuffer: Uint8Array[] = [];
 
       // Estimated total size for progress calculation (rough estimate)
@@ -204,6 +208,11 @@ export class TTSEngine {
         readable.on('end', () => {
           clearTimeout(errorTimeout);
         });
+
+        readable.on('error', (error: unknown) => {
+          clearTimeout(errorTimeout);
+          reject(error instanceof Error ? error : new Error(String(error)));
+        });
       });
     } catch (error: any) {
       task.status = TTSTaskStatus.FAILED;
@@ -270,25 +279,23 @@ export class TTSEngine {
       }
 
       // Create a task but don't store it in the regular task list
-      const cleanText = filterMarkdown(
+      const cleanText = applyPronunciation(filterMarkdown(
         filterFrontmatter(truncationResult.content, this.settings.textFiltering.filterFrontmatter),
         this.settings.textFiltering,
         this.settings.symbolReplacement
-      );
+      ), this.settings);
 
       if (!cleanText.trim()) {
         throw new Error('No readable text after filtering');
       }
 
-      const voiceToUse = this.settings.customVoice.trim() || this.settings.selectedVoice;
-
-      const tts = new EdgeTTSClient();
-      await tts.setMetadata(voiceToUse, OUTPUT_FORMAT.WEBM_24KHZ_16BIT_MONO_OPUS);
-
-      const prosodyOptions = new ProsodyOptions();
-      prosodyOptions.rate = this.settings.playbackSpeed;
-
-      const readable = tts.toStream(cleanText, prosodyOptions);
+      const provider = getTTSProvider(this.settings);
+      const { text: speechText, voice } = resolveChunkVoice(cleanText, this.settings, provider);
+      const readable = provider.synthesizeStream(speechText, {
+        voice,
+        outputFormat: OUTPUT_FORMAT.WEBM_24KHZ_16BIT_MONO_OPUS,
+        ...resolveProsody(this.settings)
+      });
       const audioBuffer: Uint8Array[] = [];
 
       // Collect audio data
@@ -336,6 +343,11 @@ export class TTSEngine {
         readable.on('end', () => {
           clearTimeout(errorTimeout);
         });
+
+        readable.on('error', (error: unknown) => {
+          clearTimeout(errorTimeout);
+          reject(error);
+        });
       });
     } catch (error) {
       console.error('Error generating audio buffer:', error);
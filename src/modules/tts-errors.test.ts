@@ -0,0 +1,48 @@
+import { describe, expect, it } from 'vitest';
+import { classifyTTSError, getRetryDelay, isRetryableTTSError } from './tts-errors';
+
+describe('classifyTTSError', () => {
+  it('sorts errors by their name and message', () => {
+    expect(classifyTTSError(new Error('Request failed with status 429'))).toBe('throttling');
+    expect(classifyTTSError(new Error('Invalid voice "en-US-Nobody"'))).toBe('invalid-voice');
+    expect(classifyTTSError(new Error('WebSocket connection closed'))).toBe('network');
+    expect(classifyTTSError(new Error('Server answered 503'))).toBe('network');
+    expect(classifyTTSError('something odd')).toBe('unknown');
+  });
+
+  it('leaves answers without audio unknown, since the service also sends them while overloaded', () => {
+    const error = new Error('No audio was received. Please verify that your parameters are correct.');
+    error.name = 'NoAudioReceived';
+    expect(classifyTTSError(error)).toBe('unknown');
+  });
+
+  it('treats text without letters or digits as empty, whatever the error', () => {
+    expect(classifyTTSError(new Error('WebSocket connection closed'), ' … — ')).toBe('empty-text');
+    expect(classifyTTSError(new Error('WebSocket connection closed'), 'Hello')).toBe('network');
+  });
+});
+
+describe('isRetryableTTSError', () => {
+  it('retries network, throttling and unknown errors only', () => {
+    expect(isRetryableTTSError(new Error('ETIMEDOUT'))).toBe(true);
+    expect(isRetryableTTSError(new Error('Too many requests'))).toBe(true);
+    expect(isRetryableTTSError(new Error('NoAudioReceived'))).toBe(true);
+    expect(isRetryableTTSError(new Error('Unknown voice'))).toBe(false);
+    expect(isRetryableTTSError(new Error('ETIMEDOUT'), '...')).toBe(false);
+  });
+});
+
+describe('getRetryDelay', () => {
+  const networkError = new Error('Network error');
+
+  it('doubles the delay with each retry, up to 30 seconds', () => {
+    expect([1, 2, 3, 4].map(attempt => getRetryDelay(networkError, attempt))).toEqual([1000, 2000, 4000, 8000]);
+    expect(getRetryDelay(networkError, 10)).toBe(30000);
+  });
+
+  it('backs off for longer when throttled', () => {
+    const throttled = new Error('429 Too Many Requests');
+    expect([1, 2, 3].map(attempt => getRetryDelay(throttled, attempt))).toEqual([5000, 10000, 20000]);
+    expect(getRetryDelay(throttled, 4)).toBe(30000);
+  });
+});
@@ -0,0 +1,61 @@
+/**
+ * Kinds of synthesis failures, which decide whether a chunk is worth retrying
+ */
+export type TTSErrorKind = 'network' | 'throttling' | 'invalid-voice' | 'empty-text' | 'unknown';
+
+const ERROR_DESCRIPTIONS: Record<TTSErrorKind, string> = {
+  'network': 'Network error',
+  'throttling': 'Too many requests to the TTS service',
+  'invalid-voice': 'The voice was not accepted, check its name',
+  'empty-text': 'No readable text',
+  'unknown': 'Unknown error',
+};
+
+// Wait before the first retry, in milliseconds; each later retry waits twice as long
+const RETRY_BASE_DELAY_MS = 1000;
+const THROTTLED_RETRY_BASE_DELAY_MS = 5000;
+const MAX_RETRY_DELAY_MS = 30000;
+
+function errorText(error: unknown): string {
+  if (error instanceof Error) return `${error.name} ${error.message}`;
+  return String(error);
+}
+
+/**
+ * Sort a synthesis error into a kind, from the error and the text that was being synthesized
+ */
+export function classifyTTSError(error: unknown, text?: string): TTSErrorKind {
+  if (text !== undefined && !/[\p{L}\p{N}]/u.test(text)) return 'empty-text';
+
+  const message = errorText(error);
+  if (/\b429\b|too many requests|rate.?limit|throttl/i.test(message)) return 'throttling';
+  if (/invalid voice|voice.*not (found|supported)|unknown voice/i.test(message)) return 'invalid-voice';
+  if (/no readable text|text must be|empty text/i.test(message)) return 'empty-text';
+  if (/websocket|network|timeout|timed out|connection|socket|fetch|ECONN|ENOTFOUND|ETIMEDOUT|EAI_AGAIN|\b5\d\d\b/i.test(message)) return 'network';
+  // Including answers without audio, which the service also gives while briefly overloaded
+  return 'unknown';
+}
+
+/**
+ * Whether an error may go away when the same request is sent again
+ */
+export function isRetryableTTSError(error: unknown, text?: string): boolean {
+  const kind = classifyTTSError(error, text);
+  return kind === 'network' || kind === 'throttling' || kind === 'unknown';
+}
+
+/**
+ * Short explanation of an error kind, for the progress UI and notices
+ */
+export function describeTTSError(kind: TTSErrorKind): string {
+  return ERROR_DESCRIPTIONS[kind];
+}
+
+/**
+ * Milliseconds to wait before a retry, up to 30 seconds. Throttled requests back off for longer.
+ * @param attempt The retry about to be made, starting at 1
+ */
+export function getRetryDelay(error: unknown, attempt: number): number {
+  const baseDelay = classifyTTSError(error) === 'throttling' ? THROTTLED_RETRY_BASE_DELAY_MS : RETRY_BASE_DELAY_MS;
+  return Math.min(baseDelay * Math.pow(2, attempt - 1), MAX_RETRY_DELAY_MS);
+}
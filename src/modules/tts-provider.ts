@@ -0,0 +1,185 @@
+import { Platform } from 'obsidian';
+import type { EdgeTTSPluginSettings } from './settings';
+import { EdgeTTSProvider } from './edge-tts-provider';
+import { OpenAITTSProvider } from './openai-tts-provider';
+import { LocalCommandTTSProvider } from './local-command-tts-provider';
+
+/**
+ * A voice offered by a TTS provider
+ */
+export interface TTSVoice {
+  id: string;          // Identifier passed back to the provider when synthesizing (e.g. "en-US-AvaNeural")
+  name: string;        // Human-readable name
+  locale?: string;     // e.g. "en-US"
+  gender?: string;     // e.g. "Female", "Male"
+}
+
+/**
+ * Options for a single synthesis request
+ */
+export interface TTSSynthesisOptions {
+  voice?: string;        // Falls back to the provider's configured voice when omitted
+  outputFormat: string;  // One of the provider's supportedFormats
+  rate?: number;         // Speed multiplier (1.0 = normal)
+  pitch?: number;        // Pitch offset in Hz (0 = normal)
+  volume?: number;       // Volume offset in percent (0 = normal)
+}
+
+/**
+ * Timing of a spoken word, relative to the start of the synthesized audio
+ */
+export interface TTSWordBoundary {
+  offset: number;    // Seconds
+  duration: number;  // Seconds
+  text: string;      // The word as spoken
+}
+
+/**
+ * Size limits the provider enforces on a single synthesis request
+ */
+export interface TTSProviderLimits {
+  maxTextBytes: number;
+}
+
+/**
+ * Readable-like stream of audio data returned by a provider.
+ * Mirrors the event interface the plugin has always consumed from the Edge client.
+ */
+export interface TTSAudioStream {
+  on(event: 'data', callback: (data: Uint8Array) => void): void;
+  on(event: 'end', callback: () => void): void;
+  on(event: 'error', callback: (error: unknown) => void): void;
+  on(event: 'boundary', callback: (boundary: TTSWordBoundary) => void): void; // Optional: only emitted by providers with word timings
+
+  /**
+   * Stop synthesizing. No more events are emitted, and the provider stops its request
+   * or process where it can.
+   */
+  cancel(): void;
+}
+
+/**
+ * A text-to-speech backend. Playback and MP3 generation only talk to this interface,
+ * so additional engines can be added without touching those code paths.
+ */
+export interface TTSProvider {
+  readonly id: string;
+  readonly name: string;
+  readonly supportedFormats: string[];
+  readonly limits: TTSProviderLimits;
+  readonly audioMimeType: string; // MIME type of the streamed audio; MSE streaming is only used for 'audio/mpeg'
+
+  /**
+   * The voice used when a request does not specify one
+   */
+  getDefaultVoice(): string;
+
+  /**
+   * List the voices this provider can synthesize with
+   */
+  listVoices(): Promise<TTSVoice[]>;
+
+  /**
+   * Synthesize text and stream the resulting audio
+   */
+  synthesizeStream(text: string, options: TTSSynthesisOptions): TTSAudioStream;
+}
+
+export type TTSProviderFactory = (settings: EdgeTTSPluginSettings) => TTSProvider;
+
+/**
+ * Small event emitter implementing TTSAudioStream. The producer is started
+ * once the first 'data' listener is attached, matching the Edge client adapter.
+ */
+export class TTSStreamEmitter implements TTSAudioStream {
+  private listeners = new Map<string, Array<(...args: any[]) => void>>();
+  private started = false;
+  private cancelled = false;
+  private cancelHandlers: Array<() => void> = [];
+  private producer: (emitter: TTSStreamEmitter) => Promise<void>;
+
+  constructor(producer: (emitter: TTSStreamEmitter) => Promise<void>) {
+    this.producer = producer;
+  }
+
+  on(event: string, callback: (...args: any[]) => void): void {
+    if (!this.listeners.has(event)) {
+      this.listeners.set(event, []);
+    }
+    this.listeners.get(event)!.push(callback);
+
+    if (event === 'data' && !this.started) {
+      this.started = true;
+      this.producer(this).catch(error => {
+        console.error('TTS stream: error producing audio:', error);
+        this.emit('error', error);
+      });
+    }
+  }
+
+  emit(event: string, ...args: any[]): void {
+    if (this.cancelled) return;
+    const callbacks = this.listeners.get(event) || [];
+    callbacks.forEach(callback => callback(...args));
+  }
+
+  get isCancelled(): boolean {
+    return this.cancelled;
+  }
+
+  /**
+   * Run a handler when the stream is cancelled, e.g. to stop the producer's request or process
+   */
+  onCancel(handler: () => void): void {
+    if (this.cancelled) {
+      handler();
+    } else {
+      this.cancelHandlers.push(handler);
+    }
+  }
+
+  cancel(): void {
+    if (this.cancelled) return;
+    this.cancelled = true;
+    const handlers = this.cancelHandlers;
+    this.cancelHandlers = [];
+    handlers.forEach(handler => handler());
+  }
+}
+
+export const DEFAULT_TTS_PROVIDER_ID = 'edge';
+
+// Provider registry, keyed by provider id
+const providerFactories = new Map<string, { name: string, factory: TTSProviderFactory }>();
+
+/**
+ * Register a TTS provider so it can be selected in settings
+ */
+export function registerTTSProvider(id: string, name: string, factory: TTSProviderFactory): void {
+  providerFactories.set(id, { name, factory });
+}
+
+/**
+ * List registered providers (id and display name)
+ */
+export function getRegisteredTTSProviders(): Array<{ id: string, name: string }> {
+  return Array.from(providerFactories.entries()).map(([id, entry]) => ({ id, name: entry.name }));
+}
+
+/**
+ * Create the provider selected in settings, falling back to Edge if it is unknown
+ */
+export function getTTSProvider(settings: EdgeTTSPluginSettings): TTSProvider {
+  const entry = providerFactories.get(settings.ttsProvider) || providerFactories.get(DEFAULT_TTS_PROVIDER_ID);
+  if (!entry) {
+    throw new Error(`No TTS provider registered for "${settings.ttsProvider}"`);
+  }
+  return entry.factory(settings);
+}
+
+// Built-in providers
+registerTTSProvider(DEFAULT_TTS_PROVIDER_ID, 'Microsoft Edge (online)', settings => new EdgeTTSProvider(settings));
+registerTTSProvider('openai-compatible', 'OpenAI-compatible server', settings => new OpenAITTSProvider(settings));
+if (!Platform.isMobile) {
+  registerTTSProvider('local-command', 'Local command (desktop only)', settings => new LocalCommandTTSProvider(settings));
+}
@@ -190,7 +190,7 @@ export class UIManager {
               .onClick(async () => {
                 const content = await this.plugin.fileManager.extractFileContent(file.path);
                 if (content) {
-                  this.audioManager.addToQueue(content, file.basename);
+                  this.audioManager.addToQueue(content, file.basename, file.path);
                   // Show queue manager if it's not visible
                   if (this.plugin.queueUIManager && !this.plugin.queueUIManager.getIsQueueVisible()) {
                     this.plugin.queueUIManager.showQueue();
@@ -234,9 +234,9 @@ export class UIManager {
                 const selectedText = editor.getSelection();
                 const noteTitle = view.file?.basename || 'Untitled';
                 if (selectedText.trim()) {
-                  this.audioManager.addToQueue(selectedText, `${noteTitle} (selection)`);
+                  this.audioManager.addToQueue(selectedText, `${noteTitle} (selection)`, view.file?.path);
                 } else {
-                  this.audioManager.addToQueue(editor.getValue(), noteTitle);
+                  this.audioManager.addToQueue(editor.getValue(), noteTitle, view.file?.path);
                 }
                 // Show queue manager if it's not visible
                 if (this.plugin.queueUIManager && !this.plugin.queueUIManager.getIsQueueVisible()) {
@@ -0,0 +1,259 @@
+import { App, Modal, Notice, setIcon } from 'obsidian';
+import type EdgeTTSPlugin from '../main';
+import { OUTPUT_FORMAT } from './tts-client-wrapper';
+import { getTTSProvider } from './tts-provider';
+import type { TTSVoice } from './tts-provider';
+import { VOICE_PREVIEW_SAMPLES } from '../lib/translations';
+import { toArrayBuffer } from '../utils';
+import { resolveProsody } from './note-overrides';
+
+/**
+ * Whether a voice can speak multiple languages (Edge marks these in the voice name)
+ */
+function isMultilingualVoice(voice: TTSVoice): boolean {
+  return /multilingual/i.test(voice.id);
+}
+
+/**
+ * Searchable modal listing every voice of the active TTS provider,
+ * with locale, gender and multilingual filters and a preview button per voice.
+ */
+export class VoicePickerModal extends Modal {
+  private plugin: EdgeTTSPlugin;
+  private onChoose: (voice: TTSVoice) => void;
+  private voices: TTSVoice[] = [];
+
+  // Filters
+  private searchQuery = '';
+  private localeFilter = '';
+  private genderFilter = '';
+  private multilingualOnly = false;
+
+  private listEl: HTMLElement | null = null;
+  private localeSelectEl: HTMLSelectElement | null = null;
+  private statusEl: HTMLElement | null = null;
+  private previewAudio: HTMLAudioElement | null = null;
+  private previewId = 0; // Invalidates previews that finish after another one was started
+
+  constructor(app: App, plugin: EdgeTTSPlugin, onChoose: (voice: TTSVoice) => void) {
+    super(app);
+    this.plugin = plugin;
+    this.onChoose = onChoose;
+  }
+
+  onOpen(): void {
+    const { contentEl } = this;
+    contentEl.empty();
+    contentEl.addClass('edge-tts-voice-picker');
+    this.titleEl.setText('Browse voices');
+
+    // Search and filter controls
+    const controlsEl = contentEl.createDiv({ cls: 'edge-tts-voice-picker-controls' });
+
+    const searchEl = controlsEl.createEl('input', {
+      type: 'search',
+      placeholder: 'Search voices (e.g. Katja, de-DE)',
+      cls: 'edge-tts-voice-picker-search',
+    });
+    searchEl.addEventListener('input', () => {
+      this.searchQuery = searchEl.value.trim().toLowerCase();
+      this.renderList();
+    });
+
+    this.localeSelectEl = controlsEl.createEl('select', { cls: 'dropdown' });
+    this.localeSelectEl.addEventListener('change', () => {
+      this.localeFilter = this.localeSelectEl?.value || '';
+      this.renderList();
+    });
+
+    const genderSelectEl = controlsEl.createEl('select', { cls: 'dropdown' });
+    [['', 'All genders'], ['Female', 'Female'], ['Male', 'Male']].forEach(([value, label]) => {
+      genderSelectEl.createEl('option', { value, text: label });
+    });
+    genderSelectEl.addEventListener('change', () => {
+      this.genderFilter = genderSelectEl.value;
+      this.renderList();
+    });
+
+    const multilingualLabel = controlsEl.createEl('label', { cls: 'edge-tts-voice-picker-checkbox' });
+    const multilingualCheckbox = multilingualLabel.createEl('input', { type: 'checkbox' });
+    multilingualLabel.appendText('Multilingual only');
+    multilingualCheckbox.addEventListener('change', () => {
+      this.multilingualOnly = multilingualCheckbox.checked;
+      this.renderList();
+    });
+
+    const refreshButton = controlsEl.createEl('button', { cls: 'edge-tts-voice-picker-refresh', attr: { 'aria-label': 'Refresh voice list' } });
+    setIcon(refreshButton, 'refresh-cw');
+    refreshButton.addEventListener('click', () => this.fetchVoices());
+
+    this.statusEl = contentEl.createDiv({ cls: 'edge-tts-voice-picker-status' });
+    this.listEl = contentEl.createDiv({ cls: 'edge-tts-voice-picker-list' });
+
+    // Show cached voices right away, and only hit the network when there is no cache
+    const cached = this.plugin.settings.voiceCache[this.plugin.settings.ttsProvider];
+    if (cached && cached.voices.length > 0) {
+      this.setVoices(cached.voices);
+      this.setStatus(`Voice list from ${new Date(cached.fetchedAt).toLocaleDateString()}.`);
+    } else {
+      this.fetchVoices();
+    }
+
+    searchEl.focus();
+  }
+
+  onClose(): void {
+    this.stopPreview();
+    this.contentEl.empty();
+  }
+
+  /**
+   * Fetch the voice list from the TTS provider and cache it in plugin data for offline use
+   */
+  private async fetchVoices(): Promise<void> {
+    const providerId = this.plugin.settings.ttsProvider;
+    this.setStatus('Loading voices...');
+
+    try {
+      const voices = await getTTSProvider(this.plugin.settings).listVoices();
+      voices.sort((a, b) => a.id.localeCompare(b.id));
+
+      this.plugin.settings.voiceCache[providerId] = { fetchedAt: Date.now(), voices };
+      await this.plugin.saveSettings();
+
+      this.setVoices(voices);
+      this.setStatus(`${voices.length} voices available.`);
+    } catch (error) {
+      console.error('Failed to fetch voice list:', error);
+      const cached = this.plugin.settings.voiceCache[providerId];
+      if (cached && cached.voices.length > 0) {
+        this.setStatus('Could not refresh the voice list. Showing cached voices.');
+      } else {
+        this.setStatus('Could not load the voice list. Check your connection and try again.');
+      }
+    }
+  }
+
+  private setVoices(voices: TTSVoice[]): void {
+    this.voices = voices;
+
+    // Rebuild locale options from the voices that are available
+    if (this.localeSelectEl) {
+      const locales = Array.from(new Set(voices.map(voice => voice.locale).filter((locale): locale is string => !!locale))).sort();
+      this.localeSelectEl.empty();
+      this.localeSelectEl.createEl('option', { value: '', text: 'All locales' });
+      locales.forEach(locale => this.localeSelectEl?.createEl('option', { value: locale, text: locale }));
+      if (!locales.includes(this.localeFilter)) {
+        this.localeFilter = '';
+      }
+      this.localeSelectEl.value = this.localeFilter;
+    }
+
+    this.renderList();
+  }
+
+  private setStatus(text: string): void {
+    this.statusEl?.setText(text);
+  }
+
+  private getFilteredVoices(): TTSVoice[] {
+    return this.voices.filter(voice => {
+      if (this.localeFilter && voice.locale !== this.localeFilter) return false;
+      if (this.genderFilter && voice.gender !== this.genderFilter) return false;
+      if (this.multilingualOnly && !isMultilingualVoice(voice)) return false;
+      if (this.searchQuery) {
+        const haystack = `${voice.id} ${voice.name} ${voice.locale || ''}`.toLowerCase();
+        return haystack.includes(this.searchQuery);
+      }
+      return true;
+    });
+  }
+
+  private renderList(): void {
+    if (!this.listEl) return;
+    this.listEl.empty();
+
+    const voices = this.getFilteredVoices();
+    if (voices.length === 0) {
+      this.listEl.createDiv({ cls: 'edge-tts-voice-picker-empty', text: this.voices.length ? 'No voices match the filters.' : '' });
+      return;
+    }
+
+    const currentVoice = getTTSProvider(this.plugin.settings).getDefaultVoice();
+
+    voices.forEach(voice => {
+      const itemEl = this.listEl!.createDiv({ cls: 'edge-tts-voice-picker-item' });
+      if (voice.id === currentVoice) {
+        itemEl.addClass('is-selected');
+      }
+
+      const infoEl = itemEl.createDiv({ cls: 'edge-tts-voice-picker-info' });
+      infoEl.createDiv({ cls: 'edge-tts-voice-picker-name', text: voice.id });
+      const details = [voice.locale, voice.gender, isMultilingualVoice(voice) ? 'Multilingual' : undefined].filter(Boolean).join(' · ');
+      if (details) {
+        infoEl.createDiv({ cls: 'edge-tts-voice-picker-details', text: details });
+      }
+
+      const previewButton = itemEl.createEl('button', { attr: { 'aria-label': `Preview ${voice.id}` } });
+      setIcon(previewButton, 'play');
+      previewButton.addEventListener('click', (event) => {
+        event.stopPropagation();
+        this.previewVoice(voice);
+      });
+
+      const chooseButton = itemEl.createEl('button', { text: 'Use', cls: 'mod-cta' });
+      chooseButton.addEventListener('click', (event) => {
+        event.stopPropagation();
+        this.onChoose(voice);
+        this.close();
+      });
+    });
+  }
+
+  /**
+   * Speak a short sample sentence with the given voice
+   */
+  private previewVoice(voice: TTSVoice): void {
+    this.stopPreview();
+    const previewId = ++this.previewId;
+
+    const language = (voice.locale || voice.id).split('-')[0].toLowerCase();
+    const sample = VOICE_PREVIEW_SAMPLES[language] || VOICE_PREVIEW_SAMPLES.en;
+    const provider = getTTSProvider(this.plugin.settings);
+    const chunks: Uint8Array[] = [];
+
+    const readable = provider.synthesizeStream(sample, {
+      voice: voice.id,
+      outputFormat: OUTPUT_FORMAT.AUDIO_24KHZ_48KBITRATE_MONO_MP3,
+      ...resolveProsody(this.plugin.settings),
+    });
+
+    readable.on('data', (data: Uint8Array) => {
+      chunks.push(data);
+    });
+
+    readable.on('end', () => {
+      if (previewId !== this.previewId) return;
+      const audioUrl = URL.createObjectURL(new Blob(chunks.map(chunk => toArrayBuffer(chunk)), { type: provider.audioMimeType }));
+      this.previewAudio = new Audio(audioUrl);
+      this.previewAudio.onended = () => URL.revokeObjectURL(audioUrl);
+      this.previewAudio.play().catch(error => console.error('Error playing voice preview:', error));
+    });
+
+    readable.on('error', (error: unknown) => {
+      console.error('Voice preview failed:', error);
+      if (previewId === this.previewId) new Notice(`Could not preview ${voice.id}.`);
+    });
+  }
+
+  private stopPreview(): void {
+    this.previewId++;
+    if (this.previewAudio) {
+      this.previewAudio.pause();
+      if (this.previewAudio.src.startsWith('blob:')) {
+        URL.revokeObjectURL(this.previewAudio.src);
+      }
+      this.previewAudio = null;
+    }
+  }
+}
@@ -40,6 +40,7 @@ interface ChunkInfo {
 interface ChunkedProgressUIProps {
   isVisible: boolean;
   onClose: () => void;
+  onRetryFailed?: () => void; // Set while failed chunks can be retried
   totalChunks: number;
   chunks: ChunkInfo[];
   currentPhase: 'splitting' | 'generating' | 'combining' | 'completed' | 'error';
@@ -51,6 +52,7 @@ interface ChunkedProgressUIProps {
 export const ChunkedProgressUI: React.FC<ChunkedProgressUIProps> = ({
   isVisible,
   onClose,
+  onRetryFailed,
   totalChunks,
   chunks,
   currentPhase,
@@ -172,6 +174,13 @@ export const ChunkedProgressUI: React.FC<ChunkedProgressUIProps> = ({
           </div>
         )}
 
+        {currentPhase === 'error' && onRetryFailed && (
+          <button onClick={onRetryFailed} className="chunked-progress-retry-button mod-cta">
+            <ObsidianIcon icon="rotate-ccw" size={14} />
+            <span>Retry failed chunks ({failedChunks})</span>
+          </button>
+        )}
+
         <div className="chunked-progress-overall-bar">
           <div
             className={`chunked-progress-overall-fill ${currentPhase === 'error' ? 'error' : ''}`}
@@ -189,7 +198,7 @@ export const ChunkedProgressUI: React.FC<ChunkedProgressUIProps> = ({
           )}
         </div>
 
-        {chunks.length > 0 && currentPhase === 'generating' && (
+        {chunks.length > 0 && (currentPhase === 'generating' || failedChunks > 0) && (
           <div className="chunked-progress-chunks">
             <div className="chunked-progress-chunks-header">
               <span>Chunk Progress:</span>
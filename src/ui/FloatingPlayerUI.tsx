@@ -38,6 +38,8 @@ interface FloatingPlayerUIProps {
   onReplay?: () => void;
   onJumpForward?: () => void;
   onJumpBackward?: () => void;
+  onSkipSentence?: (direction: 1 | -1) => void;
+  onSkipParagraph?: (direction: 1 | -1) => void;
   isLoading?: boolean;
   queueInfo?: { currentIndex: number; totalItems: number; currentTitle?: string; isPlayingFromQueue: boolean };
   onToggleQueue?: () => void;
@@ -59,6 +61,8 @@ export const FloatingPlayerUI: React.FC<FloatingPlayerUIProps> = ({
   onReplay,
   onJumpForward,
   onJumpBackward,
+  onSkipSentence,
+  onSkipParagraph,
   isLoading = false,
   queueInfo,
   onToggleQueue,
@@ -262,6 +266,25 @@ export const FloatingPlayerUI: React.FC<FloatingPlayerUIProps> = ({
                     <ObsidianIcon icon="rotate-cw" />
                   </button>
                 )}
+                {/* Unlike jumps, skipping works while streaming, before the duration is known */}
+                {!isReplayState && onSkipParagraph && (
+                  <div
+                    onClick={() => onSkipParagraph(-1)}
+                    aria-label="Previous paragraph"
+                    className="player-control-button player-skip-button"
+                  >
+                    <ObsidianIcon icon="skip-back" size={14} />
+                  </div>
+                )}
+                {!isReplayState && onSkipSentence && (
+                  <div
+                    onClick={() => onSkipSentence(-1)}
+                    aria-label="Previous sentence"
+                    className="player-control-button player-skip-button"
+                  >
+                    <ObsidianIcon icon="chevron-left" size={14} />
+                  </div>
+                )}
                 {!isReplayState && onJumpBackward && (duration != Infinity) && (
                   <div
                     onClick={onJumpBackward}
@@ -290,6 +313,24 @@ export const FloatingPlayerUI: React.FC<FloatingPlayerUIProps> = ({
                     <ObsidianIcon icon="rotate-cw" />
                   </div>
                 )}
+                {!isReplayState && onSkipSentence && (
+                  <div
+                    onClick={() => onSkipSentence(1)}
+                    aria-label="Next sentence"
+                    className="player-control-button player-skip-button"
+                  >
+                    <ObsidianIcon icon="chevron-right" size={14} />
+                  </div>
+                )}
+                {!isReplayState && onSkipParagraph && (
+                  <div
+                    onClick={() => onSkipParagraph(1)}
+                    aria-label="Next paragraph"
+                    className="player-control-button player-skip-button"
+                  >
+                    <ObsidianIcon icon="skip-forward" size={14} />
+                  </div>
+                )}
               </div>
             </>
           )}
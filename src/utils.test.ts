@@ -0,0 +1,320 @@
+import { describe, expect, it } from 'vitest';
+import { filterMarkdownTracked } from './utils';
+import { DEFAULT_FILTERING } from './lib/markdown-speech';
+import { PAUSE_MARKER } from './lib/pauses';
+import { SPEAKER_MARKER_END, SPEAKER_MARKER_START } from './lib/speakers';
+import { TrackedText } from './lib/source-map';
+import type { EdgeTTSPluginSettings } from './modules/settings';
+
+type TextFiltering = EdgeTTSPluginSettings['textFiltering'];
+
+function filter(markdown: string, options: Partial<TextFiltering> = {}): TrackedText {
+  return filterMarkdownTracked(TrackedText.fromSource(markdown), { ...DEFAULT_FILTERING, ...options });
+}
+
+/**
+ * Check that `word` is in the cleaned text and maps back to the same word in the note
+ */
+function expectMapped(markdown: string, cleaned: TrackedText, word: string): void {
+  const index = cleaned.text.indexOf(word);
+  expect(index).toBeGreaterThanOrEqual(0);
+  const range = cleaned.toSourceRange(index, index + word.length);
+  expect(markdown.slice(range.from, range.to)).toBe(word);
+}
+
+interface FilterCase {
+  option: string;
+  markdown: string;
+  on: Partial<TextFiltering>;
+  off: Partial<TextFiltering>;
+  expectedOn: string;
+  expectedOff: string;
+  mapped: string; // A word of the note that is spoken either way
+}
+
+// One case per textFiltering option. readEmbeddedNotes and embedDepth are applied when embeds
+// are resolved, before the text reaches filterMarkdownTracked.
+const CASES: FilterCase[] = [
+  {
+    option: 'filterFrontmatter',
+    markdown: '---\ntitle: Secret\n---\nBody text',
+    on: { filterFrontmatter: true },
+    off: { filterFrontmatter: false },
+    expectedOn: 'Body text',
+    expectedOff: '---\ntitle: Secret\n---\nBody text',
+    mapped: 'Body',
+  },
+  {
+    option: 'filterMarkdownLinks',
+    markdown: 'See [the docs](https://example.com) now',
+    on: { filterMarkdownLinks: true },
+    off: { filterMarkdownLinks: false },
+    expectedOn: 'See now',
+    expectedOff: 'See the docs now',
+    mapped: 'now',
+  },
+  {
+    option: 'filterCodeBlocks',
+    markdown: 'Before\n\n```js\nlet x;\n```\n\nAfter',
+    on: { filterCodeBlocks: true },
+    off: { filterCodeBlocks: false },
+    expectedOn: 'Before\n\nAfter',
+    expectedOff: 'Before\n\nlet x;\n\nAfter',
+    mapped: 'After',
+  },
+  {
+    option: 'announceCodeBlocks',
+    markdown: 'Before\n\n```ts\nlet x;\nlet y;\n```',
+    on: { announceCodeBlocks: true },
+    off: { announceCodeBlocks: false },
+    expectedOn: 'Before\n\nCode block in TypeScript, 2 lines, skipped',
+    expectedOff: 'Before',
+    mapped: 'Before',
+  },
+  {
+    option: 'readShortCodeBlocks',
+    markdown: 'Run\n\n```sh\na && b\n```',
+    on: { readShortCodeBlocks: 3 },
+    off: { readShortCodeBlocks: 0 },
+    expectedOn: 'Run\n\na and b',
+    expectedOff: 'Run',
+    mapped: 'Run',
+  },
+  {
+    option: 'filterInlineCode',
+    markdown: 'Call `run()` now',
+    on: { filterInlineCode: true },
+    off: { filterInlineCode: false },
+    expectedOn: 'Call run() now',
+    expectedOff: 'Call `run()` now',
+    mapped: 'run()',
+  },
+  {
+    option: 'filterHtmlTags',
+    markdown: 'Some <b>bold</b> text',
+    on: { filterHtmlTags: true },
+    off: { filterHtmlTags: false },
+    expectedOn: 'Some bold text',
+    expectedOff: 'Some <b>bold</b> text',
+    mapped: 'bold',
+  },
+  {
+    option: 'filterTables',
+    markdown: 'Intro\n\n| Name | Born |\n| --- | --- |\n| Ada | 1815 |',
+    on: { filterTables: true },
+    off: { filterTables: false },
+    expectedOn: 'Intro',
+    // Unfiltered tables are read cell by cell, without the pipes and delimiter row
+    expectedOff: 'Intro\n\nName, Born\nAda, 1815',
+    mapped: 'Intro',
+  },
+  {
+    option: 'tableNarration',
+    markdown: '| Name | Born |\n| --- | --- |\n| Ada | 1815 |',
+    on: { filterTables: false, tableNarration: 'rows' },
+    off: { filterTables: false, tableNarration: 'cells' },
+    expectedOn: 'Name: Ada, Born: 1815',
+    expectedOff: 'Name, Born\nAda, 1815',
+    mapped: 'Ada',
+  },
+  {
+    option: 'tableRowLimit',
+    markdown: '| N |\n| - |\n| 1 |\n| 2 |\n| 3 |',
+    on: { filterTables: false, tableNarration: 'rows', tableRowLimit: 1 },
+    off: { filterTables: false, tableNarration: 'rows', tableRowLimit: 0 },
+    expectedOn: 'N: 1\nand 2 more rows',
+    expectedOff: 'N: 1\nN: 2\nN: 3',
+    mapped: '1',
+  },
+  {
+    option: 'filterImages',
+    markdown: 'Look ![a cat](cat.png) and ![[dog.png]] here',
+    on: { filterImages: true },
+    off: { filterImages: false },
+    expectedOn: 'Look and here',
+    expectedOff: 'Look a cat and dog.png here',
+    mapped: 'here',
+  },
+  {
+    option: 'filterFootnotes',
+    markdown: 'Claim[^1] here\n\n[^1]: Source',
+    on: { filterFootnotes: true },
+    off: { filterFootnotes: false },
+    expectedOn: 'Claim here',
+    expectedOff: 'Claim[^1] here\n\nSource',
+    mapped: 'here',
+  },
+  {
+    option: 'filterComments',
+    markdown: 'Say %%not this%% that',
+    on: { filterComments: true },
+    off: { filterComments: false },
+    expectedOn: 'Say that',
+    expectedOff: 'Say %%not this%% that',
+    mapped: 'that',
+  },
+  {
+    option: 'filterMathExpressions',
+    markdown: 'Area $\\pi r^2$ here',
+    on: { filterMathExpressions: true },
+    off: { filterMathExpressions: false },
+    expectedOn: 'Area here',
+    expectedOff: 'Area $\\pi r^2$ here',
+    mapped: 'here',
+  },
+  {
+    option: 'speakMath',
+    markdown: 'Ratio $\\frac{a}{b}$ here',
+    on: { speakMath: true },
+    off: { speakMath: false, filterMathExpressions: true },
+    expectedOn: 'Ratio a over b here',
+    expectedOff: 'Ratio here',
+    mapped: 'Ratio',
+  },
+  {
+    option: 'filterWikiLinks',
+    markdown: 'Go to [[Page|the page]] and [[Other]]',
+    on: { filterWikiLinks: true },
+    off: { filterWikiLinks: false },
+    expectedOn: 'Go to the page and Other',
+    expectedOff: 'Go to the page and Other',
+    mapped: 'the page',
+  },
+  {
+    option: 'filterHighlights',
+    markdown: 'A ==key== point',
+    on: { filterHighlights: true },
+    off: { filterHighlights: false },
+    expectedOn: 'A key point',
+    expectedOff: 'A ==key== point',
+    mapped: 'key',
+  },
+  {
+    option: 'filterCallouts',
+    markdown: '> [!note] Title\n> Body',
+    on: { filterCallouts: true },
+    off: { filterCallouts: false },
+    expectedOn: 'Title\nBody',
+    expectedOff: '[!note] Title\nBody',
+    mapped: 'Body',
+  },
+  {
+    option: 'replaceComparisonSymbols',
+    markdown: 'if a > b then',
+    on: { replaceComparisonSymbols: true },
+    off: { replaceComparisonSymbols: false },
+    expectedOn: 'if a greater than b then',
+    expectedOff: 'if a > b then',
+    mapped: 'then',
+  },
+  {
+    option: 'verbalizeNumbers',
+    markdown: 'Due 2024-05-01 ok',
+    on: { verbalizeNumbers: true },
+    off: { verbalizeNumbers: false },
+    expectedOn: 'Due May 1, 2024 ok',
+    expectedOff: 'Due 2024-05-01 ok',
+    mapped: 'ok',
+  },
+  {
+    option: 'announceHeadings',
+    markdown: '# Intro\nText',
+    on: { announceHeadings: true },
+    off: { announceHeadings: false },
+    expectedOn: 'Section: Intro\nText',
+    expectedOff: 'Intro\nText',
+    mapped: 'Intro',
+  },
+  {
+    option: 'announceListItems',
+    markdown: '- one\n- two',
+    on: { announceListItems: true },
+    off: { announceListItems: false },
+    expectedOn: 'Item 1 of 2: one\nItem 2 of 2: two',
+    expectedOff: 'one\ntwo',
+    mapped: 'two',
+  },
+  {
+    option: 'announceCallouts',
+    markdown: '> [!warning] Careful\n> Body',
+    on: { announceCallouts: true },
+    off: { announceCallouts: false, filterCallouts: true },
+    expectedOn: 'Warning callout: Careful\nBody',
+    expectedOff: 'Careful\nBody',
+    mapped: 'Careful',
+  },
+  {
+    option: 'pauseAfterHeadings',
+    markdown: '# Title\nText',
+    on: { pauseAfterHeadings: 300 },
+    off: { pauseAfterHeadings: 0 },
+    expectedOn: `Title${PAUSE_MARKER.repeat(3)}\nText`,
+    expectedOff: 'Title\nText',
+    mapped: 'Text',
+  },
+  {
+    option: 'pauseBetweenParagraphs',
+    markdown: 'One\n\nTwo',
+    on: { pauseBetweenParagraphs: 200 },
+    off: { pauseBetweenParagraphs: 0 },
+    expectedOn: `One\n${PAUSE_MARKER.repeat(2)}\nTwo`,
+    expectedOff: 'One\n\nTwo',
+    mapped: 'Two',
+  },
+  {
+    option: 'dialogueMode',
+    markdown: '**Alice:** Hello',
+    on: { dialogueMode: true },
+    off: { dialogueMode: false },
+    expectedOn: `${SPEAKER_MARKER_START}Alice${SPEAKER_MARKER_END} Hello`,
+    expectedOff: 'Alice: Hello',
+    mapped: 'Hello',
+  },
+];
+
+describe('filterMarkdownTracked options', () => {
+  for (const testCase of CASES) {
+    describe(testCase.option, () => {
+      it('applies the option when it is on', () => {
+        const cleaned = filter(testCase.markdown, testCase.on);
+        expect(cleaned.text).toBe(testCase.expectedOn);
+        expectMapped(testCase.markdown, cleaned, testCase.mapped);
+      });
+
+      it('leaves the text alone when it is off', () => {
+        const cleaned = filter(testCase.markdown, testCase.off);
+        expect(cleaned.text).toBe(testCase.expectedOff);
+        expectMapped(testCase.markdown, cleaned, testCase.mapped);
+      });
+    });
+  }
+});
+
+describe('filterMarkdownTracked source mapping', () => {
+  it('maps every spoken character inside its source span', () => {
+    const markdown = '# Title\n\nSome **bold** and [a link](https://x.y) with `code`.\n\n- item one\n- item two';
+    const cleaned = filter(markdown);
+    for (let i = 0; i < cleaned.text.length; i++) {
+      const range = cleaned.toSourceRange(i, i + 1);
+      expect(range.from).toBeGreaterThanOrEqual(0);
+      expect(range.to).toBeLessThanOrEqual(markdown.length);
+      if (/\w/.test(cleaned.text[i])) {
+        expect(markdown.slice(range.from, range.to)).toContain(cleaned.text[i]);
+      }
+    }
+  });
+
+  it('maps replaced text to the span it replaced', () => {
+    const markdown = 'if a > b then';
+    const cleaned = filter(markdown, { replaceComparisonSymbols: true });
+    const index = cleaned.text.indexOf('greater');
+    const range = cleaned.toSourceRange(index, index + 'greater than'.length);
+    expect(markdown.slice(range.from, range.to)).toContain('>');
+  });
+
+  it('reports line and character positions in the note', () => {
+    const markdown = '---\na: 1\n---\nFirst\n\nSecond line';
+    const cleaned = filter(markdown);
+    expect(cleaned.toSourcePosition(cleaned.text.indexOf('Second'))).toEqual({ line: 5, ch: 0 });
+  });
+});
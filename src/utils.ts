@@ -5,6 +5,10 @@ import { MP3_GENERATION_LIMITS } from './modules/constants';
 import { Platform, getLanguage } from 'obsidian';
 import type { EdgeTTSPluginSettings } from './modules/settings';
 import { COMPARISON_SYMBOL_TRANSLATIONS } from './lib/translations';
+import { TrackedText } from './lib/source-map';
+import { findFrontmatterEnd } from './lib/markdown-parser';
+import { renderSpeakableText } from './lib/markdown-speech';
+import { verbalizeNumbers } from './lib/number-speech';
 
 /**
  * Detect user's language, preferring Obsidian's language setting over browser locale
@@ -50,21 +54,28 @@ export function getComparisonTranslations(settings: EdgeTTSPluginSettings): {
   greaterThanOrEqual: string;
   lessThanOrEqual: string;
 } {
-  // If no symbolReplacement settings, use default English
-  if (!settings.symbolReplacement) {
-    return COMPARISON_SYMBOL_TRANSLATIONS.en;
+  if (settings.symbolReplacement?.enableCustomReplacements) {
+    return settings.symbolReplacement.customReplacements;
   }
 
-  if (settings.symbolReplacement.enableCustomReplacements) {
-    return settings.symbolReplacement.customReplacements;
+  return COMPARISON_SYMBOL_TRANSLATIONS[resolveSpeechLanguage(settings) as keyof typeof COMPARISON_SYMBOL_TRANSLATIONS] || COMPARISON_SYMBOL_TRANSLATIONS.en;
+}
+
+/**
+ * Language used for words added to the spoken text (comparison symbols, numbers):
+ * the symbol replacement language, or the detected user language for "auto"
+ */
+export function resolveSpeechLanguage(settings: EdgeTTSPluginSettings): string {
+  // If no symbolReplacement settings, use default English
+  if (!settings.symbolReplacement) {
+    return 'en';
   }
 
-  let language = settings.symbolReplacement.language;
+  const language = settings.symbolReplacement.language;
   if (language === 'auto') {
-    language = detectUserLanguage();
+    return detectUserLanguage();
   }
-
-  return COMPARISON_SYMBOL_TRANSLATIONS[language as keyof typeof COMPARISON_SYMBOL_TRANSLATIONS] || COMPARISON_SYMBOL_TRANSLATIONS.en;
+  return Object.keys(COMPARISON_SYMBOL_TRANSLATIONS).includes(language) ? language : 'en';
 }
 
 /**
@@ -75,20 +86,29 @@ export function getComparisonTranslations(settings: EdgeTTSPluginSettings): {
  * @returns The text without the frontmatter block.
  */
 export function filterFrontmatter(text: string, shouldFilter: boolean = true): string {
+  return filterFrontmatterTracked(TrackedText.fromSource(text), shouldFilter).text;
+}
+
+/**
+ * Same as filterFrontmatter, keeping track of where the remaining text is in the original.
+ */
+export function filterFrontmatterTracked(text: TrackedText, shouldFilter: boolean = true): TrackedText {
   if (!shouldFilter) {
     return text;
   }
 
-  // Define the regular expression for frontmatter blocks
-  const frontmatterRegex = /^(---|\.\.\.)([\s\S]*?)\1\n?/;
-
   // Remove frontmatter if it exists
-  return text.replace(frontmatterRegex, '').trim();
+  const frontmatterEnd = findFrontmatterEnd(text.text);
+  return (frontmatterEnd === -1 ? text : text.slice(frontmatterEnd)).trim();
 }
 
 export function replaceComparisonSymbols(text: string, settings?: EdgeTTSPluginSettings): string {
+  return replaceComparisonSymbolsTracked(TrackedText.fromSource(text), settings).text;
+}
+
+function replaceComparisonSymbolsTracked(text: TrackedText, settings?: EdgeTTSPluginSettings): TrackedText {
   // If no settings provided or comparison replacement is disabled, use Unicode symbols
-  if (!settings || !settings.textFiltering.replaceComparisonSymbols) {
+  if (!settings || !settings.textFiltering?.replaceComparisonSymbols) {
     return text
       .replace(/>=/g, '≥') // Replace ">=" with "≥"
       .replace(/<=/g, '≤'); // Replace "<=" with "≤"
@@ -97,21 +117,20 @@ export function replaceComparisonSymbols(text: string, settings?: EdgeTTSPluginS
   // Get appropriate translations
   const translations = getComparisonTranslations(settings);
 
-  // Split text into lines to handle blockquotes and process each line carefully
-  const lines = text.split('\n');
-  const processedLines = lines.map(line => {
+  // Process each line separately to handle blockquotes carefully
+  return text.mapLines(line => {
     // Skip lines that start with blockquote markers (> )
-    if (/^\s*>\s/.test(line)) {
+    if (/^\s*>\s/.test(line.text)) {
       return line;
     }
 
     // Skip lines that appear to contain HTML tags or comments
-    if (/<[^>]+>/.test(line) || /<!--.*?-->/.test(line)) {
+    if (/<[^>]+>/.test(line.text) || /<!--.*?-->/.test(line.text)) {
       return line;
     }
 
     // Skip lines that contain URLs
-    if (/https?:\/\//.test(line) || /<[^@\s]+@[^@\s]+\.[^@\s]+>/.test(line)) {
+    if (/https?:\/\//.test(line.text) || /<[^@\s]+@[^@\s]+\.[^@\s]+>/.test(line.text)) {
       return line;
     }
 
@@ -121,15 +140,15 @@ export function replaceComparisonSymbols(text: string, settings?: EdgeTTSPluginS
     // Replace compound operators first using the same robust approach
     // Handle >= symbols
     let previousLine = '';
-    while (previousLine !== processedLine) {
-      previousLine = processedLine;
+    while (previousLine !== processedLine.text) {
+      previousLine = processedLine.text;
       processedLine = processedLine.replace(/(\w+)\s*>=\s*(\w+)/g, '$1' + translations.greaterThanOrEqual + '$2');
     }
 
     // Handle <= symbols
     previousLine = '';
-    while (previousLine !== processedLine) {
-      previousLine = processedLine;
+    while (previousLine !== processedLine.text) {
+      previousLine = processedLine.text;
       processedLine = processedLine.replace(/(\w+)\s*<=\s*(\w+)/g, '$1' + translations.lessThanOrEqual + '$2');
     }
 
@@ -138,22 +157,20 @@ export function replaceComparisonSymbols(text: string, settings?: EdgeTTSPluginS
 
     // Handle > symbols that appear between word characters
     previousLine = '';
-    while (previousLine !== processedLine) {
-      previousLine = processedLine;
+    while (previousLine !== processedLine.text) {
+      previousLine = processedLine.text;
       processedLine = processedLine.replace(/(\w+)\s*>\s*(\w+)/g, '$1' + translations.greaterThan + '$2');
     }
 
     // Handle < symbols
     previousLine = '';
-    while (previousLine !== processedLine) {
-      previousLine = processedLine;
+    while (previousLine !== processedLine.text) {
+      previousLine = processedLine.text;
       processedLine = processedLine.replace(/(\w+)\s*<\s*(\w+)/g, '$1' + translations.lessThan + '$2');
     }
 
     return processedLine;
   });
-
-  return processedLines.join('\n');
 }
 
 /**
@@ -182,148 +199,26 @@ export function toArrayBuffer(data: Buffer | Uint8Array): ArrayBuffer {
 // }
 
 export function filterMarkdown(text: string, textFiltering?: EdgeTTSPluginSettings['textFiltering'], symbolReplacement?: EdgeTTSPluginSettings['symbolReplacement']): string {
-  let processedText = text;
-
-  // Apply frontmatter filtering if enabled (default behavior if no settings provided)
-  if (!textFiltering || textFiltering.filterFrontmatter) {
-    // Remove frontmatter (e.g., YAML between triple dashes "---")
-    processedText = processedText.replace(/^-{3}[\s\S]*?-{3}\n?/, '');
-  }
-
-  // Filter comments if enabled
-  if (textFiltering?.filterComments) {
-    // Remove HTML comments <!-- comment -->
-    processedText = processedText.replace(/<!--[\s\S]*?-->/g, '');
-    // Remove Obsidian comments %%comment%%
-    processedText = processedText.replace(/%%[\s\S]*?%%/g, '');
-  }
-
-  // Filter math expressions if enabled
-  if (textFiltering?.filterMathExpressions) {
-    // Remove block math $$...$$
-    processedText = processedText.replace(/\$\$[\s\S]*?\$\$/g, '');
-    // Remove inline math $...$
-    processedText = processedText.replace(/\$[^\n$]+\$/g, '');
-  }
-
-  // Filter code blocks if enabled (default behavior if no settings provided)
-  if (!textFiltering || textFiltering.filterCodeBlocks) {
-    // Remove fenced code blocks (e.g., ```code```)
-    processedText = processedText.replace(/```[\s\S]*?```/g, '');
-  }
-
-  // Filter tables if enabled
-  if (textFiltering?.filterTables) {
-    // Remove markdown tables (lines with | characters that form table structure)
-    processedText = processedText.replace(/^\|.*\|$/gm, '');
-    // Remove table separator lines like |---|---|
-    processedText = processedText.replace(/^\|[\s\-\|:]+\|$/gm, '');
-  }
-
-  // Filter images if enabled
-  if (textFiltering?.filterImages) {
-    // Remove image embeds ![alt](url)
-    processedText = processedText.replace(/!\[([^\]]*)\]\([^)]*\)/g, '');
-    // Remove image attachments ![[image.png]]
-    processedText = processedText.replace(/!\[\[([^\]]*)\]\]/g, '');
-  }
-
-  // Filter callouts if enabled
-  if (textFiltering?.filterCallouts) {
-    // Remove Obsidian callout syntax but keep the content
-    // Match lines starting with > [!type] and remove the callout formatting
-    processedText = processedText.replace(/^>\s*\[![^\]]*\]\s*/gm, '');
-    // Also remove subsequent > markers that are part of the callout
-    const lines = processedText.split('\n');
-    let inCallout = false;
-    const filteredLines = lines.map(line => {
-      if (line.match(/^>\s*\[![^\]]*\]/)) {
-        inCallout = true;
-        return line.replace(/^>\s*\[![^\]]*\]\s*/, '');
-      } else if (inCallout && line.startsWith('> ')) {
-        return line.substring(2);
-      } else if (inCallout && !line.startsWith('>') && line.trim() !== '') {
-        inCallout = false;
-      }
-      return line;
-    });
-    processedText = filteredLines.join('\n');
-  }
-
-  // Filter footnotes if enabled
-  if (textFiltering?.filterFootnotes) {
-    // Remove footnote references [^1]
-    processedText = processedText.replace(/\[\^[^\]]+\]/g, '');
-    // Remove footnote definitions [^1]: content
-    processedText = processedText.replace(/^\[\^[^\]]+\]:\s*.*$/gm, '');
-  }
-
-  // Filter markdown links if enabled
-  if (textFiltering?.filterMarkdownLinks) {
-    // Remove markdown links [text](url) completely
-    processedText = processedText.replace(/\[([^\]]*)\]\([^)]*\)/g, '');
-  } else {
-    // Default behavior: keep link text but remove URL
-    processedText = processedText.replace(/\[([^\]]*)\]\([^)]*\)/g, '$1');
-  }
-
-  // Filter wiki links if enabled
-  if (textFiltering?.filterWikiLinks) {
-    // Remove wiki links [[link]] but keep display text [[link|display]] -> display
-    processedText = processedText.replace(/\[\[([^\]|]*)\|([^\]]*)\]\]/g, '$2'); // [[link|display]] -> display
-    processedText = processedText.replace(/\[\[([^\]]*)\]\]/g, '$1'); // [[link]] -> link
-  } else {
-    // Default behavior: keep wiki link text
-    processedText = processedText.replace(/\[\[([^\]|]*)\|([^\]]*)\]\]/g, '$2'); // [[link|display]] -> display
-    processedText = processedText.replace(/\[\[([^\]]*)\]\]/g, '$1'); // [[link]] -> link
-  }
-
-  // Remove URLs that aren't part of markdown links
-  processedText = processedText.replace(/https?:\/\/[^\s]+/g, '');
-
-  // Remove inline markdown syntax
-  let cleanedMarkdown = processedText;
-
-  // Remove bold (**text** or __text__) and italics (*text* or _text_)
-  cleanedMarkdown = cleanedMarkdown
-    .replace(/(\*\*|__)(.*?)\1/g, '$2') // Bold
-    .replace(/(\*|_)(.*?)\1/g, '$2');   // Italics
-
-  // Filter inline code if enabled (default behavior if no settings provided)
-  if (!textFiltering || textFiltering.filterInlineCode) {
-    // Remove inline code markers (`code`) but keep the content
-    cleanedMarkdown = cleanedMarkdown.replace(/`([^`]*)`/g, '$1');
-  }
+  return filterMarkdownTracked(TrackedText.fromSource(text), textFiltering, symbolReplacement).text;
+}
 
-  // Filter highlights if enabled
-  if (textFiltering?.filterHighlights) {
-    // Remove highlight markers ==text== but keep the content
-    cleanedMarkdown = cleanedMarkdown.replace(/==([^=]*)==/g, '$1');
-  }
+/**
+ * Same as filterMarkdown, returning the cleaned text together with a map back to
+ * the original note, so spoken text can be located with toSourceRange()/toSourcePosition().
+ */
+export function filterMarkdownTracked(text: TrackedText, textFiltering?: EdgeTTSPluginSettings['textFiltering'], symbolReplacement?: EdgeTTSPluginSettings['symbolReplacement']): TrackedText {
+  // Minimal settings object for the language and symbol replacement lookups
+  const settings = { textFiltering, symbolReplacement } as EdgeTTSPluginSettings;
 
-  // Remove strikethrough (~~text~~) but keep the content
-  cleanedMarkdown = cleanedMarkdown.replace(/~~(.*?)~~/g, '$1');
+  // Parse the Markdown and keep the speakable text of each node, as allowed by the filtering settings
+  let cleanedMarkdown = renderSpeakableText(text, textFiltering, resolveSpeechLanguage(settings));
 
-  // Remove other markdown characters (e.g., #, -, *, etc., not part of inline code)
-  cleanedMarkdown = cleanedMarkdown
-    .replace(/^[#*-]+\s*/gm, '')
-    // Remove unordered list markers (e.g., "- ", "* ", "+ ")
-    .replace(/^[\-\+\*]\s+/gm, '')
-    // Remove ordered list numbers (e.g., "1. ", "2. ")
-    .replace(/^\d+\.\s+/gm, '')
-    // Remove blockquote markers (e.g., "> ") only at the start of a line
-    .replace(/^>\s+/gm, '')
-    // Remove horizontal rules (e.g., "---", "***")
-    .replace(/^[-*]{3,}\s*$/gm, '');
-
-  // Replace comparison symbols based on settings (create a minimal settings object)
-  const settings = { textFiltering, symbolReplacement } as EdgeTTSPluginSettings;
-  cleanedMarkdown = replaceComparisonSymbols(cleanedMarkdown, settings);
+  // Replace comparison symbols based on settings
+  cleanedMarkdown = replaceComparisonSymbolsTracked(cleanedMarkdown, settings);
 
-  // Filter HTML tags if enabled (default behavior if no settings provided)
-  if (!textFiltering || textFiltering.filterHtmlTags) {
-    // Remove HTML tags explicitly while preserving `<` and `>` symbols in text
-    cleanedMarkdown = cleanedMarkdown.replace(/<([^>\s]+)[^>]*>/g, '');
+  // Read dates, amounts, measurements and versions in words of the speech language
+  if (textFiltering?.verbalizeNumbers) {
+    cleanedMarkdown = verbalizeNumbers(cleanedMarkdown, resolveSpeechLanguage(settings));
   }
 
   // Clean up excessive whitespace
@@ -0,0 +1,14 @@
+import { defineConfig } from "vitest/config";
+import { fileURLToPath } from "url";
+
+export default defineConfig({
+	resolve: {
+		alias: {
+			// The obsidian package only ships type declarations, so tests use a stand-in
+			obsidian: fileURLToPath(new URL("./src/__mocks__/obsidian.ts", import.meta.url)),
+		},
+	},
+	test: {
+		include: ["src/**/*.test.ts"],
+	},
+});